@@ -0,0 +1,135 @@
+/**
+ * Service worker: keeps the app usable offline
+ *
+ * - Pages are network-first, falling back to the cached app shell
+ * - Built assets (/assets/*, content-hashed) are cache-first
+ * - Course data (/data/*) is network-first, falling back to the last copy
+ * - Everything else cross-origin (Supabase, video providers) is left alone
+ * - Videos saved for offline viewing live in VIDEO_CACHE, which the page
+ *   manages (src/lib/offlineVideos.ts) and this worker only has to keep
+ *
+ * The build writes /precache-manifest.json listing every built file and
+ * course catalog, so lazy chunks (PDF export, HLS) and all courses are
+ * available offline without having been opened first. The page asks for a
+ * re-sync on every load, which also picks up new deployments.
+ */
+
+const SHELL_CACHE = 'concept-capsule-shell-v1';
+const DATA_CACHE = 'concept-capsule-data-v1';
+const VIDEO_CACHE = 'concept-capsule-videos-v1';
+const PRECACHE_MANIFEST_URL = '/precache-manifest.json';
+const SHELL_URL = '/';
+const SHELL_FILES = [SHELL_URL, '/manifest.webmanifest', '/favicon.ico', '/icon.svg'];
+
+// Cache whatever the manifest lists that isn't cached yet, and drop old builds
+async function syncPrecache() {
+  let manifest;
+  try {
+    const response = await fetch(PRECACHE_MANIFEST_URL, { cache: 'no-store' });
+    // No manifest in development builds
+    if (!response.ok) return;
+    manifest = await response.json();
+  } catch {
+    return;
+  }
+
+  const shell = await caches.open(SHELL_CACHE);
+  const data = await caches.open(DATA_CACHE);
+  // Lazy files are cached on first use, but still belong to this build
+  const wanted = new Set([...manifest.files, ...(manifest.lazy ?? [])]);
+
+  const cached = new Set((await shell.keys()).map(request => new URL(request.url).pathname));
+  await Promise.all(manifest.files
+    .filter(file => !cached.has(file))
+    .map(file => shell.add(file).catch(error => console.warn(`Could not cache ${file}:`, error))));
+
+  await Promise.all(manifest.data
+    .map(async file => {
+      if (await data.match(file)) return;
+      await data.add(file).catch(error => console.warn(`Could not cache ${file}:`, error));
+    }));
+
+  // Assets of earlier builds are never requested again
+  await Promise.all((await shell.keys())
+    .filter(request => {
+      const path = new URL(request.url).pathname;
+      return path.startsWith('/assets/') && !wanted.has(path);
+    })
+    .map(request => shell.delete(request)));
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_FILES))
+      .then(syncPrecache)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => ![SHELL_CACHE, DATA_CACHE, VIDEO_CACHE].includes(key))
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'sync-precache') {
+    event.waitUntil(syncPrecache());
+  }
+});
+
+async function networkFirst(request, cacheName, cacheKey = request) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Client-side routes all render the same shell
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, SHELL_URL));
+    return;
+  }
+
+  if (url.pathname.startsWith('/data/')) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
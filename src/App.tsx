@@ -3,28 +3,48 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { CourseRoute } from "./components/CourseRoute";
+import { AuthProvider } from "./components/AuthProvider";
+import { ShortcutsProvider } from "./components/ShortcutsProvider";
+import { OfflineIndicator } from "./components/OfflineIndicator";
+import { RequireAdmin } from "./components/RequireAdmin";
 import Home from "./pages/Home";
 import Watch from "./pages/Watch";
+import Review from "./pages/Review";
 import Admin from "./pages/Admin";
+import Courses from "./pages/Courses";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/watch" element={<Watch />} />
-          <Route path="/admin" element={<Admin />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <OfflineIndicator />
+        <ShortcutsProvider>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Home />} />
+              <Route path="/courses" element={<Courses />} />
+              {/* Legacy routes serve the default course */}
+              <Route path="/watch" element={<CourseRoute><Watch /></CourseRoute>} />
+              <Route path="/watch/:byteId" element={<CourseRoute><Watch /></CourseRoute>} />
+              <Route path="/courses/:courseId/watch" element={<CourseRoute><Watch /></CourseRoute>} />
+              <Route path="/courses/:courseId/watch/:byteId" element={<CourseRoute><Watch /></CourseRoute>} />
+              <Route path="/review" element={<CourseRoute><Review /></CourseRoute>} />
+              <Route path="/courses/:courseId/review" element={<CourseRoute><Review /></CourseRoute>} />
+              <Route path="/admin" element={<RequireAdmin><CourseRoute><Admin /></CourseRoute></RequireAdmin>} />
+              <Route path="/courses/:courseId/admin" element={<RequireAdmin><CourseRoute><Admin /></CourseRoute></RequireAdmin>} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </ShortcutsProvider>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { LogIn, LogOut, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SignInDialog } from '@/components/SignInDialog';
+import { useAuth } from '@/hooks/useAuth';
+
+export function AccountMenu() {
+  const { user, loading, signOut } = useAuth();
+  const [signInOpen, setSignInOpen] = useState(false);
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setSignInOpen(true)}
+          className="rounded-xl gap-2 hover:bg-muted"
+        >
+          <LogIn className="w-4 h-4" />
+          <span className="hidden sm:inline">Sign in</span>
+        </Button>
+        <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
+      </>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-xl hover:bg-muted h-10 w-10">
+          <UserRound className="w-5 h-5" />
+          <span className="sr-only">Account</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-xs text-muted-foreground">Signed in as</p>
+          <p className="text-sm font-medium truncate">{user.email}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={signOut} className="gap-2">
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
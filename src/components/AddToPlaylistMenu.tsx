@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Clock, ListPlus, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { usePlaylists } from '@/hooks/usePlaylists';
+import { cn } from '@/lib/utils';
+import { WATCH_LATER_ID } from '@/types/playlist';
+
+interface AddToPlaylistMenuProps {
+  byteId: string;
+  playlists: ReturnType<typeof usePlaylists>;
+  className?: string;
+}
+
+/**
+ * Toggle a byte in watch later or any playlist, or start a new playlist with it
+ */
+export function AddToPlaylistMenu({ byteId, playlists, className }: AddToPlaylistMenuProps) {
+  const { playlists: lists, isInPlaylist, toggleInPlaylist, createPlaylist } = playlists;
+  const [newName, setNewName] = useState('');
+  const isSaved = lists.some(p => p.byteIds.includes(byteId));
+
+  const handleCreate = () => {
+    if (createPlaylist(newName, [byteId])) setNewName('');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            'h-7 w-7 rounded-lg flex items-center justify-center transition-opacity',
+            'hover:bg-muted-foreground/20 focus-visible:opacity-100 data-[state=open]:opacity-100',
+            isSaved ? 'text-primary' : 'text-muted-foreground opacity-0 group-hover:opacity-100',
+            className
+          )}
+          title="Save to playlist"
+          aria-label="Save to playlist"
+        >
+          <ListPlus className="w-4 h-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Save to</DropdownMenuLabel>
+        {lists.map(playlist => (
+          <DropdownMenuCheckboxItem
+            key={playlist.id}
+            checked={isInPlaylist(playlist.id, byteId)}
+            onCheckedChange={() => toggleInPlaylist(playlist.id, byteId)}
+            onSelect={e => e.preventDefault()}
+          >
+            {playlist.id === WATCH_LATER_ID && <Clock className="w-3.5 h-3.5 mr-2" />}
+            <span className="truncate">{playlist.name}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <form
+          className="flex items-center gap-1 p-1"
+          onSubmit={e => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            // Typing in the menu shouldn't jump between its items
+            onKeyDown={e => e.stopPropagation()}
+            placeholder="New playlist"
+            aria-label="New playlist name"
+            className="h-8 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="h-8 w-8 shrink-0 rounded-md flex items-center justify-center hover:bg-muted disabled:opacity-50"
+            aria-label="Create playlist"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,97 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext, AuthContextValue } from '@/hooks/useAuth';
+import { getClaimToken, getFingerprint } from '@/hooks/useFingerprint';
+
+const CLAIMED_STORAGE_KEY = 'fingerprint_claimed';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Moves this device's anonymous likes and feedback to the account.
+ * Done once per account and device; the RPC only claims rows nobody owns yet
+ * that this device's claim token wrote (or, for rows from before tokens,
+ * that no other account has claimed by fingerprint).
+ */
+async function claimFingerprintActivity(userId: string) {
+  const markerKey = `${CLAIMED_STORAGE_KEY}:${userId}`;
+  if (localStorage.getItem(markerKey)) return;
+
+  try {
+    const { error } = await supabase.rpc('claim_fingerprint_activity', {
+      p_fingerprint: getFingerprint(),
+      p_claim_token: getClaimToken(),
+    });
+    if (error) throw error;
+    localStorage.setItem(markerKey, new Date().toISOString());
+  } catch (error) {
+    console.error('Error claiming anonymous activity:', error);
+  }
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'SIGNED_IN' && nextSession) {
+        // Publish the session only after claiming, so likes and feedback refetch
+        // under the account. Deferred: Supabase calls inside this callback deadlock.
+        window.setTimeout(() => {
+          claimFingerprintActivity(nextSession.user.id).finally(() => {
+            setSession(nextSession);
+            setLoading(false);
+          });
+        }, 0);
+        return;
+      }
+      setSession(nextSession);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const sendSignInEmail = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.href },
+    });
+    if (error) {
+      console.error('Error sending sign-in email:', error);
+      return false;
+    }
+    return true;
+  }, []);
+
+  const verifyCode = useCallback(async (email: string, code: string) => {
+    const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+    if (error) {
+      console.error('Error verifying sign-in code:', error);
+      return false;
+    }
+    return true;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    session,
+    user: session?.user ?? null,
+    loading,
+    sendSignInEmail,
+    verifyCode,
+    signOut,
+  }), [session, loading, sendSignInEmail, verifyCode, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
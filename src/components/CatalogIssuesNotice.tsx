@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ChevronDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CatalogIssue } from '@/lib/catalog';
+import { cn } from '@/lib/utils';
+
+interface CatalogIssuesNoticeProps {
+  issues: CatalogIssue[];
+  // Inline banner above the player, or standalone when nothing could load
+  variant?: 'banner' | 'standalone';
+}
+
+/**
+ * Surfaces catalog validation errors so a broken bytes.json degrades
+ * visibly instead of leaving the page blank
+ */
+export function CatalogIssuesNotice({ issues, variant = 'banner' }: CatalogIssuesNoticeProps) {
+  const [expanded, setExpanded] = useState(variant === 'standalone');
+  const [dismissed, setDismissed] = useState(false);
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  if (errors.length === 0 || dismissed) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={cn(
+        'border border-destructive/30 bg-destructive/10 text-sm',
+        variant === 'banner' ? 'mx-4 mt-3 rounded-xl' : 'w-full max-w-lg rounded-2xl text-left'
+      )}
+    >
+      <div className="flex items-center gap-2 px-4 py-2">
+        <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />
+        <span className="flex-1 text-foreground">
+          {errors.length} catalog {errors.length === 1 ? 'problem' : 'problems'}, some capsules may be missing
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpanded(!expanded)}
+          className="h-7 rounded-lg gap-1 text-xs"
+        >
+          Details
+          <ChevronDown className={cn('w-3 h-3 transition-transform', expanded && 'rotate-180')} />
+        </Button>
+        {variant === 'banner' && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDismissed(true)}
+            className="h-7 w-7 rounded-lg"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {expanded && (
+        <ul className="px-4 pb-3 space-y-1 max-h-40 overflow-y-auto text-xs text-muted-foreground">
+          {errors.map((issue, idx) => (
+            <li key={idx}>
+              <span className="font-medium text-foreground">
+                {issue.byteId || (issue.index >= 0 ? `Entry #${issue.index + 1}` : 'Catalog')}
+              </span>
+              {': '}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,31 @@
+import { ReactNode, useEffect } from 'react';
+import { CourseContext } from '@/hooks/useCourse';
+import { Course } from '@/types/course';
+
+interface CourseProviderProps {
+  course: Course;
+  children: ReactNode;
+}
+
+/**
+ * Provides the active course and applies its branding.
+ * The hue is set on the root element so portalled UI (popovers, dialogs) picks it up too.
+ */
+export function CourseProvider({ course, children }: CourseProviderProps) {
+  const hue = course.branding?.hue;
+
+  useEffect(() => {
+    if (hue === undefined) return;
+
+    const root = document.documentElement;
+    root.style.setProperty('--course-hue', String(hue));
+    root.classList.add('course-themed');
+
+    return () => {
+      root.classList.remove('course-themed');
+      root.style.removeProperty('--course-hue');
+    };
+  }, [hue]);
+
+  return <CourseContext.Provider value={course}>{children}</CourseContext.Provider>;
+}
@@ -0,0 +1,60 @@
+import { ReactNode } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+import { CourseProvider } from '@/components/CourseProvider';
+import { useCourses } from '@/hooks/useCourses';
+import { DEFAULT_COURSE_ID } from '@/types/course';
+
+interface CourseRouteProps {
+  children: ReactNode;
+}
+
+/**
+ * Resolves :courseId (or the default course for legacy routes like /watch)
+ * and renders the page inside its CourseProvider
+ */
+export function CourseRoute({ children }: CourseRouteProps) {
+  const { courseId = DEFAULT_COURSE_ID } = useParams();
+  const { courses, loading, error } = useCourses();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="flex flex-col items-center gap-4"
+        >
+          <Loader2 className="w-10 h-10 text-primary animate-spin" />
+          <p className="text-muted-foreground font-medium">Loading course...</p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  const course = courses.find(c => c.id === courseId);
+
+  if (error || !course) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <p className="text-destructive font-medium">
+            {error ? 'Failed to load courses' : `Course "${courseId}" not found`}
+          </p>
+          {error && <p className="text-muted-foreground text-sm mt-1">{error}</p>}
+          <Link to="/courses" className="inline-block mt-4 text-sm text-primary underline hover:text-primary/90">
+            Browse all courses
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Keyed so per-course state (storage keys, progress) starts fresh on course switch
+  return (
+    <CourseProvider key={course.id} course={course}>
+      {children}
+    </CourseProvider>
+  );
+}
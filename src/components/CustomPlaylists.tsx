@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import {
+  Check, ChevronLeft, ChevronRight, Clock, GripVertical, Link2, ListMusic, Pencil, Play, Plus, Trash2, X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { TopicBadge } from '@/components/TopicBadge';
+import { useCourse } from '@/hooks/useCourse';
+import { usePlaylists } from '@/hooks/usePlaylists';
+import { useToast } from '@/hooks/use-toast';
+import { buildPlaylistLink, getPlaylistBytes } from '@/lib/playlists';
+import { cn } from '@/lib/utils';
+import { Byte } from '@/types/byte';
+import { CustomPlaylist, WATCH_LATER_ID } from '@/types/playlist';
+
+interface CustomPlaylistsProps {
+  bytes: Byte[];
+  currentByteId: string;
+  completedVideos: string[];
+  playlists: ReturnType<typeof usePlaylists>;
+  // Plays the byte with prev/next following the playlist
+  onPlay: (byte: Byte, playlistId: string) => void;
+}
+
+interface PlaylistItemProps {
+  byte: Byte;
+  isActive: boolean;
+  isCompleted: boolean;
+  onPlay: () => void;
+  onRemove: () => void;
+}
+
+function PlaylistItem({ byte, isActive, isCompleted, onPlay, onRemove }: PlaylistItemProps) {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={byte.byte_id}
+      dragListener={false}
+      dragControls={dragControls}
+      className={cn(
+        'relative mb-1 group flex items-center gap-1 rounded-xl bg-background/0',
+        isActive && 'bg-primary/10 ring-1 ring-primary/30'
+      )}
+    >
+      {/* Dragging starts from the handle so the list still scrolls on touch */}
+      <button
+        onPointerDown={e => dragControls.start(e)}
+        className="h-8 w-6 shrink-0 flex items-center justify-center text-muted-foreground cursor-grab active:cursor-grabbing touch-none"
+        aria-label="Drag to reorder"
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <button onClick={onPlay} className="flex-1 min-w-0 py-2 pr-8 text-left">
+        <p className={cn(
+          'text-sm font-medium line-clamp-2 flex items-start gap-1.5',
+          isActive ? 'text-foreground' : 'text-foreground/80'
+        )}>
+          {isCompleted && <Check className="w-4 h-4 shrink-0 text-green-500" />}
+          {byte.byte_description}
+        </p>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {byte.byte_topics.slice(0, 2).map(topic => (
+            <TopicBadge key={topic} topic={topic} size="sm" />
+          ))}
+        </div>
+      </button>
+      <button
+        onClick={onRemove}
+        className="absolute right-2 top-2 h-7 w-7 rounded-lg flex items-center justify-center text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:bg-muted-foreground/20"
+        title="Remove from playlist"
+        aria-label="Remove from playlist"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </Reorder.Item>
+  );
+}
+
+/**
+ * The learner's playlists: the list of them, and one opened for playing,
+ * reordering by drag and drop, sharing and editing
+ */
+export function CustomPlaylists({ bytes, currentByteId, completedVideos, playlists, onPlay }: CustomPlaylistsProps) {
+  const course = useCourse();
+  const { toast } = useToast();
+  const {
+    playlists: lists,
+    activePlaylist,
+    createPlaylist,
+    renamePlaylist,
+    deletePlaylist,
+    removeFromPlaylist,
+    reorderPlaylist,
+  } = playlists;
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const openPlaylist = lists.find(p => p.id === openId) ?? null;
+
+  const handleCreate = () => {
+    const id = createPlaylist(newName);
+    if (id) {
+      setNewName('');
+      setOpenId(id);
+    }
+  };
+
+  const handleShare = async (playlist: CustomPlaylist) => {
+    const link = buildPlaylistLink(course.id, {
+      name: playlist.name,
+      byteIds: getPlaylistBytes(playlist, bytes).map(byte => byte.byte_id),
+    });
+
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Link copied",
+        description: `Anyone with the link can add "${playlist.name}" to their playlists.`,
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Couldn't copy link",
+        description: link,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!openPlaylist) {
+    return (
+      <div className="p-2 space-y-1">
+        {lists.map(playlist => {
+          const count = getPlaylistBytes(playlist, bytes).length;
+          const Icon = playlist.id === WATCH_LATER_ID ? Clock : ListMusic;
+          return (
+            <button
+              key={playlist.id}
+              onClick={() => setOpenId(playlist.id)}
+              className="w-full p-3 rounded-xl text-left flex items-center gap-3 hover:bg-muted/80 transition-colors"
+            >
+              <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0 text-muted-foreground">
+                <Icon className="w-4 h-4" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{playlist.name}</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {count} capsule{count === 1 ? '' : 's'}
+                  {activePlaylist?.id === playlist.id && <span className="text-primary font-medium"> · Playing</span>}
+                </p>
+              </div>
+              <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+            </button>
+          );
+        })}
+
+        <form
+          className="flex items-center gap-2 px-1 pt-2"
+          onSubmit={e => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="New playlist name"
+            aria-label="New playlist name"
+            className="rounded-xl bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-primary"
+          />
+          <Button type="submit" size="icon" disabled={!newName.trim()} className="rounded-xl shrink-0" aria-label="Create playlist">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+        <p className="px-2 pt-1 text-[11px] text-muted-foreground">
+          Save capsules from the catalog with the playlist button on each one.
+        </p>
+      </div>
+    );
+  }
+
+  const playlistBytes = getPlaylistBytes(openPlaylist, bytes);
+  const isWatchLater = openPlaylist.id === WATCH_LATER_ID;
+  const isPlaying = activePlaylist?.id === openPlaylist.id;
+
+  return (
+    <div className="p-2">
+      <div className="flex items-center gap-1 mb-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => {
+            setOpenId(null);
+            setRenaming(null);
+          }}
+          className="rounded-xl h-8 w-8 shrink-0"
+          aria-label="All playlists"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+
+        {renaming !== null ? (
+          <form
+            className="flex-1 min-w-0"
+            onSubmit={e => {
+              e.preventDefault();
+              renamePlaylist(openPlaylist.id, renaming);
+              setRenaming(null);
+            }}
+          >
+            <Input
+              value={renaming}
+              onChange={e => setRenaming(e.target.value)}
+              onBlur={() => setRenaming(null)}
+              onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+              autoFocus
+              aria-label="Playlist name"
+              className="h-8 rounded-lg"
+            />
+          </form>
+        ) : (
+          <p className="flex-1 min-w-0 text-sm font-semibold truncate">{openPlaylist.name}</p>
+        )}
+
+        {!isWatchLater && renaming === null && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setRenaming(openPlaylist.name)}
+            className="rounded-xl h-8 w-8 shrink-0"
+            title="Rename"
+            aria-label="Rename playlist"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 mb-3 px-1">
+        <Button
+          size="sm"
+          className="rounded-xl gap-2"
+          disabled={playlistBytes.length === 0}
+          onClick={() => {
+            const current = playlistBytes.find(byte => byte.byte_id === currentByteId);
+            onPlay(isPlaying && current ? current : playlistBytes[0], openPlaylist.id);
+          }}
+        >
+          <Play className="w-3.5 h-3.5" />
+          {isPlaying ? 'Playing' : 'Play'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-xl gap-2"
+          disabled={playlistBytes.length === 0}
+          onClick={() => handleShare(openPlaylist)}
+        >
+          <Link2 className="w-3.5 h-3.5" />
+          Share
+        </Button>
+        {!isWatchLater && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-xl h-8 w-8 ml-auto" aria-label="Delete playlist">
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete "{openPlaylist.name}"?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The playlist is removed from this device. The capsules and your progress stay.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    deletePlaylist(openPlaylist.id);
+                    setOpenId(null);
+                  }}
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {playlistBytes.length === 0 ? (
+        <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+          {isWatchLater
+            ? 'Capsules you save for later show up here.'
+            : 'Nothing here yet - add capsules from the catalog.'}
+        </p>
+      ) : (
+        <Reorder.Group
+          axis="y"
+          values={playlistBytes.map(byte => byte.byte_id)}
+          onReorder={byteIds => reorderPlaylist(openPlaylist.id, byteIds)}
+        >
+          {playlistBytes.map(byte => (
+            <PlaylistItem
+              key={byte.byte_id}
+              byte={byte}
+              isActive={isPlaying && byte.byte_id === currentByteId}
+              isCompleted={completedVideos.includes(byte.byte_id)}
+              onPlay={() => onPlay(byte, openPlaylist.id)}
+              onRemove={() => removeFromPlaylist(openPlaylist.id, byte.byte_id)}
+            />
+          ))}
+        </Reorder.Group>
+      )}
+    </div>
+  );
+}
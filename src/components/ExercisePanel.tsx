@@ -0,0 +1,166 @@
+import { KeyboardEvent } from 'react';
+import { Check, ChevronRight, Loader2, Play, RotateCcw, Trophy, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useExercise } from '@/hooks/useExercise';
+import { cn } from '@/lib/utils';
+import { Byte } from '@/types/byte';
+
+interface ExercisePanelProps {
+  byte: Byte;
+  onClose: () => void;
+  // A passed exercise completes the byte, like watching it does
+  onPassed: () => void;
+}
+
+const INDENT = '    ';
+
+function CheckRow({ passed, label, message }: { passed: boolean; label: string; message?: string | null }) {
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      {passed ? (
+        <Check className="w-4 h-4 mt-0.5 shrink-0 text-green-500" />
+      ) : (
+        <X className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+      )}
+      <div className="min-w-0">
+        <p>{label}</p>
+        {!passed && message && <p className="text-xs text-muted-foreground font-mono break-words">{message}</p>}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The byte's Python exercise: the task, an editor for the learner's code,
+ * and the output and checks of the last run
+ */
+export function ExercisePanel({ byte, onClose, onPassed }: ExercisePanelProps) {
+  const { code, setCode, resetCode, run, isRunning, result, error, hasPassed } = useExercise(byte, onPassed);
+  const exercise = byte.exercise;
+  if (!exercise) return null;
+
+  // Tab indents instead of leaving the editor; Ctrl/Cmd+Enter runs
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      if (!isRunning) run();
+      return;
+    }
+    if (event.key !== 'Tab' || event.shiftKey) return;
+    event.preventDefault();
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    const textarea = event.currentTarget;
+    setCode(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div className="h-full glass border-l border-border/50 flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-border/50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="font-display font-bold text-lg text-foreground">Practice</h3>
+          {hasPassed && (
+            <span className="flex items-center gap-1 text-xs font-medium text-green-500">
+              <Trophy className="w-3.5 h-3.5" />
+              Solved
+            </span>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="rounded-xl hover:bg-muted h-8 w-8"
+          aria-label="Close practice"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-foreground/90 whitespace-pre-line">{exercise.prompt}</p>
+
+          <textarea
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            aria-label="Your Python code"
+            className="w-full min-h-[200px] resize-y rounded-xl bg-muted/50 p-3 font-mono text-sm leading-relaxed focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
+          />
+
+          <div className="flex items-center gap-2">
+            <Button onClick={run} disabled={isRunning} size="sm" className="rounded-xl gap-2">
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              {isRunning ? 'Running…' : 'Run'}
+            </Button>
+            <Button
+              onClick={resetCode}
+              disabled={isRunning || code === exercise.starter_code}
+              variant="ghost"
+              size="sm"
+              className="rounded-xl gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+            <span className="ml-auto text-[11px] text-muted-foreground hidden lg:inline">Ctrl+Enter to run</span>
+          </div>
+
+          {isRunning && !result && (
+            <p className="text-xs text-muted-foreground">The first run loads Python, which can take a few seconds.</p>
+          )}
+
+          {error && (
+            <p className="rounded-xl border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">{error}</p>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              {result.passed && (
+                <p className="rounded-xl bg-green-500/10 p-3 text-sm font-medium text-green-500">
+                  All checks passed - this byte is complete.
+                </p>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Output</p>
+                <pre className={cn(
+                  'rounded-xl bg-muted/50 p-3 font-mono text-xs whitespace-pre-wrap break-words',
+                  !result.stdout && !result.error && 'text-muted-foreground'
+                )}>
+                  {result.stdout || (result.error ? '' : 'No output')}
+                  {result.error && <span className="text-destructive">{result.error}</span>}
+                </pre>
+              </div>
+
+              {(result.tests.length > 0 || result.outputMatches !== null) && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Checks</p>
+                  <ul className="space-y-1.5">
+                    {result.outputMatches !== null && (
+                      <CheckRow
+                        passed={result.outputMatches}
+                        label="Prints the expected output"
+                        message={result.error ? 'Not checked - your code raised an error' : null}
+                      />
+                    )}
+                    {result.tests.map(test => (
+                      <CheckRow key={test.name} passed={test.passed} label={test.name} message={test.message} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Pill, RotateCcw } from 'lucide-react';
+import { Brain, Pill, RotateCcw, Search } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
+import { AccountMenu } from './AccountMenu';
 import { ProgressIndicator } from './ProgressIndicator';
 import { Button } from './ui/button';
 import {
@@ -20,15 +21,39 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from './ui/tooltip';
+import { useShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { describeKeys } from '@/lib/shortcuts';
+import { TopicMastery } from '@/lib/mastery';
 
 interface HeaderProps {
+  // Shown next to the logo, links back to the course list
+  courseTitle?: string;
   showProgress?: boolean;
   completed?: number;
   total?: number;
+  mastery?: TopicMastery[];
   onResetProgress?: () => void;
+  // Shows the search button (the palette itself lives on the page)
+  onOpenSearch?: () => void;
+  // Shows a link to the review queue with the number of bytes due today
+  reviewPath?: string;
+  reviewCount?: number;
 }
 
-export function Header({ showProgress, completed = 0, total = 0, onResetProgress }: HeaderProps) {
+export function Header({
+  courseTitle,
+  showProgress,
+  completed = 0,
+  total = 0,
+  mastery,
+  onResetProgress,
+  onOpenSearch,
+  reviewPath,
+  reviewCount = 0,
+}: HeaderProps) {
+  const { bindings } = useShortcuts();
+  const searchKeys = describeKeys(bindings.openSearch);
+
   return (
     <motion.header
       initial={{ y: -20, opacity: 0 }}
@@ -44,10 +69,48 @@ export function Header({ showProgress, completed = 0, total = 0, onResetProgress
         </span>
       </Link>
 
+      {courseTitle && (
+        <Link
+          to="/courses"
+          className="ml-3 mr-auto px-3 py-1 rounded-full bg-primary/10 text-primary text-sm font-medium hover:bg-primary/15 transition-colors"
+        >
+          {courseTitle}
+        </Link>
+      )}
+
       <div className="flex items-center gap-4">
+        {onOpenSearch && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onOpenSearch}
+            className="rounded-xl gap-2 text-muted-foreground"
+          >
+            <Search className="w-4 h-4" />
+            <span className="hidden md:inline">Search</span>
+            {searchKeys && (
+              <kbd className="hidden md:inline rounded border border-border bg-muted px-1.5 text-[10px] font-medium">
+                {searchKeys}
+              </kbd>
+            )}
+          </Button>
+        )}
+        {reviewPath && (
+          <Button asChild variant="outline" size="sm" className="rounded-xl gap-2 text-muted-foreground">
+            <Link to={reviewPath} aria-label={`Review - ${reviewCount} due today`}>
+              <Brain className="w-4 h-4" />
+              <span className="hidden md:inline">Review</span>
+              {reviewCount > 0 && (
+                <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[11px] font-semibold flex items-center justify-center">
+                  {reviewCount > 99 ? '99+' : reviewCount}
+                </span>
+              )}
+            </Link>
+          </Button>
+        )}
         {showProgress && (
           <>
-            <ProgressIndicator completed={completed} total={total} />
+            <ProgressIndicator completed={completed} total={total} mastery={mastery} />
             {onResetProgress && completed > 0 && (
               <AlertDialog>
                 <Tooltip>
@@ -85,6 +148,7 @@ export function Header({ showProgress, completed = 0, total = 0, onResetProgress
             )}
           </>
         )}
+        <AccountMenu />
         <ThemeToggle />
       </div>
     </motion.header>
@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { highlightText } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  // Search index terms to mark
+  terms: string[];
+  className?: string;
+}
+
+export function HighlightedText({ text, terms, className }: HighlightedTextProps) {
+  const segments = useMemo(() => highlightText(text, terms), [text, terms]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,122 @@
+import { isValidElement, ReactNode, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkBreaks from 'remark-breaks';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { highlightCode, parseAnchorHref, remarkTimestampAnchors } from '@/lib/markdown';
+
+interface MarkdownNoteProps {
+  content: string;
+  // Timestamp anchors are only clickable when there's a player to seek
+  onSeek?: (position: number) => void;
+  // Checklists are only tickable when the note is editable; line is 1-based
+  onToggleTask?: (line: number) => void;
+  className?: string;
+}
+
+const remarkPlugins = [remarkGfm, remarkBreaks, remarkTimestampAnchors];
+
+/**
+ * Rendered view of a Markdown note: GFM (tables, checklists), line breaks
+ * as typed, Python-highlighted code blocks and [m:ss] anchors that seek
+ */
+export function MarkdownNote({ content, onSeek, onToggleTask, className }: MarkdownNoteProps) {
+  const components = useMemo<Components>(() => ({
+    h1: ({ node, ...props }) => <h1 className="text-base font-bold mt-3 mb-2" {...props} />,
+    h2: ({ node, ...props }) => <h2 className="text-sm font-bold mt-3 mb-2" {...props} />,
+    h3: ({ node, ...props }) => <h3 className="text-sm font-semibold mt-2 mb-1" {...props} />,
+    p: ({ node, ...props }) => <p className="mb-2 last:mb-0" {...props} />,
+    ul: ({ node, className, ...props }) => (
+      <ul
+        className={cn("mb-2 pl-5", className?.includes('contains-task-list') ? 'list-none pl-1' : 'list-disc')}
+        {...props}
+      />
+    ),
+    ol: ({ node, ...props }) => <ol className="mb-2 pl-5 list-decimal" {...props} />,
+    li: ({ node, className, ...props }) => {
+      const line = node?.position?.start.line;
+      const isTask = className?.includes('task-list-item');
+      return (
+        <li
+          className={cn("mb-0.5", isTask && "flex items-start gap-2")}
+          onClick={isTask && line && onToggleTask
+            ? (e) => {
+                if ((e.target as HTMLElement).tagName === 'INPUT') onToggleTask(line);
+              }
+            : undefined}
+          {...props}
+        />
+      );
+    },
+    input: ({ node, checked, type }) => type === 'checkbox'
+      ? (
+        <input
+          type="checkbox"
+          checked={!!checked}
+          readOnly
+          disabled={!onToggleTask}
+          className="mt-1 h-3.5 w-3.5 accent-primary cursor-pointer disabled:cursor-default"
+        />
+      )
+      : null,
+    blockquote: ({ node, ...props }) => (
+      <blockquote className="border-l-2 border-border pl-3 text-muted-foreground mb-2" {...props} />
+    ),
+    a: ({ node, href, children }) => {
+      const position = parseAnchorHref(href);
+      if (position !== null) {
+        return (
+          <button
+            type="button"
+            onClick={() => onSeek?.(position)}
+            disabled={!onSeek}
+            className="inline-flex items-center gap-0.5 text-xs font-medium text-primary bg-primary/10 hover:bg-primary/20 rounded-md px-1 align-baseline transition-colors disabled:hover:bg-primary/10"
+          >
+            <Clock className="w-3 h-3" />
+            {children}
+          </button>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+          {children}
+        </a>
+      );
+    },
+    code: ({ node, className, ...props }) => (
+      <code className={cn("rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]", className)} {...props} />
+    ),
+    // Fenced code blocks - highlighted here rather than in code so inline code stays plain
+    pre: ({ children }) => {
+      const codeProps = isValidElement<{ className?: string; children?: ReactNode }>(children)
+        ? children.props
+        : null;
+      const language = /language-([\w-]+)/.exec(codeProps?.className || '')?.[1];
+      const code = String(codeProps?.children ?? '').replace(/\n$/, '');
+      return (
+        <pre className="mb-2 overflow-x-auto rounded-lg bg-muted p-3 text-xs leading-relaxed">
+          <code
+            className="hljs font-mono"
+            dangerouslySetInnerHTML={{ __html: highlightCode(code, language) }}
+          />
+        </pre>
+      );
+    },
+    table: ({ node, ...props }) => (
+      <div className="mb-2 overflow-x-auto">
+        <table className="w-full text-xs border-collapse" {...props} />
+      </div>
+    ),
+    th: ({ node, ...props }) => <th className="border border-border px-2 py-1 text-left font-semibold" {...props} />,
+    td: ({ node, ...props }) => <td className="border border-border px-2 py-1" {...props} />,
+  }), [onSeek, onToggleTask]);
+
+  return (
+    <div className={cn("text-sm text-foreground break-words", className)}>
+      <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import { TopicBadge } from '@/components/TopicBadge';
+import { useCourse } from '@/hooks/useCourse';
+import { extractAnchors, groupNotesByTopic } from '@/lib/notes';
+import { cn } from '@/lib/utils';
+import { Byte } from '@/types/byte';
+import { CourseNotes } from '@/types/notes';
+
+interface NotesIndexProps {
+  bytes: Byte[];
+  notes: CourseNotes;
+  currentByteId: string;
+  // Open a byte's notes, optionally jumping to an anchor's position
+  onOpenByte: (byte: Byte, position?: number) => void;
+}
+
+const MAX_PREVIEW_LENGTH = 120;
+
+/**
+ * Every byte with notes, grouped by topic in course order
+ */
+export function NotesIndex({ bytes, notes, currentByteId, onOpenByte }: NotesIndexProps) {
+  const course = useCourse();
+  const groups = useMemo(() => groupNotesByTopic(course, bytes, notes), [course, bytes, notes]);
+
+  if (groups.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No notes yet. Notes you take on a capsule show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 max-h-[340px] overflow-y-auto pr-1">
+      {groups.map(group => (
+        <section key={group.topic}>
+          <div className="mb-2">
+            <TopicBadge topic={group.topic} size="sm" />
+          </div>
+          <ul className="flex flex-col gap-2">
+            {group.bytes.map(byte => {
+              const content = notes[byte.byte_id].content;
+              const anchors = extractAnchors(content);
+              const preview = content.length > MAX_PREVIEW_LENGTH
+                ? `${content.slice(0, MAX_PREVIEW_LENGTH)}…`
+                : content;
+
+              return (
+                <li
+                  key={byte.byte_id}
+                  className={cn(
+                    "rounded-xl bg-muted/50 p-3",
+                    byte.byte_id === currentByteId && "ring-1 ring-primary"
+                  )}
+                >
+                  <button
+                    onClick={() => onOpenByte(byte)}
+                    className="text-left w-full"
+                  >
+                    <p className="text-sm font-medium text-foreground truncate">{byte.byte_description}</p>
+                    <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-2 mt-1">{preview}</p>
+                  </button>
+                  {anchors.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {anchors.map((anchor, index) => (
+                        <button
+                          key={`${anchor.label}-${index}`}
+                          onClick={() => onOpenByte(byte, anchor.position)}
+                          title={anchor.text || undefined}
+                          className="flex items-center gap-1 text-xs font-medium text-primary bg-primary/10 hover:bg-primary/20 rounded-md px-1.5 py-0.5 transition-colors"
+                        >
+                          <Clock className="w-3 h-3" />
+                          {anchor.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
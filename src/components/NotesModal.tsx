@@ -1,16 +1,70 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, useDragControls, useMotionValue } from 'framer-motion';
-import { FileText, Save, Download, X, Minus, GripHorizontal } from 'lucide-react';
+import {
+  FileText,
+  Save,
+  Download,
+  X,
+  Minus,
+  GripHorizontal,
+  Clock,
+  List,
+  Code2,
+  ListChecks,
+  Eye,
+  Pencil,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { NotesIndex } from '@/components/NotesIndex';
+import { MarkdownNote } from '@/components/MarkdownNote';
 import { useToast } from '@/hooks/use-toast';
+import { useCourse } from '@/hooks/useCourse';
+import { useNotes } from '@/hooks/useNotes';
+import { getBytePath } from '@/lib/deepLink';
+import { extractAnchors, formatAnchor } from '@/lib/notes';
+import { toggleChecklistItem } from '@/lib/markdown';
+import {
+  NotesExportFormat,
+  buildNotesExport,
+  downloadBlob,
+  getExportFileName,
+  hasNotesToExport,
+} from '@/lib/notesExport';
+import { Byte } from '@/types/byte';
 
 interface NotesModalProps {
   isOpen: boolean;
   onClose: () => void;
+  byte: Byte;
+  bytes: Byte[];
+  // False when the player doesn't report its position (no anchors then)
+  canCaptureTime: boolean;
+  getCurrentTime: () => number;
+  onSeek: (position: number) => void;
 }
 
-const NOTES_STORAGE_KEY = 'conceptCapsuleNotes';
+type NotesView = 'byte' | 'index';
+type EditorMode = 'write' | 'preview';
+
+const INDENT = '    '; // Python-style indentation for Tab
+
+const EXPORT_DESCRIPTIONS: Record<NotesExportFormat, string> = {
+  markdown: 'Saved as a Markdown file.',
+  pdf: 'Saved as a printable PDF.',
+  'anki-csv': 'Import the CSV in Anki with File > Import.',
+  'anki-tsv': 'Import the TSV in Anki with File > Import.',
+};
+
 const NOTES_UI_STORAGE_KEY = 'conceptCapsuleNotesUI';
 
 interface NotesUIState {
@@ -25,26 +79,37 @@ const DEFAULT_UI_STATE: NotesUIState = {
   isMinimized: false,
 };
 
-export function NotesModal({ isOpen, onClose }: NotesModalProps) {
-  const [notes, setNotes] = useState('');
+export function NotesModal({
+  isOpen,
+  onClose,
+  byte,
+  bytes,
+  canCaptureTime,
+  getCurrentTime,
+  onSeek,
+}: NotesModalProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
+  const [view, setView] = useState<NotesView>('byte');
+  const [mode, setMode] = useState<EditorMode>('write');
   const { toast } = useToast();
+  const course = useCourse();
+  const navigate = useNavigate();
+  const { notes, legacyNotes, updateNote, attachLegacyNotes } = useNotes(course.id);
   const dragControls = useDragControls();
   const constraintsRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const note = notes[byte.byte_id]?.content ?? '';
+  const anchors = useMemo(() => extractAnchors(note), [note]);
   
   // Motion values for position persistence
   const x = useMotionValue(0);
   const y = useMotionValue(0);
 
-  // Load notes and UI state on mount
+  // Load UI state on mount
   useEffect(() => {
     try {
-      const storedNotes = localStorage.getItem(NOTES_STORAGE_KEY);
-      if (storedNotes) {
-        setNotes(storedNotes);
-      }
-      
       const storedUI = localStorage.getItem(NOTES_UI_STORAGE_KEY);
       if (storedUI) {
         const uiState: NotesUIState = JSON.parse(storedUI);
@@ -53,7 +118,7 @@ export function NotesModal({ isOpen, onClose }: NotesModalProps) {
         setIsMinimized(uiState.isMinimized);
       }
     } catch (error) {
-      console.error('Error loading notes:', error);
+      console.error('Error loading notes UI state:', error);
     }
   }, []);
 
@@ -76,74 +141,103 @@ export function NotesModal({ isOpen, onClose }: NotesModalProps) {
     saveUIState();
   }, [isMinimized, saveUIState]);
 
-  // Save notes with debounce
-  const saveNotes = useCallback((value: string) => {
-    try {
-      localStorage.setItem(NOTES_STORAGE_KEY, value);
-    } catch (error) {
-      console.error('Error saving notes:', error);
-    }
-  }, []);
-
-  // Debounced auto-save
+  // Briefly show the saved indicator after each change
   useEffect(() => {
-    const timer = setTimeout(() => {
-      if (notes !== undefined) {
-        saveNotes(notes);
-        setIsSaving(true);
-        setTimeout(() => setIsSaving(false), 500);
-      }
-    }, 400);
-
+    if (!isSaving) return;
+    const timer = setTimeout(() => setIsSaving(false), 500);
     return () => clearTimeout(timer);
-  }, [notes, saveNotes]);
+  }, [isSaving, notes]);
+
+  const changeNote = useCallback((value: string) => {
+    updateNote(byte.byte_id, value);
+    setIsSaving(true);
+  }, [byte.byte_id, updateNote]);
 
   const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setNotes(e.target.value);
+    changeNote(e.target.value);
+  };
+
+  // Replace the selection with before + selected text + after, keeping the
+  // cursor (or selection) inside; ownLine starts the insert on a fresh line
+  const insertAtCursor = (before: string, after = '', ownLine = false) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    const head = note.slice(0, start);
+    const prefix = ownLine && head && !head.endsWith('\n') ? '\n' : '';
+    const selected = note.slice(start, end);
+    const cursor = start + prefix.length + before.length;
+
+    changeNote(head + prefix + before + selected + after + note.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor + selected.length);
+    });
+  };
+
+  // Insert a [m:ss] anchor for the current position at the cursor, on its own line
+  const insertTimestamp = () => {
+    if (!canCaptureTime) return;
+    insertAtCursor(`${formatAnchor(getCurrentTime())} `, '', true);
+  };
+
+  const insertCodeBlock = () => insertAtCursor('```python\n', '\n```\n', true);
+
+  const insertChecklistItem = () => insertAtCursor('- [ ] ', '', true);
+
+  // Tab indents instead of leaving the editor - indentation matters in Python
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      insertAtCursor(INDENT);
+    }
+  };
+
+  const handleToggleTask = useCallback((line: number) => {
+    changeNote(toggleChecklistItem(note, line));
+  }, [note, changeNote]);
+
+  // Jump to a note from the index - other bytes open through their deep link
+  const handleOpenByte = (target: Byte, position?: number) => {
+    setView('byte');
+    if (target.byte_id === byte.byte_id) {
+      if (position !== undefined) onSeek(position);
+      return;
+    }
+    navigate(getBytePath(course.id, target.byte_id, position));
   };
 
   const handleDragEnd = () => {
     saveUIState();
   };
 
-  const downloadNotes = () => {
-    if (!notes || !notes.trim()) {
+  const exportNotes = async (format: NotesExportFormat) => {
+    const input = { course, bytes, notes, legacyNotes };
+    if (!hasNotesToExport(input)) {
       toast({
-        title: "No notes to download yet",
+        title: "No notes to export yet",
         description: "Start taking notes while watching videos.",
       });
       return;
     }
 
-    const today = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-
-    const content = `# Concept Capsule Notes
-
-Date: ${today}
-
----
-
-${notes}
-`;
-
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'ConceptCapsule_Notes.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    toast({
-      title: "Notes downloaded!",
-      description: "Your notes have been saved as a text file.",
-    });
+    try {
+      const blob = await buildNotesExport(input, format);
+      downloadBlob(blob, getExportFileName(course, format));
+      toast({
+        title: "Notes exported!",
+        description: EXPORT_DESCRIPTIONS[format],
+      });
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      toast({
+        title: "Couldn't export notes",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   if (!isOpen) return null;
@@ -160,7 +254,7 @@ ${notes}
         dragMomentum={false}
         dragConstraints={constraintsRef}
         dragElastic={0}
-        style={{ x, y, width: isMinimized ? '200px' : '360px' }}
+        style={{ x, y, width: isMinimized ? '200px' : '400px' }}
         initial={{ opacity: 0, scale: 0.95 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.95 }}
@@ -203,13 +297,148 @@ ${notes}
           {/* Content - Hidden when minimized */}
           {!isMinimized && (
             <div className="p-4 flex flex-col gap-3">
-              {/* Notes Textarea */}
-              <Textarea
-                value={notes}
-                onChange={handleNotesChange}
-                placeholder="Take notes while watching videos..."
-                className="resize-none rounded-xl bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-primary text-sm min-h-[200px] max-h-[300px]"
-              />
+              {/* View switch */}
+              <div className="flex gap-1">
+                <Button
+                  variant={view === 'byte' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('byte')}
+                  className="rounded-lg h-7 gap-1.5 text-xs"
+                >
+                  <FileText className="w-3.5 h-3.5" />
+                  This capsule
+                </Button>
+                <Button
+                  variant={view === 'index' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('index')}
+                  className="rounded-lg h-7 gap-1.5 text-xs"
+                >
+                  <List className="w-3.5 h-3.5" />
+                  All notes
+                </Button>
+              </div>
+
+              {view === 'index' ? (
+                <NotesIndex
+                  bytes={bytes}
+                  notes={notes}
+                  currentByteId={byte.byte_id}
+                  onOpenByte={handleOpenByte}
+                />
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground truncate">{byte.byte_description}</p>
+
+                  {/* Editor toolbar */}
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex gap-1">
+                      <Button
+                        variant={mode === 'write' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setMode('write')}
+                        className="rounded-lg h-7 gap-1.5 text-xs"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                        Write
+                      </Button>
+                      <Button
+                        variant={mode === 'preview' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setMode('preview')}
+                        className="rounded-lg h-7 gap-1.5 text-xs"
+                      >
+                        <Eye className="w-3.5 h-3.5" />
+                        Preview
+                      </Button>
+                    </div>
+                    {mode === 'write' && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={insertCodeBlock}
+                          title="Python code block"
+                          className="h-7 w-7 rounded-lg"
+                        >
+                          <Code2 className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={insertChecklistItem}
+                          title="Checklist item"
+                          className="h-7 w-7 rounded-lg"
+                        >
+                          <ListChecks className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={insertTimestamp}
+                          disabled={!canCaptureTime}
+                          title={canCaptureTime ? 'Add the current time to your notes' : "This video doesn't report its playback position"}
+                          className="h-7 w-7 rounded-lg"
+                        >
+                          <Clock className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {mode === 'write' ? (
+                    <>
+                      {/* Notes Textarea */}
+                      <Textarea
+                        ref={textareaRef}
+                        value={note}
+                        onChange={handleNotesChange}
+                        onKeyDown={handleEditorKeyDown}
+                        placeholder="Take notes on this capsule (Markdown supported)..."
+                        className="resize-none rounded-xl bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-primary text-sm font-mono min-h-[200px] max-h-[300px]"
+                      />
+
+                      {/* Timestamp anchors */}
+                      {anchors.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          {anchors.map((anchor, index) => (
+                            <button
+                              key={`${anchor.label}-${index}`}
+                              onClick={() => onSeek(anchor.position)}
+                              title={anchor.text || undefined}
+                              className="text-xs font-medium text-primary bg-primary/10 hover:bg-primary/20 rounded-md px-1.5 py-0.5 transition-colors"
+                            >
+                              {anchor.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="rounded-xl bg-muted/30 p-3 min-h-[200px] max-h-[300px] overflow-y-auto">
+                      {note.trim() ? (
+                        <MarkdownNote content={note} onSeek={onSeek} onToggleTask={handleToggleTask} />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+                      )}
+                    </div>
+                  )}
+
+                  {legacyNotes && (
+                    <div className="flex items-center justify-between gap-2 rounded-xl bg-muted/50 p-2 text-xs text-muted-foreground">
+                      <span>You have notes from before notes were kept per capsule.</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => attachLegacyNotes(byte.byte_id)}
+                        className="rounded-lg h-7 text-xs shrink-0"
+                      >
+                        Move here
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
               
               {/* Footer */}
               <div className="flex items-center justify-between">
@@ -229,16 +458,27 @@ ${notes}
                   )}
                 </div>
                 
-                {/* Download Button */}
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={downloadNotes}
-                  className="rounded-xl gap-2 h-8"
-                >
-                  <Download className="w-3.5 h-3.5" />
-                  Download
-                </Button>
+                {/* Export Menu */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-xl gap-2 h-8"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => exportNotes('markdown')}>Markdown (.md)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportNotes('pdf')}>PDF</DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Anki flashcards</DropdownMenuLabel>
+                    <DropdownMenuItem onClick={() => exportNotes('anki-csv')}>Anki (.csv)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportNotes('anki-tsv')}>Anki (.tsv)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           )}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Download, HardDriveDownload, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { useCourse } from '@/hooks/useCourse';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import { canDownloadByte, formatStorageSize } from '@/lib/offlineVideos';
+import { Byte } from '@/types/byte';
+import { getTopicDisplayName, getTopicsAlphabetical } from '@/types/course';
+
+interface OfflineDownloadsPopoverProps {
+  bytes: Byte[];
+  offline: ReturnType<typeof useOfflineDownloads>;
+}
+
+/**
+ * Download or remove whole topics for offline viewing, with storage usage
+ */
+export function OfflineDownloadsPopover({ bytes, offline }: OfflineDownloadsPopoverProps) {
+  const course = useCourse();
+  const { storage, courseDownloads, isDownloaded, getDownloadProgress, download, remove, removeAll } = offline;
+
+  const downloadable = useMemo(() => bytes.filter(canDownloadByte), [bytes]);
+  const topics = useMemo(
+    () => getTopicsAlphabetical(course)
+      .map(topic => ({ topic, bytes: downloadable.filter(byte => byte.byte_topics.includes(topic)) }))
+      .filter(entry => entry.bytes.length > 0),
+    [course, downloadable]
+  );
+
+  const isBusy = downloadable.some(byte => getDownloadProgress(byte) !== null);
+  const savedSize = courseDownloads.reduce((total, entry) => total + entry.size, 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-xl hover:bg-muted h-8 w-8"
+          title="Offline videos"
+          aria-label="Offline videos"
+        >
+          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <HardDriveDownload className="w-4 h-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0 bg-background border border-border z-50" align="end">
+        <div className="p-3 border-b border-border space-y-2">
+          <p className="text-sm font-semibold">Offline videos</p>
+          <p className="text-xs text-muted-foreground">
+            {courseDownloads.length === 0
+              ? 'Save videos to watch them without a connection.'
+              : `${courseDownloads.length} of ${downloadable.length} saved (${formatStorageSize(savedSize)})`}
+          </p>
+          {storage && (
+            <div className="space-y-1">
+              <Progress value={(storage.usage / storage.quota) * 100} className="h-1.5" />
+              <p className="text-[11px] text-muted-foreground">
+                {formatStorageSize(storage.usage)} of {formatStorageSize(storage.quota)} used on this device.
+                Older videos are removed first when space runs out.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="max-h-[250px] overflow-y-auto p-2 space-y-1">
+          {topics.map(({ topic, bytes: topicBytes }) => {
+            const saved = topicBytes.filter(isDownloaded).length;
+            const allSaved = saved === topicBytes.length;
+            return (
+              <div key={topic} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg hover:bg-muted">
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{getTopicDisplayName(course, topic)}</p>
+                  <p className="text-[11px] text-muted-foreground">{saved}/{topicBytes.length} saved</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  disabled={isBusy}
+                  onClick={() => (allSaved ? remove(topicBytes) : download(topicBytes))}
+                  title={allSaved ? 'Remove offline copies' : 'Download for offline'}
+                  aria-label={`${allSaved ? 'Remove offline copies of' : 'Download for offline:'} ${getTopicDisplayName(course, topic)}`}
+                >
+                  {allSaved ? <Trash2 className="w-3.5 h-3.5" /> : <Download className="w-3.5 h-3.5" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-2 border-t border-border flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-xs gap-1.5"
+            disabled={isBusy || courseDownloads.length === downloadable.length}
+            onClick={() => download(downloadable)}
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download all
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-xs gap-1.5 text-destructive hover:text-destructive"
+            disabled={isBusy || Object.keys(offline.downloads).length === 0}
+            onClick={removeAll}
+            title="Remove saved videos of every course"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Remove all
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,46 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { CloudUpload, WifiOff } from 'lucide-react';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+
+/**
+ * Tells learners they're offline (and that their work is safe), and which
+ * likes and ratings are still waiting to be sent
+ */
+export function OfflineIndicator() {
+  const { isOnline, pendingWrites } = useOfflineSync();
+  const visible = !isOnline || pendingWrites > 0;
+
+  const pendingText = pendingWrites === 1
+    ? '1 like or rating will be sent when you reconnect.'
+    : `${pendingWrites} likes and ratings will be sent when you reconnect.`;
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="status"
+          className="fixed bottom-4 left-4 z-50 max-w-sm glass rounded-xl px-4 py-3 shadow-lg flex items-start gap-3"
+        >
+          {isOnline ? (
+            <CloudUpload className="w-4 h-4 mt-0.5 shrink-0 text-primary animate-pulse" />
+          ) : (
+            <WifiOff className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+          )}
+          <div className="text-xs">
+            <p className="font-medium text-foreground">
+              {isOnline ? 'Sending your likes and ratings...' : "You're offline"}
+            </p>
+            {!isOnline && (
+              <p className="text-muted-foreground mt-0.5">
+                Progress and notes are saved on this device.{pendingWrites > 0 && ` ${pendingText}`}
+              </p>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,13 +1,28 @@
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Search, ChevronLeft, X, Check, ChevronDown } from 'lucide-react';
+import { Search, ChevronLeft, X, Check, ChevronDown, Download, HardDriveDownload, Loader2, Lock, Sparkles, ListMusic } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TopicBadge } from '@/components/TopicBadge';
-import { Byte, ALL_TOPICS, getTopicDisplayName } from '@/types/byte';
+import { HighlightedText } from '@/components/HighlightedText';
+import { OfflineDownloadsPopover } from '@/components/OfflineDownloadsPopover';
+import { TopicMapPopover } from '@/components/TopicMapPopover';
+import { AddToPlaylistMenu } from '@/components/AddToPlaylistMenu';
+import { CustomPlaylists } from '@/components/CustomPlaylists';
+import { Byte } from '@/types/byte';
+import { getTopicDisplayName, getTopicsAlphabetical } from '@/types/course';
+import { useCourse } from '@/hooks/useCourse';
+import { useShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import { usePlaylists } from '@/hooks/usePlaylists';
 import { cn } from '@/lib/utils';
+import { createByteSearchIndex, searchIndex } from '@/lib/search';
+import { describeKeys } from '@/lib/shortcuts';
+import { canDownloadByte } from '@/lib/offlineVideos';
+import { getMissingPrerequisites, getRecommendedNext } from '@/lib/learningPath';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
 
@@ -19,8 +34,12 @@ interface PlaylistPanelProps {
   onToggle: () => void;
   onSelectByte: (byte: Byte) => void;
   getProgress?: (byteId: string) => { percentage: number } | null;
+  playlists: ReturnType<typeof usePlaylists>;
+  onPlayFromPlaylist: (byte: Byte, playlistId: string) => void;
 }
 
+type PanelView = 'catalog' | 'playlists';
+
 export function PlaylistPanel({
   bytes,
   currentByteId,
@@ -29,19 +48,29 @@ export function PlaylistPanel({
   onToggle,
   onSelectByte,
   getProgress,
+  playlists,
+  onPlayFromPlaylist,
 }: PlaylistPanelProps) {
+  const course = useCourse();
+  const { bindings } = useShortcuts();
+  const offline = useOfflineDownloads();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   const [showUnwatchedOnly, setShowUnwatchedOnly] = useState(false);
+  const [view, setView] = useState<PanelView>('catalog');
+  const { activePlaylist, setActivePlaylist } = playlists;
+
+  // Fuzzy search over names, descriptions and topics; playlist order is kept
+  const index = useMemo(() => createByteSearchIndex(course, bytes), [course, bytes]);
+  // byte_id -> matched terms, for highlighting
+  const searchMatches = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+    return new Map(searchIndex(index, searchQuery).map(result => [result.id, result.terms]));
+  }, [index, searchQuery]);
 
   const filteredBytes = useMemo(() => {
     return bytes.filter(byte => {
-      const matchesSearch = 
-        byte.byte_description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        byte.byte_topics.some(t => 
-          t.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          getTopicDisplayName(t).toLowerCase().includes(searchQuery.toLowerCase())
-        );
+      const matchesSearch = !searchMatches || searchMatches.has(byte.byte_id);
       
       const matchesTopic = 
         selectedTopics.length === 0 ||
@@ -53,7 +82,7 @@ export function PlaylistPanel({
 
       return matchesSearch && matchesTopic && matchesCompletion;
     });
-  }, [bytes, searchQuery, selectedTopics, showUnwatchedOnly, completedVideos]);
+  }, [bytes, searchMatches, selectedTopics, showUnwatchedOnly, completedVideos]);
 
   const clearFilters = () => {
     setSearchQuery('');
@@ -70,6 +99,10 @@ export function PlaylistPanel({
   };
 
   const hasActiveFilters = searchQuery || selectedTopics.length > 0 || showUnwatchedOnly;
+  const hasDownloadableBytes = useMemo(() => bytes.some(canDownloadByte), [bytes]);
+  const hasPrerequisites = useMemo(() => bytes.some(byte => byte.prerequisites?.length), [bytes]);
+  const recommendedNext = useMemo(() => getRecommendedNext(bytes, completedVideos), [bytes, completedVideos]);
+  const describeByte = (byteId: string) => bytes.find(b => b.byte_id === byteId)?.byte_description ?? byteId;
 
   return (
     <div className="h-full glass border-r border-border/50 flex flex-col overflow-hidden">
@@ -77,159 +110,260 @@ export function PlaylistPanel({
       <div className="p-4 border-b border-border/50">
         <div className="flex items-center justify-between mb-4">
           <h3 className="font-display font-bold text-lg text-foreground">Playlist</h3>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={onToggle}
-            className="rounded-xl hover:bg-muted h-8 w-8"
-          >
-            <ChevronLeft className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {hasPrerequisites && <TopicMapPopover bytes={bytes} completedVideos={completedVideos} />}
+            {hasDownloadableBytes && <OfflineDownloadsPopover bytes={bytes} offline={offline} />}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onToggle}
+              className="rounded-xl hover:bg-muted h-8 w-8"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
-        {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Search videos..."
-            value={searchQuery}
-            onChange={e => setSearchQuery(e.target.value)}
-            className="pl-9 rounded-xl bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-primary"
-          />
-        </div>
+        <Tabs value={view} onValueChange={value => setView(value as PanelView)}>
+          <TabsList className="w-full grid grid-cols-2 rounded-xl bg-muted/50">
+            <TabsTrigger value="catalog" className="rounded-lg">Catalog</TabsTrigger>
+            <TabsTrigger value="playlists" className="rounded-lg">My playlists</TabsTrigger>
+          </TabsList>
+        </Tabs>
 
-        {/* Topic Multi-Select Filter */}
-        <div className="mt-3">
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className="w-full justify-between rounded-xl bg-muted/50 border-0 focus:ring-1 focus:ring-primary font-normal"
-              >
-                <span className="truncate">
-                  {selectedTopics.length === 0
-                    ? 'All Topics'
-                    : selectedTopics.length === 1
-                      ? getTopicDisplayName(selectedTopics[0])
-                      : `${selectedTopics.length} topics selected`}
-                </span>
-                <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0 bg-background border border-border z-50" align="start">
-              <ScrollArea className="h-[250px]">
-                <div className="p-2 space-y-1">
-                  <label
-                    className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-muted cursor-pointer"
+        {/* Prev/next follow the active playlist until it's cleared */}
+        {activePlaylist && (
+          <div className="mt-3 flex items-center gap-2 rounded-xl bg-primary/10 px-3 py-1.5 text-xs">
+            <ListMusic className="w-3.5 h-3.5 shrink-0 text-primary" />
+            <span className="flex-1 min-w-0 truncate">
+              Playing from <span className="font-medium">{activePlaylist.name}</span>
+            </span>
+            <button
+              onClick={() => setActivePlaylist(null)}
+              className="shrink-0 rounded p-0.5 text-muted-foreground hover:text-foreground"
+              title="Follow the course order"
+              aria-label="Stop playing from playlist"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        {view === 'catalog' && (
+          <>
+            {/* Search */}
+            <div className="relative mt-3">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search videos..."
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                className="pl-9 rounded-xl bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-primary"
+              />
+            </div>
+
+            {/* Topic Multi-Select Filter */}
+            <div className="mt-3">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-between rounded-xl bg-muted/50 border-0 focus:ring-1 focus:ring-primary font-normal"
                   >
-                    <Checkbox
-                      checked={selectedTopics.length === 0}
-                      onCheckedChange={() => setSelectedTopics([])}
-                    />
-                    <span className="text-sm font-medium">All Topics</span>
-                  </label>
-                  <div className="h-px bg-border my-1" />
-                  {ALL_TOPICS.map(topic => (
-                    <label
-                      key={topic}
-                      className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-muted cursor-pointer"
-                    >
-                      <Checkbox
-                        checked={selectedTopics.includes(topic)}
-                        onCheckedChange={() => toggleTopic(topic)}
-                      />
-                      <span className="text-sm">{getTopicDisplayName(topic)}</span>
-                    </label>
-                  ))}
-                </div>
-              </ScrollArea>
-            </PopoverContent>
-          </Popover>
-        </div>
+                    <span className="truncate">
+                      {selectedTopics.length === 0
+                        ? 'All Topics'
+                        : selectedTopics.length === 1
+                          ? getTopicDisplayName(course, selectedTopics[0])
+                          : `${selectedTopics.length} topics selected`}
+                    </span>
+                    <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0 bg-background border border-border z-50" align="start">
+                  <ScrollArea className="h-[250px]">
+                    <div className="p-2 space-y-1">
+                      <label
+                        className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-muted cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedTopics.length === 0}
+                          onCheckedChange={() => setSelectedTopics([])}
+                        />
+                        <span className="text-sm font-medium">All Topics</span>
+                      </label>
+                      <div className="h-px bg-border my-1" />
+                      {getTopicsAlphabetical(course).map(topic => (
+                        <label
+                          key={topic}
+                          className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-muted cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={selectedTopics.includes(topic)}
+                            onCheckedChange={() => toggleTopic(topic)}
+                          />
+                          <span className="text-sm">{getTopicDisplayName(course, topic)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </PopoverContent>
+              </Popover>
+            </div>
 
-        {/* Unwatched filter toggle */}
-        <div className="mt-3 flex items-center justify-between">
-          <label 
-            htmlFor="unwatched-toggle" 
-            className="text-sm text-muted-foreground cursor-pointer"
-          >
-            Show unwatched only
-          </label>
-          <Switch 
-            id="unwatched-toggle"
-            checked={showUnwatchedOnly}
-            onCheckedChange={setShowUnwatchedOnly}
-          />
-        </div>
+            {/* Unwatched filter toggle */}
+            <div className="mt-3 flex items-center justify-between">
+              <label 
+                htmlFor="unwatched-toggle" 
+                className="text-sm text-muted-foreground cursor-pointer"
+              >
+                Show unwatched only
+              </label>
+              <Switch 
+                id="unwatched-toggle"
+                checked={showUnwatchedOnly}
+                onCheckedChange={setShowUnwatchedOnly}
+              />
+            </div>
 
-        {hasActiveFilters && (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={clearFilters}
-            className="mt-2 text-xs text-muted-foreground hover:text-foreground"
-          >
-            <X className="w-3 h-3 mr-1" />
-            Clear filters
-          </Button>
+            {hasActiveFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearFilters}
+                className="mt-2 text-xs text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-3 h-3 mr-1" />
+                Clear filters
+              </Button>
+            )}
+          </>
         )}
       </div>
 
       {/* Playlist Items */}
       <ScrollArea className="flex-1">
-        <div className="p-2">
-          {filteredBytes.map((byte, index) => {
-            const isActive = byte.byte_id === currentByteId;
-            const isCompleted = completedVideos.includes(byte.byte_id);
-            const originalIndex = bytes.findIndex(b => b.byte_id === byte.byte_id);
-            const progress = getProgress?.(byte.byte_id);
-
-            return (
-              <motion.button
-                key={byte.byte_id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.02 }}
-                onClick={() => onSelectByte(byte)}
-                className={cn(
-                  'w-full p-3 rounded-xl text-left transition-all duration-200 mb-1',
-                  'hover:bg-muted/80 group',
-                  isActive && 'bg-primary/10 ring-1 ring-primary/30'
-                )}
-              >
-                <div className="flex items-start gap-3">
-                  <div className={cn(
-                    'w-8 h-8 rounded-lg flex items-center justify-center shrink-0 text-sm font-bold transition-colors',
-                    isCompleted
-                      ? 'bg-green-500/20 text-green-500'
-                      : isActive
-                        ? 'bg-primary/20 text-primary'
-                        : 'bg-muted text-muted-foreground group-hover:bg-muted-foreground/20'
-                  )}>
-                    {isCompleted ? (
-                      <Check className="w-4 h-4" />
-                    ) : (
-                      originalIndex + 1
+        {view === 'playlists' ? (
+          <CustomPlaylists
+            bytes={bytes}
+            currentByteId={currentByteId}
+            completedVideos={completedVideos}
+            playlists={playlists}
+            onPlay={onPlayFromPlaylist}
+          />
+        ) : (
+          <div className="p-2">
+            {filteredBytes.map((byte, index) => {
+              const isActive = byte.byte_id === currentByteId;
+              const isCompleted = completedVideos.includes(byte.byte_id);
+              const originalIndex = bytes.findIndex(b => b.byte_id === byte.byte_id);
+              const progress = getProgress?.(byte.byte_id);
+              const isDownloadable = canDownloadByte(byte);
+              const isSaved = offline.isDownloaded(byte);
+              const downloadProgress = offline.getDownloadProgress(byte);
+              // A hint only - locked bytes can still be played
+              const missingPrerequisites = isCompleted ? [] : getMissingPrerequisites(byte, completedVideos);
+              const isLocked = missingPrerequisites.length > 0;
+              const isRecommended = recommendedNext?.byte_id === byte.byte_id && !isActive;
+
+              return (
+                <motion.div
+                  key={byte.byte_id}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.02 }}
+                  className="relative mb-1 group"
+                >
+                  <button
+                    onClick={() => onSelectByte(byte)}
+                    className={cn(
+                      'w-full p-3 rounded-xl text-left transition-all duration-200',
+                      'hover:bg-muted/80 pr-10',
+                      isActive && 'bg-primary/10 ring-1 ring-primary/30'
                     )}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className={cn(
-                      'text-sm font-medium line-clamp-2',
-                      isActive ? 'text-foreground' : 'text-foreground/80'
-                    )}>
-                      {byte.byte_description}
-                    </p>
-                    <div className="flex flex-wrap gap-1 mt-1.5">
-                      {byte.byte_topics.slice(0, 2).map(topic => (
-                        <TopicBadge key={topic} topic={topic} size="sm" />
-                      ))}
+                    title={isLocked ? `Watch first: ${missingPrerequisites.map(describeByte).join(', ')}` : undefined}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className={cn(
+                        'w-8 h-8 rounded-lg flex items-center justify-center shrink-0 text-sm font-bold transition-colors',
+                        isCompleted
+                          ? 'bg-green-500/20 text-green-500'
+                          : isActive
+                            ? 'bg-primary/20 text-primary'
+                            : 'bg-muted text-muted-foreground group-hover:bg-muted-foreground/20'
+                      )}>
+                        {isCompleted ? (
+                          <Check className="w-4 h-4" />
+                        ) : isLocked && !isActive ? (
+                          <Lock className="w-3.5 h-3.5" />
+                        ) : (
+                          originalIndex + 1
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={cn(
+                          'text-sm font-medium line-clamp-2',
+                          isActive ? 'text-foreground' : isLocked ? 'text-foreground/50' : 'text-foreground/80'
+                        )}>
+                          <HighlightedText text={byte.byte_description} terms={searchMatches?.get(byte.byte_id) ?? []} />
+                        </p>
+                        {isRecommended && (
+                          <p className="mt-1 flex items-center gap-1 text-[11px] font-medium text-primary">
+                            <Sparkles className="w-3 h-3" />
+                            Recommended next
+                          </p>
+                        )}
+                        {isLocked && (
+                          <p className="mt-1 text-[11px] text-muted-foreground line-clamp-1">
+                            {missingPrerequisites.length === 1
+                              ? `After: ${describeByte(missingPrerequisites[0])}`
+                              : `After ${missingPrerequisites.length} other capsules`}
+                          </p>
+                        )}
+                        <div className="flex flex-wrap gap-1 mt-1.5">
+                          {byte.byte_topics.slice(0, 2).map(topic => (
+                            <TopicBadge key={topic} topic={topic} size="sm" />
+                          ))}
+                        </div>
+                      </div>
                     </div>
+                  </button>
+
+                  {/* Siblings, since buttons can't be nested */}
+                  <div className="absolute right-2 top-3 flex flex-col gap-1">
+                    <AddToPlaylistMenu byteId={byte.byte_id} playlists={playlists} />
+                    {isDownloadable && (
+                      <button
+                        onClick={() => (isSaved ? offline.remove([byte]) : offline.download([byte]))}
+                        disabled={downloadProgress !== null}
+                        className={cn(
+                          'h-7 w-7 rounded-lg flex items-center justify-center transition-opacity',
+                          'hover:bg-muted-foreground/20 focus-visible:opacity-100',
+                          isSaved ? 'text-primary' : 'text-muted-foreground',
+                          !isSaved && downloadProgress === null && 'opacity-0 group-hover:opacity-100'
+                        )}
+                        title={
+                          downloadProgress !== null
+                            ? `Downloading… ${Math.round(downloadProgress * 100)}%`
+                            : isSaved ? 'Saved for offline - click to remove' : 'Download for offline'
+                        }
+                        aria-label={isSaved ? 'Remove offline copy' : 'Download for offline'}
+                      >
+                        {downloadProgress !== null ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : isSaved ? (
+                          <HardDriveDownload className="w-4 h-4" />
+                        ) : (
+                          <Download className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
                   </div>
-                </div>
-              </motion.button>
-            );
-          })}
-        </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
       </ScrollArea>
 
       {/* Footer */}
@@ -238,7 +372,7 @@ export function PlaylistPanel({
           ☕ More capsules brewing! We add new content regularly.
         </p>
         <p className="text-xs text-center text-muted-foreground">
-          <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">L</kbd> to toggle
+          <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">{describeKeys(bindings.togglePlaylist)}</kbd> to toggle
         </p>
       </div>
     </div>
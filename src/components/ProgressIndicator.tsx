@@ -1,15 +1,55 @@
 import { motion } from 'framer-motion';
 import { Zap } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useCourse } from '@/hooks/useCourse';
+import { MASTERY_LEVEL_LABELS, TopicMastery } from '@/lib/mastery';
+import { getTopicDisplayName } from '@/types/course';
 
 interface ProgressIndicatorProps {
   completed: number;
   total: number;
+  // Per-topic breakdown, shown when the indicator is clicked
+  mastery?: TopicMastery[];
 }
 
-export function ProgressIndicator({ completed, total }: ProgressIndicatorProps) {
-  const percentage = total > 0 ? (completed / total) * 100 : 0;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function TopicMasteryList({ mastery }: { mastery: TopicMastery[] }) {
+  const course = useCourse();
 
   return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-semibold">Topic mastery</p>
+        <p className="text-xs text-muted-foreground">Combines how much you watched with your quiz scores.</p>
+      </div>
+      <div className="max-h-[300px] overflow-y-auto space-y-2.5 pr-1">
+        {mastery.map(entry => (
+          <div key={entry.topic}>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{getTopicDisplayName(course, entry.topic)}</span>
+              <span className="text-xs text-muted-foreground shrink-0">{MASTERY_LEVEL_LABELS[entry.level]}</span>
+            </div>
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden mt-1">
+              <div className="h-full gradient-primary rounded-full" style={{ width: percent(entry.mastery) }} />
+            </div>
+            <p className="text-[11px] text-muted-foreground mt-0.5">
+              Watched {percent(entry.watch)}
+              {entry.quiz !== null && (
+                <> · Quizzes {percent(entry.quiz)} ({entry.quizzesTaken}/{entry.quizzesAvailable} taken)</>
+              )}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ProgressIndicator({ completed, total, mastery }: ProgressIndicatorProps) {
+  const percentage = total > 0 ? (completed / total) * 100 : 0;
+
+  const indicator = (
     <motion.div
       initial={{ opacity: 0, scale: 0.9 }}
       animate={{ opacity: 1, scale: 1 }}
@@ -33,4 +73,19 @@ export function ProgressIndicator({ completed, total }: ProgressIndicatorProps)
       </div>
     </motion.div>
   );
+
+  if (!mastery || mastery.length === 0) return indicator;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="text-left rounded-2xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary" aria-label="Show topic mastery">
+          {indicator}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <TopicMasteryList mastery={mastery} />
+      </PopoverContent>
+    </Popover>
+  );
 }
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Check, ListChecks, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { QuizAnswer, QUIZ_BLANK, getCorrectAnswer, isAnswerCorrect, scoreQuiz } from '@/lib/quiz';
+import { cn } from '@/lib/utils';
+import { QuizQuestion } from '@/types/byte';
+import { QuizResult } from '@/types/progress';
+
+interface QuizDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  questions: QuizQuestion[];
+  // Latest earlier attempt, shown before starting
+  previousResult?: QuizResult;
+  onComplete: (correct: number, total: number) => void;
+}
+
+function QuestionText({ question }: { question: QuizQuestion }) {
+  if (question.type !== 'fill_blank' || !question.question.includes(QUIZ_BLANK)) {
+    return <>{question.question}</>;
+  }
+  const [before, ...rest] = question.question.split(QUIZ_BLANK);
+  return (
+    <>
+      {before}
+      <span className="inline-block min-w-[3rem] border-b-2 border-primary/60 mx-1 align-baseline" />
+      {rest.join(QUIZ_BLANK)}
+    </>
+  );
+}
+
+/**
+ * Check-yourself questions for a byte: answer all, then see which were right
+ */
+export function QuizDialog({ open, onOpenChange, title, questions, previousResult, onComplete }: QuizDialogProps) {
+  const [answers, setAnswers] = useState<(QuizAnswer | undefined)[]>([]);
+  const [checked, setChecked] = useState(false);
+
+  // Every opening starts a fresh attempt
+  useEffect(() => {
+    if (open) {
+      setAnswers([]);
+      setChecked(false);
+    }
+  }, [open, questions]);
+
+  const setAnswer = (index: number, answer: QuizAnswer) => {
+    setAnswers(prev => {
+      const next = [...prev];
+      next[index] = answer;
+      return next;
+    });
+  };
+
+  const isComplete = questions.every((_, index) => answers[index] !== undefined && answers[index] !== '');
+  const score = scoreQuiz(questions, answers);
+
+  const handleCheck = () => {
+    setChecked(true);
+    onComplete(score, questions.length);
+  };
+
+  const handleRetry = () => {
+    setAnswers([]);
+    setChecked(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            Check yourself
+          </DialogTitle>
+          <DialogDescription>
+            {checked
+              ? `You got ${score} of ${questions.length} right.`
+              : previousResult
+                ? `${title} - last time you got ${previousResult.correct} of ${previousResult.total} right.`
+                : title}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="max-h-[60vh] overflow-y-auto -mx-2 px-2 space-y-5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!checked && isComplete) handleCheck();
+          }}
+        >
+          {questions.map((question, index) => {
+            const answer = answers[index];
+            const correct = checked && isAnswerCorrect(question, answer);
+            return (
+              <fieldset key={index} disabled={checked} className="space-y-2">
+                <legend className="text-sm font-medium mb-2 flex items-start gap-2">
+                  {checked && (correct
+                    ? <Check className="w-4 h-4 mt-0.5 shrink-0 text-green-500" />
+                    : <X className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />)}
+                  <span>{index + 1}. <QuestionText question={question} /></span>
+                </legend>
+
+                {question.type === 'multiple_choice' ? (
+                  <RadioGroup
+                    value={answer === undefined ? '' : String(answer)}
+                    onValueChange={(value) => setAnswer(index, Number(value))}
+                    className="gap-1"
+                  >
+                    {question.options.map((option, optionIndex) => (
+                      <Label
+                        key={optionIndex}
+                        htmlFor={`quiz-${index}-${optionIndex}`}
+                        className={cn(
+                          'flex items-center gap-2 rounded-lg px-3 py-2 font-normal cursor-pointer hover:bg-muted/50',
+                          checked && optionIndex === question.answer && 'bg-green-500/10',
+                          checked && optionIndex === answer && !correct && 'bg-destructive/10'
+                        )}
+                      >
+                        <RadioGroupItem value={String(optionIndex)} id={`quiz-${index}-${optionIndex}`} />
+                        {option}
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <Input
+                    value={typeof answer === 'string' ? answer : ''}
+                    onChange={(e) => setAnswer(index, e.target.value)}
+                    placeholder="Your answer"
+                    aria-label={`Answer to question ${index + 1}`}
+                    className={cn(checked && (correct ? 'border-green-500' : 'border-destructive'))}
+                  />
+                )}
+
+                {checked && !correct && (
+                  <p className="text-xs text-muted-foreground">
+                    Answer: <span className="font-medium text-foreground">{getCorrectAnswer(question)}</span>
+                  </p>
+                )}
+                {checked && question.explanation && (
+                  <p className="text-xs text-muted-foreground">{question.explanation}</p>
+                )}
+              </fieldset>
+            );
+          })}
+
+          <div className="flex justify-end gap-2 pb-1">
+            {checked ? (
+              <>
+                <Button type="button" variant="outline" onClick={handleRetry} className="gap-2">
+                  <RotateCcw className="w-4 h-4" />
+                  Try again
+                </Button>
+                <Button type="button" onClick={() => onOpenChange(false)}>
+                  Done
+                </Button>
+              </>
+            ) : (
+              <Button type="submit" disabled={!isComplete}>
+                Check answers
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { ReactNode, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SignInDialog } from '@/components/SignInDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useIsAdmin } from '@/hooks/useIsAdmin';
+
+interface RequireAdminProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only for signed-in admins.
+ * The data itself is protected by RLS; this just keeps others out of the UI.
+ */
+export function RequireAdmin({ children }: RequireAdminProps) {
+  const { user, signOut } = useAuth();
+  const { isAdmin, loading } = useIsAdmin();
+  const [signInOpen, setSignInOpen] = useState(false);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (isAdmin) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="max-w-sm text-center space-y-4">
+        <div className="w-12 h-12 mx-auto rounded-full bg-muted flex items-center justify-center">
+          <ShieldAlert className="w-6 h-6 text-muted-foreground" />
+        </div>
+        <div>
+          <h1 className="text-xl font-bold text-foreground">Admins only</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {user
+              ? `${user.email} doesn't have access to the admin area.`
+              : 'Sign in with an admin account to view analytics.'}
+          </p>
+        </div>
+        <div className="flex justify-center gap-2">
+          {user ? (
+            <Button variant="outline" onClick={signOut} className="rounded-xl">
+              Use another account
+            </Button>
+          ) : (
+            <Button onClick={() => setSignInOpen(true)} className="rounded-xl">
+              Sign in
+            </Button>
+          )}
+          <Button variant="ghost" asChild className="rounded-xl">
+            <Link to="/">Back home</Link>
+          </Button>
+        </div>
+      </div>
+      <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { FileText, Captions, PlayCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { HighlightedText } from '@/components/HighlightedText';
+import { useCourse } from '@/hooks/useCourse';
+import { readCourseNotes } from '@/hooks/useNotes';
+import { createByteSearchIndex, getSnippet, searchIndex } from '@/lib/search';
+import { Byte } from '@/types/byte';
+import { getTopicDisplayName } from '@/types/course';
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bytes: Byte[];
+  // Caption transcripts by byte_id, where available
+  transcripts?: Record<string, string>;
+  onSelectByte: (byte: Byte) => void;
+}
+
+const MAX_RESULTS = 20;
+
+/**
+ * Ctrl+K search over capsule names, descriptions, topics, transcripts and
+ * the learner's notes
+ */
+export function SearchPalette({ open, onOpenChange, bytes, transcripts, onSelectByte }: SearchPaletteProps) {
+  const course = useCourse();
+  const [query, setQuery] = useState('');
+
+  // Notes are read when the palette opens so edits made since show up
+  const notes = useMemo(() => {
+    if (!open) return {};
+    return Object.fromEntries(
+      Object.values(readCourseNotes(course.id)).map(note => [note.byteId, note.content])
+    );
+  }, [open, course.id]);
+
+  const index = useMemo(
+    () => createByteSearchIndex(course, bytes, { notes, transcripts }),
+    [course, bytes, notes, transcripts]
+  );
+
+  const byteById = useMemo(() => new Map(bytes.map(byte => [byte.byte_id, byte])), [bytes]);
+
+  const results = useMemo(
+    () => searchIndex(index, query).slice(0, MAX_RESULTS),
+    [index, query]
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setQuery('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (byte: Byte) => {
+    onSelectByte(byte);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-xl">
+        <DialogTitle className="sr-only">Search capsules</DialogTitle>
+        {/* Filtering and ranking come from the search index, not cmdk */}
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search capsules, topics, transcripts and your notes..."
+          />
+          <CommandList className="max-h-[400px]">
+            {query.trim() && <CommandEmpty>No capsules found.</CommandEmpty>}
+            {results.length > 0 && (
+              <CommandGroup heading="Capsules">
+                {results.map(result => {
+                  const byte = byteById.get(result.id);
+                  if (!byte) return null;
+
+                  // Show where the match came from when it isn't the title
+                  const noteSnippet = result.fields.includes('notes') && notes[byte.byte_id]
+                    ? getSnippet(notes[byte.byte_id], result.terms)
+                    : null;
+                  const transcriptSnippet = !noteSnippet && result.fields.includes('transcript') && transcripts?.[byte.byte_id]
+                    ? getSnippet(transcripts[byte.byte_id], result.terms)
+                    : null;
+
+                  return (
+                    <CommandItem
+                      key={byte.byte_id}
+                      value={byte.byte_id}
+                      onSelect={() => handleSelect(byte)}
+                      className="flex items-start gap-3 py-2.5"
+                    >
+                      <PlayCircle className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <HighlightedText
+                          text={byte.byte_description}
+                          terms={result.terms}
+                          className="block text-sm font-medium truncate"
+                        />
+                        <HighlightedText
+                          text={byte.byte_topics.map(topic => getTopicDisplayName(course, topic)).join(' · ')}
+                          terms={result.terms}
+                          className="block text-xs text-muted-foreground truncate"
+                        />
+                        {noteSnippet && (
+                          <span className="flex items-start gap-1.5 mt-1 text-xs text-muted-foreground">
+                            <FileText className="w-3 h-3 mt-0.5 shrink-0" />
+                            <HighlightedText text={noteSnippet} terms={result.terms} className="line-clamp-2" />
+                          </span>
+                        )}
+                        {transcriptSnippet && (
+                          <span className="flex items-start gap-1.5 mt-1 text-xs text-muted-foreground">
+                            <Captions className="w-3 h-3 mt-0.5 shrink-0" />
+                            <HighlightedText text={transcriptSnippet} terms={result.terms} className="line-clamp-2" />
+                          </span>
+                        )}
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Keyboard, Pencil, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useShortcuts } from '@/hooks/useKeyboardShortcuts';
+import {
+  SHORTCUTS,
+  SHORTCUT_GROUPS,
+  ShortcutId,
+  eventToCombo,
+  findBindingConflict,
+  formatCombo,
+  getShortcut,
+  isReservedCombo,
+} from '@/lib/shortcuts';
+import { cn } from '@/lib/utils';
+
+interface ShortcutHelpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecordingChange: (recording: boolean) => void;
+}
+
+export function ShortcutKeys({ combo, className }: { combo: string; className?: string }) {
+  return (
+    <span className={cn("inline-flex items-center gap-0.5", className)}>
+      {formatCombo(combo).map((part, index) => (
+        <kbd
+          key={index}
+          className="min-w-[1.5rem] rounded border border-border bg-muted px-1.5 py-0.5 text-center text-[11px] font-medium"
+        >
+          {part}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+/**
+ * Every shortcut available on the current page, with rebinding
+ */
+export function ShortcutHelpDialog({ open, onOpenChange, onRecordingChange }: ShortcutHelpDialogProps) {
+  const { bindings, conflicts, activeScopes, setBinding, resetBindings } = useShortcuts();
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+  const [recordError, setRecordError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onRecordingChange(recordingId !== null);
+  }, [recordingId, onRecordingChange]);
+
+  useEffect(() => {
+    if (!open) {
+      setRecordingId(null);
+      setRecordError(null);
+    }
+  }, [open]);
+
+  // Capture the next key press as the new binding
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = eventToCombo(event);
+      if (!combo) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (combo === 'escape') {
+        setRecordingId(null);
+        setRecordError(null);
+        return;
+      }
+      if (isReservedCombo(combo)) {
+        setRecordError(`${formatCombo(combo).join('+')} can't be used as a shortcut.`);
+        return;
+      }
+      const conflict = findBindingConflict(bindings, recordingId, combo);
+      if (conflict) {
+        setRecordError(`${formatCombo(combo).join('+')} is already used for "${conflict.label}".`);
+        return;
+      }
+
+      setBinding(recordingId, [combo]);
+      setRecordingId(null);
+      setRecordError(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, bindings, setBinding]);
+
+  const visibleShortcuts = SHORTCUTS.filter(shortcut =>
+    shortcut.scopes.some(scope => activeScopes.includes(scope))
+  );
+
+  const isCustomized = SHORTCUTS.some(shortcut =>
+    bindings[shortcut.id].join(' ') !== shortcut.defaultKeys.join(' ')
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-lg"
+        // Escape cancels recording instead of closing
+        onEscapeKeyDown={(e) => {
+          if (recordingId) e.preventDefault();
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="w-5 h-5" />
+            Keyboard shortcuts
+          </DialogTitle>
+          <DialogDescription>
+            Shortcuts for this page. Click the pencil to change a key.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length > 0 && (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive space-y-1">
+            {conflicts.map(conflict => (
+              <p key={`${conflict.combo}-${conflict.shortcuts.join('-')}`} className="flex items-center gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {formatCombo(conflict.combo).join('+')} is bound to both
+                "{getShortcut(conflict.shortcuts[0]).label}" and "{getShortcut(conflict.shortcuts[1]).label}".
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto -mx-2">
+          <div className="px-2 space-y-4">
+            {SHORTCUT_GROUPS.map(group => {
+              const shortcuts = visibleShortcuts.filter(shortcut => shortcut.group === group);
+              if (shortcuts.length === 0) return null;
+              return (
+                <section key={group}>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">{group}</h3>
+                  <div className="space-y-1">
+                    {shortcuts.map(shortcut => {
+                      const isRecording = recordingId === shortcut.id;
+                      return (
+                        <div key={shortcut.id}>
+                          <div className="flex items-center justify-between gap-3 rounded-lg px-2 py-1.5 hover:bg-muted/50">
+                            <span className="text-sm">{shortcut.label}</span>
+                            <div className="flex items-center gap-2">
+                              {isRecording ? (
+                                <span className="text-xs text-primary animate-pulse">Press a key… (Esc to cancel)</span>
+                              ) : (
+                                bindings[shortcut.id].map((combo, index) => (
+                                  <span key={combo} className="flex items-center gap-2">
+                                    {index > 0 && <span className="text-xs text-muted-foreground">or</span>}
+                                    <ShortcutKeys combo={combo} />
+                                  </span>
+                                ))
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  setRecordError(null);
+                                  setRecordingId(isRecording ? null : shortcut.id);
+                                }}
+                                className="h-7 w-7"
+                                aria-label={`Change shortcut for ${shortcut.label}`}
+                              >
+                                <Pencil className="w-3.5 h-3.5" />
+                              </Button>
+                            </div>
+                          </div>
+                          {isRecording && recordError && (
+                            <p className="px-2 text-xs text-destructive">{recordError}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        </div>
+
+        {isCustomized && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={resetBindings} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Reset to defaults
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
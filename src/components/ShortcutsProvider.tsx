@@ -0,0 +1,138 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ShortcutHelpDialog } from '@/components/ShortcutHelpDialog';
+import { ShortcutRegistration, ShortcutsContext, ShortcutsContextValue } from '@/hooks/useKeyboardShortcuts';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import {
+  SHORTCUTS,
+  ShortcutBindings,
+  ShortcutId,
+  ShortcutScope,
+  eventToCombo,
+  findConflicts,
+  resolveBindings,
+} from '@/lib/shortcuts';
+
+const SHORTCUTS_STORAGE_KEY = 'conceptCapsuleShortcuts';
+
+// Widgets that use arrow keys and space themselves
+const ARROW_KEY_WIDGETS = '[role="menu"], [role="listbox"], [role="slider"], [role="radiogroup"], [role="dialog"], [role="tablist"]';
+const NAVIGATION_KEYS = new Set(['space', 'enter', 'arrowleft', 'arrowright', 'arrowup', 'arrowdown']);
+
+function isTextField(target: HTMLElement): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+}
+
+// Space, Enter and arrows belong to focused buttons, links, menus and sliders
+function isNativeKeyTarget(combo: string, target: HTMLElement): boolean {
+  if (!NAVIGATION_KEYS.has(combo) || !target.closest) return false;
+  if (target.closest(ARROW_KEY_WIDGETS)) return true;
+  return (combo === 'space' || combo === 'enter') && !!target.closest('button, a, [role="button"]');
+}
+
+interface ShortcutsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Owns the one keydown listener: matches presses against the learner's
+ * bindings and runs the handler of the most recently mounted page that
+ * provides one
+ */
+export function ShortcutsProvider({ children }: ShortcutsProviderProps) {
+  const [overrides, setOverrides] = useLocalStorage<Partial<ShortcutBindings>>(SHORTCUTS_STORAGE_KEY, {});
+  const [registrations, setRegistrations] = useState<ShortcutRegistration[]>([]);
+  const [helpOpen, setHelpOpen] = useState(false);
+  // Set while the help overlay records a new key, which must not trigger anything
+  const [isRecording, setIsRecording] = useState(false);
+
+  const bindings = useMemo(() => resolveBindings(overrides), [overrides]);
+  const conflicts = useMemo(() => findConflicts(bindings), [bindings]);
+
+  const stateRef = useRef({ bindings, registrations, isRecording, helpOpen });
+  useEffect(() => {
+    stateRef.current = { bindings, registrations, isRecording, helpOpen };
+  }, [bindings, registrations, isRecording, helpOpen]);
+
+  const register = useCallback((registration: ShortcutRegistration) => {
+    setRegistrations(prev => [...prev, registration]);
+    return () => setRegistrations(prev => prev.filter(entry => entry !== registration));
+  }, []);
+
+  const openHelp = useCallback(() => setHelpOpen(true), []);
+
+  // The overlay itself is available on every page
+  const helpHandlers = useRef({ showShortcuts: () => setHelpOpen(open => !open) });
+  useEffect(() => register({ scope: 'global', handlers: helpHandlers }), [register]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { bindings, registrations, isRecording, helpOpen } = stateRef.current;
+      if (isRecording || event.isComposing) return;
+
+      const combo = eventToCombo(event);
+      if (!combo) return;
+
+      const target = event.target as HTMLElement;
+      const inTextField = isTextField(target);
+      if (isNativeKeyTarget(combo, target)) return;
+
+      // Newest registrations first, so a dialog or nested view can take over a key
+      for (const { scope, handlers } of [...registrations].reverse()) {
+        const shortcut = SHORTCUTS.find(candidate =>
+          candidate.scopes.includes(scope) &&
+          bindings[candidate.id].includes(combo) &&
+          handlers.current[candidate.id]
+        );
+        if (!shortcut || (inTextField && !shortcut.allowInInputs)) continue;
+        // Only the overlay's own key works while it covers the page
+        if (helpOpen && shortcut.id !== 'showShortcuts') continue;
+
+        event.preventDefault();
+        event.stopPropagation();
+        handlers.current[shortcut.id]?.();
+        return;
+      }
+    };
+
+    // Capture phase, so shortcuts still work when a control swallows the event
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const setBinding = useCallback((id: ShortcutId, keys: string[]) => {
+    setOverrides(prev => ({ ...prev, [id]: keys }));
+  }, [setOverrides]);
+
+  const resetBindings = useCallback(() => setOverrides({}), [setOverrides]);
+
+  const activeScopes = useMemo(
+    () => Array.from(new Set(registrations.map(registration => registration.scope))) as ShortcutScope[],
+    [registrations]
+  );
+
+  const value = useMemo<ShortcutsContextValue>(() => ({
+    bindings,
+    conflicts,
+    activeScopes,
+    register,
+    setBinding,
+    resetBindings,
+    openHelp,
+  }), [bindings, conflicts, activeScopes, register, setBinding, resetBindings, openHelp]);
+
+  return (
+    <ShortcutsContext.Provider value={value}>
+      {children}
+      <ShortcutHelpDialog
+        open={helpOpen}
+        onOpenChange={setHelpOpen}
+        onRecordingChange={setIsRecording}
+      />
+    </ShortcutsContext.Provider>
+  );
+}
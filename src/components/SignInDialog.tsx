@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Loader2, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useAuth } from '@/hooks/useAuth';
+
+interface SignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CODE_LENGTH = 6;
+
+/**
+ * Email sign-in: the email carries a magic link and a one-time code,
+ * either of which signs the learner in
+ */
+export function SignInDialog({ open, onOpenChange }: SignInDialogProps) {
+  const { sendSignInEmail, verifyCode } = useAuth();
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'email' | 'code'>('email');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep('email');
+    setCode('');
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleSendEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || isBusy) return;
+
+    setIsBusy(true);
+    setError(null);
+    const sent = await sendSignInEmail(email.trim());
+    setIsBusy(false);
+
+    if (sent) {
+      setStep('code');
+    } else {
+      setError("We couldn't send the email. Check the address and try again.");
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (value.length < CODE_LENGTH || isBusy) return;
+
+    setIsBusy(true);
+    setError(null);
+    const verified = await verifyCode(email.trim(), value);
+    setIsBusy(false);
+
+    if (verified) {
+      handleOpenChange(false);
+    } else {
+      setCode('');
+      setError('That code is invalid or has expired.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Sign in</DialogTitle>
+          <DialogDescription>
+            {step === 'email'
+              ? 'Keep your likes and ratings across devices. Signing in is optional.'
+              : `We sent a link and a ${CODE_LENGTH}-digit code to ${email.trim()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'email' ? (
+          <form onSubmit={handleSendEmail} className="space-y-4">
+            <Input
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoFocus
+              required
+            />
+            <Button type="submit" disabled={isBusy || !email.trim()} className="w-full rounded-xl gap-2">
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+              Email me a sign-in link
+            </Button>
+          </form>
+        ) : (
+          <div className="flex flex-col items-center gap-4">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              onComplete={handleVerify}
+              disabled={isBusy}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <p className="text-xs text-muted-foreground text-center">
+              Enter the code, or open the link from the email on this device.
+            </p>
+            <Button variant="ghost" size="sm" onClick={reset} disabled={isBusy} className="rounded-xl">
+              Use a different email
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { getTopicDisplayName } from '@/types/byte';
+import { useCourse } from '@/hooks/useCourse';
+import { Course, TopicColor, getTopicDisplayName } from '@/types/course';
 
 interface TopicBadgeProps {
   topic: string;
@@ -10,29 +11,42 @@ interface TopicBadgeProps {
   className?: string;
 }
 
-const topicColors: Record<string, { bg: string; text: string; activeBg: string }> = {
-  DICTIONARIES: { bg: 'bg-violet-500/15', text: 'text-violet-600 dark:text-violet-400', activeBg: 'bg-violet-500' },
-  LISTS: { bg: 'bg-emerald-500/15', text: 'text-emerald-600 dark:text-emerald-400', activeBg: 'bg-emerald-500' },
-  TUPLES: { bg: 'bg-amber-500/15', text: 'text-amber-600 dark:text-amber-400', activeBg: 'bg-amber-500' },
-  SETS: { bg: 'bg-rose-500/15', text: 'text-rose-600 dark:text-rose-400', activeBg: 'bg-rose-500' },
-  STRINGS: { bg: 'bg-cyan-500/15', text: 'text-cyan-600 dark:text-cyan-400', activeBg: 'bg-cyan-500' },
-  DATA_TYPES: { bg: 'bg-indigo-500/15', text: 'text-indigo-600 dark:text-indigo-400', activeBg: 'bg-indigo-500' },
-  RECURSION: { bg: 'bg-pink-500/15', text: 'text-pink-600 dark:text-pink-400', activeBg: 'bg-pink-500' },
-  LOOPS: { bg: 'bg-orange-500/15', text: 'text-orange-600 dark:text-orange-400', activeBg: 'bg-orange-500' },
-  CONDITIONAL_STATEMENTS: { bg: 'bg-teal-500/15', text: 'text-teal-600 dark:text-teal-400', activeBg: 'bg-teal-500' },
-  PYTHON_GENERAL: { bg: 'bg-blue-500/15', text: 'text-blue-600 dark:text-blue-400', activeBg: 'bg-blue-500' },
-  TYPE_CONVERSION: { bg: 'bg-purple-500/15', text: 'text-purple-600 dark:text-purple-400', activeBg: 'bg-purple-500' },
-  FUNCTIONS: { bg: 'bg-lime-500/15', text: 'text-lime-600 dark:text-lime-400', activeBg: 'bg-lime-500' },
+type BadgeColors = { bg: string; text: string; activeBg: string };
+
+const colorPalette: Record<TopicColor, BadgeColors> = {
+  violet: { bg: 'bg-violet-500/15', text: 'text-violet-600 dark:text-violet-400', activeBg: 'bg-violet-500' },
+  emerald: { bg: 'bg-emerald-500/15', text: 'text-emerald-600 dark:text-emerald-400', activeBg: 'bg-emerald-500' },
+  amber: { bg: 'bg-amber-500/15', text: 'text-amber-600 dark:text-amber-400', activeBg: 'bg-amber-500' },
+  rose: { bg: 'bg-rose-500/15', text: 'text-rose-600 dark:text-rose-400', activeBg: 'bg-rose-500' },
+  cyan: { bg: 'bg-cyan-500/15', text: 'text-cyan-600 dark:text-cyan-400', activeBg: 'bg-cyan-500' },
+  indigo: { bg: 'bg-indigo-500/15', text: 'text-indigo-600 dark:text-indigo-400', activeBg: 'bg-indigo-500' },
+  pink: { bg: 'bg-pink-500/15', text: 'text-pink-600 dark:text-pink-400', activeBg: 'bg-pink-500' },
+  orange: { bg: 'bg-orange-500/15', text: 'text-orange-600 dark:text-orange-400', activeBg: 'bg-orange-500' },
+  teal: { bg: 'bg-teal-500/15', text: 'text-teal-600 dark:text-teal-400', activeBg: 'bg-teal-500' },
+  blue: { bg: 'bg-blue-500/15', text: 'text-blue-600 dark:text-blue-400', activeBg: 'bg-blue-500' },
+  purple: { bg: 'bg-purple-500/15', text: 'text-purple-600 dark:text-purple-400', activeBg: 'bg-purple-500' },
+  lime: { bg: 'bg-lime-500/15', text: 'text-lime-600 dark:text-lime-400', activeBg: 'bg-lime-500' },
 };
 
+const PALETTE_ORDER = Object.keys(colorPalette) as TopicColor[];
+
+// Topics without an explicit color cycle through the palette in course order
+function getTopicColors(course: Course, topic: string): BadgeColors | null {
+  const index = course.topics.findIndex(t => t.key === topic);
+  if (index < 0) return null;
+  const color = course.topics[index].color || PALETTE_ORDER[index % PALETTE_ORDER.length];
+  return colorPalette[color];
+}
+
 export function TopicBadge({ topic, size = 'md', onClick, active = false, className }: TopicBadgeProps) {
-  const colors = topicColors[topic] || { 
+  const course = useCourse();
+  const colors = getTopicColors(course, topic) || { 
     bg: 'bg-muted', 
     text: 'text-muted-foreground', 
     activeBg: 'bg-primary' 
   };
 
-  const displayName = getTopicDisplayName(topic);
+  const displayName = getTopicDisplayName(course, topic);
 
   return (
     <motion.button
@@ -0,0 +1,114 @@
+import { useMemo } from 'react';
+import { Check, Network } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TopicBadge } from '@/components/TopicBadge';
+import { useCourse } from '@/hooks/useCourse';
+import { getTopicMap } from '@/lib/learningPath';
+import { cn } from '@/lib/utils';
+import { Byte } from '@/types/byte';
+
+interface TopicMapPopoverProps {
+  bytes: Byte[];
+  completedVideos: string[];
+}
+
+const NODE_WIDTH = 128;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 40;
+const ROW_GAP = 8;
+
+/**
+ * Which topics build on which, from the catalog's prerequisites: one column
+ * per step, with arrows from a topic to the topics that need it
+ */
+export function TopicMapPopover({ bytes, completedVideos }: TopicMapPopoverProps) {
+  const course = useCourse();
+  const { layers, dependencies } = useMemo(() => getTopicMap(course, bytes), [course, bytes]);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  layers.forEach((layer, column) => {
+    layer.forEach((topic, row) => {
+      positions.set(topic, { x: column * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) });
+    });
+  });
+  const width = layers.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = Math.max(0, ...layers.map(layer => layer.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-xl hover:bg-muted h-8 w-8"
+          title="Topic map"
+          aria-label="Topic map"
+        >
+          <Network className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto max-w-[90vw] p-0 bg-background border border-border z-50" align="start">
+        <div className="p-3 border-b border-border">
+          <p className="text-sm font-semibold">Topic map</p>
+          <p className="text-xs text-muted-foreground">Arrows point from a topic to the topics that build on it.</p>
+        </div>
+
+        <div className="max-h-[60vh] overflow-auto p-3">
+          <div className="relative" style={{ width, height }}>
+            <svg className="absolute inset-0 text-muted-foreground/50" width={width} height={height} aria-hidden="true">
+              <defs>
+                <marker id="topic-map-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L8,4 L0,8 z" fill="currentColor" />
+                </marker>
+              </defs>
+              {dependencies.map(({ from, to }) => {
+                const start = positions.get(from);
+                const end = positions.get(to);
+                if (!start || !end) return null;
+                const x1 = start.x + NODE_WIDTH;
+                const y1 = start.y + NODE_HEIGHT / 2;
+                const x2 = end.x;
+                const y2 = end.y + NODE_HEIGHT / 2;
+                const bend = Math.max(Math.abs(x2 - x1) / 2, COLUMN_GAP / 2);
+                return (
+                  <path
+                    key={`${from}>${to}`}
+                    d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                    markerEnd="url(#topic-map-arrow)"
+                  />
+                );
+              })}
+            </svg>
+
+            {layers.flat().map(topic => {
+              const position = positions.get(topic)!;
+              const topicBytes = bytes.filter(byte => byte.byte_topics.includes(topic));
+              const completed = topicBytes.filter(byte => completedVideos.includes(byte.byte_id)).length;
+              const isDone = completed === topicBytes.length;
+              return (
+                <div
+                  key={topic}
+                  className={cn(
+                    'absolute flex flex-col justify-center gap-0.5 rounded-lg border bg-background px-2',
+                    isDone ? 'border-green-500/50' : 'border-border'
+                  )}
+                  style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                >
+                  <TopicBadge topic={topic} size="sm" className="max-w-full truncate self-start" />
+                  <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                    {isDone && <Check className="w-3 h-3 text-green-500" />}
+                    {completed}/{topicBytes.length} watched
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranscript } from '@/hooks/useTranscript';
+import { findActiveCue, getCaptionLabel, pickCaption } from '@/lib/webvtt';
+import { formatTimestamp } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import { ByteCaption } from '@/types/byte';
+
+interface TranscriptPanelProps {
+  captions: ByteCaption[];
+  onClose: () => void;
+  getCurrentTime: () => number;
+  // Cues only seek when the player reports its real position
+  canSeek: boolean;
+  onSeek: (position: number) => void;
+}
+
+// How often the highlighted cue follows playback
+const CUE_POLL_INTERVAL = 250;
+
+/**
+ * Scrollable transcript of the byte's captions; the cue being spoken is
+ * highlighted and kept in view, and clicking a cue seeks to it
+ */
+export function TranscriptPanel({ captions, onClose, getCurrentTime, canSeek, onSeek }: TranscriptPanelProps) {
+  const [language, setLanguage] = useState<string | undefined>();
+  const caption = pickCaption(captions, language);
+  const { cues, isLoading, error } = useTranscript(caption);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listRef = useRef<HTMLDivElement>(null);
+  const cueRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useEffect(() => {
+    if (cues.length === 0) return;
+    const update = () => setActiveIndex(findActiveCue(cues, getCurrentTime()));
+    update();
+    const interval = window.setInterval(update, CUE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [cues, getCurrentTime]);
+
+  // Scroll the list itself (not the page) so the active cue stays visible
+  useEffect(() => {
+    const list = listRef.current;
+    const cue = cueRefs.current[activeIndex];
+    if (!list || !cue) return;
+    // The list is the cues' offset parent
+    const top = cue.offsetTop;
+    if (top < list.scrollTop || top + cue.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="absolute top-4 left-4 bottom-4 z-20 w-72 max-w-[calc(100%-2rem)] glass rounded-xl flex flex-col overflow-hidden"
+    >
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-border/50">
+        <h3 className="font-display font-bold text-sm text-foreground">Transcript</h3>
+        <div className="flex items-center gap-1">
+          {captions.length > 1 && caption && (
+            <Select value={caption.language} onValueChange={setLanguage}>
+              <SelectTrigger className="h-7 w-32 rounded-lg text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {captions.map(option => (
+                  <SelectItem key={option.language} value={option.language} className="text-xs">
+                    {getCaptionLabel(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-7 w-7 rounded-lg">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="relative flex-1 overflow-y-auto p-2">
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {error && <p className="p-2 text-sm text-destructive">{error}</p>}
+        {!isLoading && !error && cues.length === 0 && (
+          <p className="p-2 text-sm text-muted-foreground">No transcript available.</p>
+        )}
+        {cues.map((cue, index) => (
+          <button
+            key={`${cue.start}-${index}`}
+            ref={element => {
+              cueRefs.current[index] = element;
+            }}
+            type="button"
+            onClick={() => onSeek(cue.start)}
+            disabled={!canSeek}
+            className={cn(
+              'w-full flex gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors',
+              'hover:bg-muted/80 disabled:hover:bg-transparent disabled:cursor-default',
+              index === activeIndex ? 'bg-primary/10 text-foreground' : 'text-foreground/70'
+            )}
+          >
+            <span className="shrink-0 pt-0.5 text-xs font-medium tabular-nums text-muted-foreground">
+              {formatTimestamp(cue.start)}
+            </span>
+            <span className="whitespace-pre-line">{cue.text}</span>
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
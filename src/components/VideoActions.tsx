@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Heart, MessageSquare, Star, Send, X } from 'lucide-react';
+import { Heart, MessageSquare, Star, Send, Trash2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useVideoLikes } from '@/hooks/useVideoLikes';
@@ -13,12 +13,26 @@ interface VideoActionsProps {
 
 export function VideoActions({ byteId }: VideoActionsProps) {
   const { likesCount, isLiked, toggleLike, isLoading: likeLoading } = useVideoLikes(byteId);
-  const { userFeedback, submitFeedback, isSubmitting } = useVideoFeedback(byteId);
+  const {
+    userFeedback,
+    history,
+    submitFeedback,
+    deleteFeedback,
+    isSubmitting,
+    submitError,
+  } = useVideoFeedback(byteId);
   const [feedbackOpen, setFeedbackOpen] = useState(false);
   const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
   const [comment, setComment] = useState('');
 
+  // Start from the current rating so it can be edited
+  const openFeedback = () => {
+    setRating(userFeedback?.rating ?? 0);
+    setComment(userFeedback?.comment ?? '');
+    setFeedbackOpen(true);
+  };
+
   const handleSubmitFeedback = async () => {
     if (rating === 0) return;
     
@@ -30,6 +44,18 @@ export function VideoActions({ byteId }: VideoActionsProps) {
     }
   };
 
+  const handleDeleteFeedback = async () => {
+    const success = await deleteFeedback();
+    if (success) {
+      setRating(0);
+      setComment('');
+    }
+  };
+
+  const isUnchanged = !!userFeedback
+    && rating === userFeedback.rating
+    && comment.trim() === (userFeedback.comment ?? '');
+
   const formatCount = (count: number) => {
     if (count >= 1000) {
       return (count / 1000).toFixed(1) + 'K';
@@ -73,7 +99,7 @@ export function VideoActions({ byteId }: VideoActionsProps) {
         {/* Feedback Button */}
         <motion.button
           whileTap={{ scale: 0.9 }}
-          onClick={() => setFeedbackOpen(true)}
+          onClick={openFeedback}
           className="flex flex-col items-center gap-1 group"
         >
           <div className={cn(
@@ -94,7 +120,7 @@ export function VideoActions({ byteId }: VideoActionsProps) {
             className="text-sm font-bold text-white px-2 py-0.5 rounded-full bg-black/40 backdrop-blur-sm"
             style={{ textShadow: '0 1px 3px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.5)' }}
           >
-            {userFeedback ? 'Sent' : 'Rate'}
+            {userFeedback ? 'Rated' : 'Rate'}
           </span>
         </motion.button>
       </div>
@@ -118,7 +144,9 @@ export function VideoActions({ byteId }: VideoActionsProps) {
             >
               {/* Header */}
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-bold text-foreground">Rate this video</h3>
+                <h3 className="text-lg font-bold text-foreground">
+                  {userFeedback ? 'Update your rating' : 'Rate this video'}
+                </h3>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -129,73 +157,86 @@ export function VideoActions({ byteId }: VideoActionsProps) {
                 </Button>
               </div>
 
-              {userFeedback ? (
-                <div className="text-center py-4">
-                  <div className="flex justify-center gap-1 mb-3">
-                    {[1, 2, 3, 4, 5].map((star) => (
-                      <Star
-                        key={star}
-                        className={cn(
-                          "w-8 h-8",
-                          star <= userFeedback.rating
-                            ? "fill-yellow-400 text-yellow-400"
-                            : "text-muted-foreground"
+              {/* Star Rating */}
+              <div className="flex justify-center gap-2 mb-4">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <button
+                    key={star}
+                    onMouseEnter={() => setHoverRating(star)}
+                    onMouseLeave={() => setHoverRating(0)}
+                    onClick={() => setRating(star)}
+                    className="transition-transform hover:scale-110"
+                  >
+                    <Star
+                      className={cn(
+                        "w-10 h-10 transition-colors",
+                        star <= (hoverRating || rating)
+                          ? "fill-yellow-400 text-yellow-400"
+                          : "text-muted-foreground hover:text-yellow-300"
+                      )}
+                    />
+                  </button>
+                ))}
+              </div>
+
+              {/* Comment */}
+              <Textarea
+                placeholder="Share your thoughts (optional)..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="mb-4 resize-none rounded-xl"
+                rows={3}
+                maxLength={1000}
+              />
+
+              {submitError && (
+                <p className="text-sm text-destructive mb-3">{submitError}</p>
+              )}
+
+              {/* Submit Button */}
+              <Button
+                onClick={handleSubmitFeedback}
+                disabled={rating === 0 || isSubmitting || isUnchanged}
+                className="w-full rounded-xl gap-2"
+              >
+                <Send className="w-4 h-4" />
+                {isSubmitting ? 'Sending...' : userFeedback ? 'Update Rating' : 'Submit Feedback'}
+              </Button>
+
+              {userFeedback && (
+                <Button
+                  variant="ghost"
+                  onClick={handleDeleteFeedback}
+                  disabled={isSubmitting}
+                  className="w-full rounded-xl gap-2 mt-2 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete my rating
+                </Button>
+              )}
+
+              {/* Earlier versions */}
+              {history.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-border">
+                  <p className="text-xs font-medium text-muted-foreground mb-2">Previous ratings</p>
+                  <ul className="space-y-2 max-h-32 overflow-y-auto">
+                    {history.map(version => (
+                      <li key={version.superseded_at} className="text-xs text-muted-foreground">
+                        <span className="text-yellow-500">
+                          {'★'.repeat(version.rating)}{'☆'.repeat(5 - version.rating)}
+                        </span>
+                        {' '}
+                        {new Date(version.created_at).toLocaleDateString()}
+                        {version.change === 'deleted' && ' (deleted)'}
+                        {version.comment && (
+                          <span className="block italic text-foreground/70 truncate">
+                            "{version.comment}"
+                          </span>
                         )}
-                      />
+                      </li>
                     ))}
-                  </div>
-                  <p className="text-muted-foreground text-sm">
-                    Thanks for your feedback!
-                  </p>
-                  {userFeedback.comment && (
-                    <p className="text-sm mt-2 text-foreground/80 italic">
-                      "{userFeedback.comment}"
-                    </p>
-                  )}
+                  </ul>
                 </div>
-              ) : (
-                <>
-                  {/* Star Rating */}
-                  <div className="flex justify-center gap-2 mb-4">
-                    {[1, 2, 3, 4, 5].map((star) => (
-                      <button
-                        key={star}
-                        onMouseEnter={() => setHoverRating(star)}
-                        onMouseLeave={() => setHoverRating(0)}
-                        onClick={() => setRating(star)}
-                        className="transition-transform hover:scale-110"
-                      >
-                        <Star
-                          className={cn(
-                            "w-10 h-10 transition-colors",
-                            star <= (hoverRating || rating)
-                              ? "fill-yellow-400 text-yellow-400"
-                              : "text-muted-foreground hover:text-yellow-300"
-                          )}
-                        />
-                      </button>
-                    ))}
-                  </div>
-
-                  {/* Comment */}
-                  <Textarea
-                    placeholder="Share your thoughts (optional)..."
-                    value={comment}
-                    onChange={(e) => setComment(e.target.value)}
-                    className="mb-4 resize-none rounded-xl"
-                    rows={3}
-                  />
-
-                  {/* Submit Button */}
-                  <Button
-                    onClick={handleSubmitFeedback}
-                    disabled={rating === 0 || isSubmitting}
-                    className="w-full rounded-xl gap-2"
-                  >
-                    <Send className="w-4 h-4" />
-                    {isSubmitting ? 'Sending...' : 'Submit Feedback'}
-                  </Button>
-                </>
               )}
             </motion.div>
           </motion.div>
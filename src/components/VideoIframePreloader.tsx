@@ -7,7 +7,7 @@ interface VideoIframePreloaderProps {
 }
 
 /**
- * Preloads a Google Drive preview iframe offscreen to reduce perceived load time
+ * Preloads an embedded player iframe (Drive, YouTube, Vimeo) offscreen to reduce perceived load time
  * when switching to the next video. Starts preloading after a short delay to
  * prioritize the current video's loading.
  */
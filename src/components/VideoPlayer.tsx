@@ -1,4 +1,4 @@
-import { useRef, useState, useCallback, useEffect } from 'react';
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   ChevronLeft, 
@@ -11,44 +11,109 @@ import {
   Play,
   Pause,
   RotateCcw,
-  ExternalLink
+  ExternalLink,
+  Link2,
+  Captions,
+  Rewind,
+  FastForward,
+  Repeat,
+  Gauge,
+  Keyboard,
+  HardDriveDownload,
+  Code2,
+  ListChecks
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { TopicBadge } from '@/components/TopicBadge';
 import { Byte } from '@/types/byte';
+import { QuizResult } from '@/types/progress';
 import { NotesModal } from '@/components/NotesModal';
+import { TranscriptPanel } from '@/components/TranscriptPanel';
+import { QuizDialog } from '@/components/QuizDialog';
 import { VideoActions } from '@/components/VideoActions';
 import { VideoIframePreloader } from '@/components/VideoIframePreloader';
-import { driveUrlToDirect, driveUrlToPreview } from '@/lib/driveUrl';
+import { ProviderPlayer, PlayerHandle } from '@/components/players';
+import { PlaybackSample } from '@/hooks/useVideoProgress';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { useLocalVideo } from '@/hooks/useLocalVideo';
+import { useCourse } from '@/hooks/useCourse';
+import { useKeyboardShortcuts, useShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { usePlaybackSettings, PLAYBACK_RATES, END_BEHAVIORS, EndBehavior } from '@/hooks/usePlaybackSettings';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp } from '@/lib/time';
+import { buildByteLink } from '@/lib/deepLink';
+import { describeKeys } from '@/lib/shortcuts';
+import {
+  resolveVideoSource,
+  isEmbeddedProvider,
+  getProviderLabel,
+  getPlaybackTiming,
+  isDownloadableProvider,
+} from '@/lib/videoProviders';
 
 interface VideoPlayerProps {
   byte: Byte;
+  // The whole catalog, for the notes index
+  bytes: Byte[];
   byteNumber: number;
   totalBytes: number;
   isCompleted: boolean;
-  currentProgress: number;
   nextByte: Byte | null;
   onPrevious: () => void;
   onNext: () => void;
-  onProgressUpdate: (percentage: number) => void;
+  onProgressUpdate: (sample: PlaybackSample) => void;
   onMarkCompleted: () => void;
   isFullscreen: boolean;
   onToggleFullscreen: () => void;
   autoStart?: boolean;
+  // Last known position in seconds, 0 to start from the beginning
+  resumePosition?: number;
+  // Timestamp from a shared link, offered instead of the saved position
+  startAt?: number;
+  // The practice panel lives beside the player, so the page owns it
+  isPracticeOpen?: boolean;
+  onTogglePractice?: () => void;
+  // Latest attempt at the byte's quiz
+  quizResult?: QuizResult;
+  onQuizComplete?: (correct: number, total: number) => void;
+}
+
+interface ResumePrompt {
+  position: number;
+  source: 'saved' | 'link';
+}
+
+// A-B loop: playback jumps back to start on reaching end (null while only A is set)
+interface ABLoop {
+  start: number;
+  end: number | null;
 }
 
 /**
  * Video Player Component
  * 
- * Uses HTML5 video element for accurate progress tracking.
- * Falls back to iframe for Google Drive if direct video fails.
+ * Picks a player adapter from the byte's URL (YouTube, Vimeo, HLS, direct
+ * file or Google Drive) and tracks progress through the shared adapter
+ * interface, so every source behaves the same way. Providers without a
+ * player API (Drive) only report an estimated position, which is recorded
+ * as such.
  */
 export function VideoPlayer({
   byte,
+  bytes,
   byteNumber,
   totalBytes,
   isCompleted,
-  currentProgress,
   nextByte,
   onPrevious,
   onNext,
@@ -57,249 +122,410 @@ export function VideoPlayer({
   isFullscreen,
   onToggleFullscreen,
   autoStart = false,
+  resumePosition = 0,
+  startAt,
+  isPracticeOpen,
+  onTogglePractice,
+  quizResult,
+  onQuizComplete,
 }: VideoPlayerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<PlayerHandle>(null);
   const [notesOpen, setNotesOpen] = useState(false);
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [loopCount, setLoopCount] = useState(0);
-  // Skip HTML5 video attempt - Google Drive URLs don't support CORS for direct playback
-  // Go directly to iframe mode for faster loading
-  const [useFallbackIframe, setUseFallbackIframe] = useState(true);
-  const [iframeLoaded, setIframeLoaded] = useState(false);
-  const [iframeError, setIframeError] = useState(false);
-  const [iframeKey, setIframeKey] = useState(0);
-  const [videoError, setVideoError] = useState(false);
+  const [playerReady, setPlayerReady] = useState(false);
+  const [playerError, setPlayerError] = useState(false);
+  const [playerKey, setPlayerKey] = useState(0);
+  const [resumePrompt, setResumePrompt] = useState<ResumePrompt | null>(null);
+  const [abLoop, setABLoop] = useState<ABLoop | null>(null);
+  const [quizOpen, setQuizOpen] = useState(false);
   const didMarkCompletedRef = useRef(false);
-  const iframeTimeoutRef = useRef<number | null>(null);
-  
-  // For iframe fallback - simulated tracking
-  const [iframeWatchTime, setIframeWatchTime] = useState(0);
-  const [iframeIsWatching, setIframeIsWatching] = useState(false);
-  const iframeIntervalRef = useRef<number | null>(null);
-  const [isTabVisible, setIsTabVisible] = useState(true);
+  // The quiz opens by itself once per visit; closing it then resumes the end behavior
+  const didOfferQuizRef = useRef(false);
+  const isEndOfVideoQuizRef = useRef(false);
+  // Whether this byte should start by itself once its player is ready
+  const pendingAutoStartRef = useRef(false);
+  const loadTimeoutRef = useRef<number | null>(null);
+  const lastReportRef = useRef(0);
+  const course = useCourse();
+  const { toast } = useToast();
+  const {
+    playbackRate,
+    setPlaybackRate,
+    stepPlaybackRate,
+    endBehavior,
+    setEndBehavior,
+    cycleEndBehavior,
+  } = usePlaybackSettings();
   
   // Use byte's duration if available, otherwise default to 30 seconds
   const videoDuration = byte.duration || 30;
-  const IFRAME_LOAD_TIMEOUT = 10000; // 10 seconds
+  const PLAYER_LOAD_TIMEOUT = 10000; // 10 seconds
+  const PROGRESS_REPORT_INTERVAL = 750; // Throttle progress writes
+  const MIN_RESUME_POSITION = 3; // Not worth offering a resume near either end
+  const LOOPS_BEFORE_ADVANCE = 3; // Plays before 'loop' moves on to the next byte
+  const MIN_AB_LOOP_LENGTH = 1; // Seconds
+  const SEEK_STEP = 5; // Seconds per seek button or key press
 
-  // Track tab visibility
-  useEffect(() => {
-    const handleVisibility = () => {
-      setIsTabVisible(!document.hidden);
-    };
-    document.addEventListener('visibilitychange', handleVisibility);
-    return () => document.removeEventListener('visibilitychange', handleVisibility);
-  }, []);
+  const onlineSource = useMemo(() => resolveVideoSource(byte.byte_url), [byte.byte_url]);
+  const localVideo = useLocalVideo(isDownloadableProvider(onlineSource.provider) ? onlineSource.url : null);
+  // Play the copy saved for offline viewing when there is one
+  const source = useMemo(
+    () => (localVideo.localUrl ? { ...onlineSource, url: localVideo.localUrl } : onlineSource),
+    [onlineSource, localVideo.localUrl]
+  );
+  const isOfflineCopy = source !== onlineSource;
+  const nextSource = useMemo(
+    () => (nextByte ? resolveVideoSource(nextByte.byte_url) : null),
+    [nextByte]
+  );
+  const isEmbedded = isEmbeddedProvider(source.provider);
+  const timing = getPlaybackTiming(source.provider);
+  // Read at byte change only - the position keeps moving while playing
+  const resumePositionRef = useLatestRef(resumePosition);
+  const autoStartRef = useLatestRef(autoStart);
+  const abLoopRef = useLatestRef(abLoop);
+  // Speed, seeking and A-B loops need a player that reports its position
+  const canControlPlayback = timing === 'reported' && playerReady;
 
   // Reset state when byte changes
   useEffect(() => {
     setLoopCount(0);
+    setABLoop(null);
     setIsPlaying(false);
+    setQuizOpen(false);
     didMarkCompletedRef.current = false;
-    setVideoError(false);
-    setUseFallbackIframe(true); // Always use iframe for Google Drive
-    setIframeLoaded(false);
-    setIframeError(false);
-    setIframeKey(prev => prev + 1);
-    setIframeWatchTime(0);
-    setIframeIsWatching(false); // Don't auto-start - wait for iframe load
-    
-    // Clear any existing timeout
-    if (iframeTimeoutRef.current) {
-      clearTimeout(iframeTimeoutRef.current);
-      iframeTimeoutRef.current = null;
+    didOfferQuizRef.current = false;
+    isEndOfVideoQuizRef.current = false;
+    pendingAutoStartRef.current = autoStartRef.current;
+    lastReportRef.current = 0;
+    setPlayerReady(false);
+    setPlayerError(false);
+    setPlayerKey(prev => prev + 1);
+
+    // Offer to resume only where the player can seek - a shared link's timestamp wins
+    const position = resumePositionRef.current;
+    if (timing === 'reported' && startAt !== undefined && startAt < videoDuration) {
+      setResumePrompt({ position: startAt, source: 'link' });
+    } else if (
+      timing === 'reported' &&
+      position >= MIN_RESUME_POSITION &&
+      position < videoDuration - MIN_RESUME_POSITION
+    ) {
+      setResumePrompt({ position, source: 'saved' });
+    } else {
+      setResumePrompt(null);
     }
     
-    // Clear iframe interval
-    if (iframeIntervalRef.current) {
-      clearInterval(iframeIntervalRef.current);
-      iframeIntervalRef.current = null;
-    }
-
-    // Reset video element
-    if (videoRef.current) {
-      videoRef.current.currentTime = 0;
-      videoRef.current.pause();
+    // Clear any existing timeout
+    if (loadTimeoutRef.current) {
+      clearTimeout(loadTimeoutRef.current);
+      loadTimeoutRef.current = null;
     }
     
     return () => {
-      if (iframeTimeoutRef.current) {
-        clearTimeout(iframeTimeoutRef.current);
+      if (loadTimeoutRef.current) {
+        clearTimeout(loadTimeoutRef.current);
       }
     };
-  }, [byte.byte_id]);
+  }, [byte.byte_id, timing, videoDuration, resumePositionRef, autoStartRef, startAt]);
 
-  // Iframe load timeout - show error state if loading takes too long
+  // Load timeout - show error state if loading takes too long
   useEffect(() => {
-    if (!useFallbackIframe || iframeLoaded || iframeError) return;
+    if (playerReady || playerError) return;
     
-    iframeTimeoutRef.current = window.setTimeout(() => {
-      if (!iframeLoaded) {
-        setIframeError(true);
-      }
-    }, IFRAME_LOAD_TIMEOUT);
+    loadTimeoutRef.current = window.setTimeout(() => {
+      setPlayerError(true);
+    }, PLAYER_LOAD_TIMEOUT);
     
     return () => {
-      if (iframeTimeoutRef.current) {
-        clearTimeout(iframeTimeoutRef.current);
+      if (loadTimeoutRef.current) {
+        clearTimeout(loadTimeoutRef.current);
       }
     };
-  }, [useFallbackIframe, iframeLoaded, iframeError, iframeKey]);
+  }, [playerReady, playerError, playerKey]);
 
-  // Handle video time updates - ONLY updates progress when video is actually playing
-  const handleTimeUpdate = useCallback(() => {
-    const video = videoRef.current;
-    if (!video || video.paused || !video.duration || video.duration === 0) return;
-    
-    const percentage = (video.currentTime / video.duration) * 100;
-    
-    // Only update if greater than current progress (no regression)
-    if (percentage > currentProgress && !isCompleted) {
-      onProgressUpdate(percentage);
+  // Players reset their speed when they load
+  useEffect(() => {
+    if (playerReady) playerRef.current?.setPlaybackRate(playbackRate);
+  }, [playerReady, playbackRate]);
+
+  // Start a byte that was opened with autoStart, where we control the player
+  // (not Drive). Browsers may still block it until the page has been interacted with.
+  useEffect(() => {
+    if (!playerReady || timing !== 'reported' || !pendingAutoStartRef.current) return;
+    pendingAutoStartRef.current = false;
+    playerRef.current?.play();
+  }, [playerReady, timing]);
+
+  // Handle time updates from the adapter - only fired while playing
+  const handleTimeUpdate = useCallback((currentTime: number, duration: number) => {
+    const loop = abLoopRef.current;
+    if (loop?.end != null && currentTime >= loop.end) {
+      playerRef.current?.seek(loop.start);
     }
+
+    if (!duration) return;
     
-    // Mark completed at 95%
-    if (percentage >= 95 && !isCompleted && !didMarkCompletedRef.current) {
-      didMarkCompletedRef.current = true;
-      onMarkCompleted();
+    const now = Date.now();
+    if (now - lastReportRef.current < PROGRESS_REPORT_INTERVAL) return;
+    lastReportRef.current = now;
+    
+    onProgressUpdate({ position: currentTime, duration, timing });
+  }, [onProgressUpdate, timing, abLoopRef]);
+
+  // Repeat, move on or stop once the video (or the quiz after it) is done
+  const continueAfterEnd = useCallback(() => {
+    if (endBehavior === 'stop') return;
+
+    // Increment loop count for auto-advance
+    setLoopCount(prev => prev + 1);
+
+    // Loop the video - an estimated clock cannot restart a player it doesn't control
+    if (endBehavior === 'loop' && timing === 'reported') {
+      playerRef.current?.seek(0);
+      playerRef.current?.play();
     }
-  }, [currentProgress, isCompleted, onProgressUpdate, onMarkCompleted]);
+  }, [endBehavior, timing]);
 
   // Handle video ended event - marks completion immediately
   const handleVideoEnded = useCallback(() => {
+    const player = playerRef.current;
+    const duration = player?.getDuration() || 0;
+    if (duration) {
+      onProgressUpdate({ position: duration, duration, timing });
+    }
+    
     if (!isCompleted && !didMarkCompletedRef.current) {
       didMarkCompletedRef.current = true;
-      onProgressUpdate(100);
       onMarkCompleted();
     }
     
-    // Increment loop count for auto-advance
-    setLoopCount(prev => prev + 1);
-    
-    // Loop the video
-    if (videoRef.current) {
-      videoRef.current.currentTime = 0;
-      videoRef.current.play().catch(console.error);
+    // An A-B loop ending at the very end wraps here rather than in handleTimeUpdate
+    const loop = abLoopRef.current;
+    if (loop && timing === 'reported') {
+      player?.seek(loop.start);
+      player?.play();
+      return;
     }
-  }, [isCompleted, onProgressUpdate, onMarkCompleted]);
+
+    // Quiz before moving on, unless it was already taken
+    if (byte.quiz?.length && onQuizComplete && !quizResult && !didOfferQuizRef.current) {
+      didOfferQuizRef.current = true;
+      isEndOfVideoQuizRef.current = true;
+      setQuizOpen(true);
+      return;
+    }
+
+    continueAfterEnd();
+  }, [isCompleted, onProgressUpdate, onMarkCompleted, timing, abLoopRef, byte.quiz, onQuizComplete, quizResult, continueAfterEnd]);
+
+  const handleQuizOpenChange = useCallback((open: boolean) => {
+    setQuizOpen(open);
+    if (!open && isEndOfVideoQuizRef.current) {
+      isEndOfVideoQuizRef.current = false;
+      continueAfterEnd();
+    }
+  }, [continueAfterEnd]);
 
   // Handle play/pause events
   const handlePlay = useCallback(() => {
     setIsPlaying(true);
+    // Playing from the player's own controls means the learner chose to start over
+    setResumePrompt(null);
   }, []);
 
   const handlePause = useCallback(() => {
     setIsPlaying(false);
   }, []);
 
-  // Handle video error - fall back to iframe
-  const handleVideoError = useCallback(() => {
-    console.warn('HTML5 video failed to load, falling back to iframe');
-    setVideoError(true);
-    setUseFallbackIframe(true);
+  const handlePlayerReady = useCallback(() => {
+    setPlayerReady(true);
+    setPlayerError(false);
   }, []);
 
-  // Retry loading iframe
-  const handleRetryIframe = useCallback(() => {
-    setIframeError(false);
-    setIframeLoaded(false);
-    setIframeKey(prev => prev + 1);
+  const handlePlayerError = useCallback(() => {
+    console.warn(`${getProviderLabel(source.provider)} player failed to load`);
+    setPlayerError(true);
+  }, [source.provider]);
+
+  // Retry loading the player
+  const handleRetry = useCallback(() => {
+    setPlayerError(false);
+    setPlayerReady(false);
+    setPlayerKey(prev => prev + 1);
   }, []);
 
   // Toggle play/pause
   const togglePlayPause = useCallback(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    const player = playerRef.current;
+    if (!player) return;
     
-    if (video.paused) {
-      video.play().catch(console.error);
+    if (isPlaying) {
+      player.pause();
     } else {
-      video.pause();
+      player.play();
+    }
+  }, [isPlaying]);
+
+  const handleResume = useCallback(() => {
+    const player = playerRef.current;
+    if (!player || !resumePrompt) return;
+
+    setResumePrompt(null);
+    player.seek(resumePrompt.position);
+    player.play();
+  }, [resumePrompt]);
+
+  const handleStartOver = useCallback(() => {
+    const player = playerRef.current;
+    setResumePrompt(null);
+    if (!player) return;
+
+    player.seek(0);
+    player.play();
+  }, []);
+
+  // Copy a link to this byte, at the current position when the player reports it
+  const handleCopyLink = useCallback(async () => {
+    const position = timing === 'reported' ? playerRef.current?.getCurrentTime() : undefined;
+    const link = buildByteLink(course.id, byte.byte_id, position);
+
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Link copied",
+        description: position && position >= 1
+          ? `Opens this capsule at ${formatTimestamp(position)}.`
+          : "Opens this capsule from the start.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Couldn't copy link",
+        description: link,
+        variant: "destructive",
+      });
     }
+  }, [timing, course.id, byte.byte_id, toast]);
+
+  const getCurrentTime = useCallback(() => playerRef.current?.getCurrentTime() ?? 0, []);
+
+  // Jump to a note's timestamp anchor
+  const handleSeek = useCallback((position: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    setResumePrompt(null);
+    player.seek(position);
+    player.play();
   }, []);
 
   // Restart video
   const restartVideo = useCallback(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    const player = playerRef.current;
+    if (!player) return;
     
-    video.currentTime = 0;
-    video.play().catch(console.error);
+    player.seek(0);
+    player.play();
   }, []);
 
-  // Auto-advance after 3 loops
+  // Auto-advance after 3 loops, or after the first play when set to play next
   useEffect(() => {
-    if (loopCount === 3 && nextByte) {
+    const playsBeforeAdvance = endBehavior === 'advance' ? 1 : LOOPS_BEFORE_ADVANCE;
+    if (endBehavior !== 'stop' && loopCount >= playsBeforeAdvance && nextByte) {
       const timer = setTimeout(() => {
         onNext();
       }, 1000);
       return () => clearTimeout(timer);
     }
-  }, [loopCount, nextByte, onNext]);
+  }, [loopCount, nextByte, onNext, endBehavior]);
 
-  // === IFRAME FALLBACK LOGIC ===
-  // Only runs when using iframe fallback mode
-  
-  // Handle iframe click to start tracking
-  const handleIframeClick = useCallback(() => {
-    setIframeIsWatching(true);
+  // Jump back or forward, staying within the video
+  const handleSeekBy = useCallback((seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const duration = player.getDuration();
+    const position = Math.max(0, player.getCurrentTime() + seconds);
+    setResumePrompt(null);
+    player.seek(duration ? Math.min(position, duration) : position);
   }, []);
 
-  // Iframe simulated progress tracking
-  useEffect(() => {
-    if (!useFallbackIframe || !iframeIsWatching || !isTabVisible) {
-      if (iframeIntervalRef.current) {
-        clearInterval(iframeIntervalRef.current);
-        iframeIntervalRef.current = null;
-      }
+  // First press marks A, the second B (and starts looping), the third clears the loop
+  const handleToggleABLoop = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const position = player.getCurrentTime();
+    if (!abLoop) {
+      setABLoop({ start: position, end: null });
+      toast({
+        title: `Loop start set at ${formatTimestamp(position)}`,
+        description: "Set the end point to start looping.",
+      });
       return;
     }
 
-    iframeIntervalRef.current = window.setInterval(() => {
-      setIframeWatchTime(prev => prev + 1);
-    }, 1000);
-
-    return () => {
-      if (iframeIntervalRef.current) {
-        clearInterval(iframeIntervalRef.current);
-        iframeIntervalRef.current = null;
+    if (abLoop.end === null) {
+      // Either order works - the learner may have seeked back before marking B
+      const start = Math.min(abLoop.start, position);
+      const end = Math.max(abLoop.start, position);
+      if (end - start < MIN_AB_LOOP_LENGTH) {
+        toast({
+          title: "Loop too short",
+          description: "Move at least a second away from the start point.",
+          variant: "destructive",
+        });
+        return;
       }
-    };
-  }, [useFallbackIframe, iframeIsWatching, isTabVisible]);
+      setABLoop({ start, end });
+      setResumePrompt(null);
+      player.seek(start);
+      player.play();
+      toast({
+        title: "Looping",
+        description: `${formatTimestamp(start)} – ${formatTimestamp(end)}`,
+      });
+      return;
+    }
 
-  // Update progress from iframe watch time - using actual video duration
-  useEffect(() => {
-    if (!useFallbackIframe || !iframeIsWatching || !isTabVisible) return;
+    setABLoop(null);
+    toast({ title: "Loop cleared" });
+  }, [abLoop, toast]);
 
-    const percentage = Math.min((iframeWatchTime / videoDuration) * 100, 100);
+  const handleEndBehaviorChange = useCallback((value: string) => {
+    setEndBehavior(value as EndBehavior);
+    setLoopCount(0);
+  }, [setEndBehavior]);
 
-    if (!isCompleted && percentage > currentProgress) {
-      onProgressUpdate(percentage);
-    }
-    
-    // Mark completed at 95% or when full duration reached
-    if ((percentage >= 95 || iframeWatchTime >= videoDuration) && !didMarkCompletedRef.current) {
-      didMarkCompletedRef.current = true;
-      if (iframeIntervalRef.current) {
-        clearInterval(iframeIntervalRef.current); // Stop the timer
-        iframeIntervalRef.current = null;
-      }
-      if (!isCompleted) {
-        onMarkCompleted();
-      }
-    }
-    
-    // Handle loop for iframe (video "ended") - only if we haven't stopped already
-    if (iframeWatchTime >= videoDuration && iframeIntervalRef.current) {
-      setLoopCount(prev => prev + 1);
-      setIframeWatchTime(0);
-    }
-  }, [iframeWatchTime, useFallbackIframe, iframeIsWatching, isTabVisible, isCompleted, currentProgress, onProgressUpdate, onMarkCompleted, videoDuration]);
+  const handleCycleEndBehavior = useCallback(() => {
+    const next = cycleEndBehavior();
+    setLoopCount(0);
+    toast({ title: `At the end: ${next.label}` });
+  }, [cycleEndBehavior, toast]);
+
+  const { bindings, openHelp } = useShortcuts();
+  // Player shortcuts pass through (e.g. space scrolls) until the player can take them
+  useKeyboardShortcuts('watch', {
+    toggleNotes: () => setNotesOpen(open => !open),
+    toggleTranscript: byte.captions?.length ? () => setTranscriptOpen(open => !open) : undefined,
+    togglePlay: canControlPlayback ? togglePlayPause : undefined,
+    seekBack: canControlPlayback ? () => handleSeekBy(-SEEK_STEP) : undefined,
+    seekForward: canControlPlayback ? () => handleSeekBy(SEEK_STEP) : undefined,
+    speedDown: canControlPlayback ? () => stepPlaybackRate(-1) : undefined,
+    speedUp: canControlPlayback ? () => stepPlaybackRate(1) : undefined,
+    toggleABLoop: canControlPlayback ? handleToggleABLoop : undefined,
+    cycleEndBehavior: handleCycleEndBehavior,
+  });
 
-  // Get video URLs
-  const directUrl = driveUrlToDirect(byte.byte_url);
-  const previewUrl = driveUrlToPreview(byte.byte_url);
+  const abLoopLabel = !abLoop
+    ? 'Set loop start'
+    : abLoop.end === null
+      ? `Set loop end (from ${formatTimestamp(abLoop.start)})`
+      : `Clear loop ${formatTimestamp(abLoop.start)} – ${formatTimestamp(abLoop.end)}`;
 
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -340,6 +566,23 @@ export function VideoPlayer({
                   Completed
                 </motion.span>
               )}
+              {timing === 'estimated' && (
+                <span
+                  title={`${getProviderLabel(source.provider)} doesn't report playback time, so progress is estimated`}
+                  className={`text-muted-foreground/70 ${isFullscreen ? 'text-sm' : 'text-xs'}`}
+                >
+                  · Estimated progress
+                </span>
+              )}
+              {isOfflineCopy && (
+                <span
+                  title="Playing the copy saved on this device"
+                  className={`flex items-center gap-1 text-muted-foreground/70 ${isFullscreen ? 'text-sm' : 'text-xs'}`}
+                >
+                  <HardDriveDownload className={isFullscreen ? 'w-4 h-4' : 'w-3.5 h-3.5'} />
+                  Offline copy
+                </span>
+              )}
             </div>
             <h2 className={`font-display font-bold text-foreground truncate ${isFullscreen ? 'text-2xl lg:text-3xl' : 'text-xl lg:text-2xl'}`}>
               {byte.byte_description}
@@ -360,6 +603,49 @@ export function VideoPlayer({
               <FileText className="w-4 h-4" />
               <span className="hidden sm:inline">Notes</span>
             </Button>
+            {byte.captions && byte.captions.length > 0 && (
+              <Button
+                variant={transcriptOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setTranscriptOpen(!transcriptOpen)}
+                className="rounded-xl gap-2"
+              >
+                <Captions className="w-4 h-4" />
+                <span className="hidden sm:inline">Transcript</span>
+              </Button>
+            )}
+            {byte.exercise && onTogglePractice && (
+              <Button
+                variant={isPracticeOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={onTogglePractice}
+                className="rounded-xl gap-2"
+              >
+                <Code2 className="w-4 h-4" />
+                <span className="hidden sm:inline">Practice</span>
+              </Button>
+            )}
+            {byte.quiz && byte.quiz.length > 0 && onQuizComplete && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuizOpen(true)}
+                className="rounded-xl gap-2"
+                title={quizResult ? `Last score: ${quizResult.correct}/${quizResult.total}` : undefined}
+              >
+                <ListChecks className="w-4 h-4" />
+                <span className="hidden sm:inline">Check yourself</span>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCopyLink}
+              className="rounded-xl gap-2"
+            >
+              <Link2 className="w-4 h-4" />
+              <span className="hidden sm:inline">Copy link</span>
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -390,23 +676,166 @@ export function VideoPlayer({
               aspectRatio: '9/16',
             }}
           >
-            {!useFallbackIframe ? (
-              /* HTML5 Video Player - Primary */
-              <>
-                <video
-                  ref={videoRef}
-                  key={byte.byte_id}
-                  src={directUrl}
-                  className="absolute inset-0 w-full h-full object-contain"
-                  onTimeUpdate={handleTimeUpdate}
-                  onEnded={handleVideoEnded}
+            {/* Enhanced loading skeleton with video info */}
+            {!playerReady && (
+              <div className="absolute inset-0 z-20 bg-gradient-to-b from-black via-black/95 to-black">
+                {playerError ? (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center">
+                    <div className="w-12 h-12 rounded-full bg-destructive/20 flex items-center justify-center">
+                      <RotateCcw className="w-6 h-6 text-destructive" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-white mb-1">Video failed to load</p>
+                      <p className="text-xs text-white/60">{getProviderLabel(source.provider)} may be slow or unavailable</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRetry}
+                        className="rounded-xl gap-2 border-white/20 text-white hover:bg-white/10"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Retry
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        asChild
+                        className="rounded-xl text-white/80 hover:text-white hover:bg-white/10"
+                      >
+                        <a href={onlineSource.embedUrl || onlineSource.url} target="_blank" rel="noopener noreferrer">
+                          Open in new tab
+                        </a>
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center p-6">
+                    {/* Animated background gradient */}
+                    <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-primary/10 animate-pulse" />
+                    
+                    {/* Video info skeleton */}
+                    <div className="relative flex flex-col items-center gap-6 max-w-[280px] text-center">
+                      {/* Animated play button skeleton */}
+                      <motion.div
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        transition={{ duration: 0.3 }}
+                        className="relative"
+                      >
+                        <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center">
+                          <motion.div
+                            animate={{ scale: [1, 1.1, 1] }}
+                            transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
+                            className="w-16 h-16 rounded-full bg-primary/30 flex items-center justify-center"
+                          >
+                            <Play className="w-8 h-8 text-primary ml-1" />
+                          </motion.div>
+                        </div>
+                        {/* Spinning ring around play button */}
+                        <div className="absolute inset-0 w-20 h-20 border-2 border-primary/30 border-t-primary rounded-full animate-spin" style={{ animationDuration: '1.5s' }} />
+                      </motion.div>
+                      
+                      {/* Video title and topic */}
+                      <motion.div
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.2 }}
+                        className="space-y-3"
+                      >
+                        <h3 className="text-white font-medium text-lg leading-tight">
+                          {byte.byte_description}
+                        </h3>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {byte.byte_topics.slice(0, 2).map(topic => (
+                            <span 
+                              key={topic} 
+                              className="px-2.5 py-1 rounded-full bg-white/10 text-white/70 text-xs font-medium"
+                            >
+                              {topic}
+                            </span>
+                          ))}
+                        </div>
+                      </motion.div>
+                      
+                      {/* Loading indicator */}
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.4 }}
+                        className="flex flex-col items-center gap-2"
+                      >
+                        <div className="h-1 w-32 bg-white/10 rounded-full overflow-hidden">
+                          <motion.div 
+                            className="h-full bg-primary rounded-full"
+                            initial={{ width: "0%" }}
+                            animate={{ width: "100%" }}
+                            transition={{ duration: 8, ease: "linear" }}
+                          />
+                        </div>
+                        <span className="text-xs text-white/50">Loading video...</span>
+                      </motion.div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            <motion.div 
+              className="absolute inset-0 overflow-hidden"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: playerReady ? 1 : 0 }}
+              transition={{ duration: 0.3, ease: "easeOut" }}
+            >
+              {/* Wait for a saved copy rather than starting the online video */}
+              {!localVideo.isLoading && (
+                <ProviderPlayer
+                  key={`${byte.byte_id}-${playerKey}`}
+                  ref={playerRef}
+                  source={source}
+                  title={byte.byte_description}
+                  fallbackDuration={videoDuration}
+                  captions={byte.captions}
+                  onReady={handlePlayerReady}
+                  onError={handlePlayerError}
                   onPlay={handlePlay}
                   onPause={handlePause}
-                  onError={handleVideoError}
-                  playsInline
-                  preload="metadata"
+                  onTimeUpdate={handleTimeUpdate}
+                  onEnded={handleVideoEnded}
                 />
-                
+              )}
+            </motion.div>
+
+            {/* Resume prompt */}
+            {playerReady && resumePrompt && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="absolute bottom-4 left-4 right-4 z-30 flex items-center justify-center gap-2"
+              >
+                <Button
+                  size="sm"
+                  onClick={handleResume}
+                  className="rounded-xl gap-2 shadow-lg"
+                >
+                  <Play className="w-4 h-4" />
+                  {resumePrompt.source === 'link' ? 'Play from' : 'Resume from'} {formatTimestamp(resumePrompt.position)}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleStartOver}
+                  className="rounded-xl gap-2 bg-black/60 hover:bg-black/80 text-white"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Start over
+                </Button>
+              </motion.div>
+            )}
+
+            {/* Custom controls for direct media - embedded providers bring their own */}
+            {!isEmbedded && playerReady && (
+              <>
                 {/* Play/Pause overlay button */}
                 <button
                   onClick={togglePlayPause}
@@ -422,7 +851,7 @@ export function VideoPlayer({
                     </motion.div>
                   )}
                 </button>
-                
+
                 {/* Video controls */}
                 {isPlaying && (
                   <div className="absolute bottom-4 left-4 z-20 flex gap-2">
@@ -445,162 +874,32 @@ export function VideoPlayer({
                   </div>
                 )}
               </>
-            ) : (
-              /* Iframe Player - Primary method for Google Drive */
-              <>
-                {/* Enhanced loading skeleton with video info */}
-                {!iframeLoaded && (
-                  <div className="absolute inset-0 z-20 bg-gradient-to-b from-black via-black/95 to-black">
-                    {iframeError ? (
-                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center">
-                        <div className="w-12 h-12 rounded-full bg-destructive/20 flex items-center justify-center">
-                          <RotateCcw className="w-6 h-6 text-destructive" />
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium text-white mb-1">Video failed to load</p>
-                          <p className="text-xs text-white/60">Google Drive may be slow or unavailable</p>
-                        </div>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={handleRetryIframe}
-                            className="rounded-xl gap-2 border-white/20 text-white hover:bg-white/10"
-                          >
-                            <RotateCcw className="w-4 h-4" />
-                            Retry
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            asChild
-                            className="rounded-xl text-white/80 hover:text-white hover:bg-white/10"
-                          >
-                            <a href={previewUrl} target="_blank" rel="noopener noreferrer">
-                              Open in new tab
-                            </a>
-                          </Button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="absolute inset-0 flex flex-col items-center justify-center p-6">
-                        {/* Animated background gradient */}
-                        <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-primary/10 animate-pulse" />
-                        
-                        {/* Video info skeleton */}
-                        <div className="relative flex flex-col items-center gap-6 max-w-[280px] text-center">
-                          {/* Animated play button skeleton */}
-                          <motion.div
-                            initial={{ scale: 0.9, opacity: 0 }}
-                            animate={{ scale: 1, opacity: 1 }}
-                            transition={{ duration: 0.3 }}
-                            className="relative"
-                          >
-                            <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center">
-                              <motion.div
-                                animate={{ scale: [1, 1.1, 1] }}
-                                transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
-                                className="w-16 h-16 rounded-full bg-primary/30 flex items-center justify-center"
-                              >
-                                <Play className="w-8 h-8 text-primary ml-1" />
-                              </motion.div>
-                            </div>
-                            {/* Spinning ring around play button */}
-                            <div className="absolute inset-0 w-20 h-20 border-2 border-primary/30 border-t-primary rounded-full animate-spin" style={{ animationDuration: '1.5s' }} />
-                          </motion.div>
-                          
-                          {/* Video title and topic */}
-                          <motion.div
-                            initial={{ opacity: 0, y: 10 }}
-                            animate={{ opacity: 1, y: 0 }}
-                            transition={{ delay: 0.2 }}
-                            className="space-y-3"
-                          >
-                            <h3 className="text-white font-medium text-lg leading-tight">
-                              {byte.byte_description}
-                            </h3>
-                            <div className="flex flex-wrap justify-center gap-2">
-                              {byte.byte_topics.slice(0, 2).map(topic => (
-                                <span 
-                                  key={topic} 
-                                  className="px-2.5 py-1 rounded-full bg-white/10 text-white/70 text-xs font-medium"
-                                >
-                                  {topic}
-                                </span>
-                              ))}
-                            </div>
-                          </motion.div>
-                          
-                          {/* Loading indicator */}
-                          <motion.div
-                            initial={{ opacity: 0 }}
-                            animate={{ opacity: 1 }}
-                            transition={{ delay: 0.4 }}
-                            className="flex flex-col items-center gap-2"
-                          >
-                            <div className="h-1 w-32 bg-white/10 rounded-full overflow-hidden">
-                              <motion.div 
-                                className="h-full bg-primary rounded-full"
-                                initial={{ width: "0%" }}
-                                animate={{ width: "100%" }}
-                                transition={{ duration: 8, ease: "linear" }}
-                              />
-                            </div>
-                            <span className="text-xs text-white/50">Loading video...</span>
-                          </motion.div>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-                <motion.div 
-                  className="absolute inset-0 overflow-hidden"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: iframeLoaded ? 1 : 0 }}
-                  transition={{ duration: 0.3, ease: "easeOut" }}
-                >
-                  <iframe
-                    key={iframeKey}
-                    src={previewUrl}
-                    className="absolute w-full"
-                    style={{ 
-                      objectFit: 'contain',
-                      top: '-48px',
-                      height: 'calc(100% + 48px)',
-                    }}
-                    allow="autoplay; encrypted-media"
-                    allowFullScreen
-                    loading="eager"
-                    title={byte.byte_description}
-                    onLoad={() => {
-                      setIframeLoaded(true);
-                      setIframeError(false);
-                      // Start tracking only after iframe loads
-                      setIframeIsWatching(true);
-                    }}
-                  />
-                </motion.div>
-                
-                {/* Click blocker for toolbar area */}
-                <div 
-                  className="absolute top-0 right-0 w-20 h-8 z-10 pointer-events-auto"
-                  style={{ borderTopRightRadius: '12px' }}
-                />
-              </>
             )}
 
             {/* Video Actions - Like & Feedback (inside video) */}
             <VideoActions byteId={byte.byte_id} />
 
-            {/* Preload the next video iframe after current one is ready */}
-            {nextByte && (
+            {/* Preload the next embedded player after current one is ready */}
+            {nextSource?.embedUrl && (
               <VideoIframePreloader
-                enabled={useFallbackIframe ? iframeLoaded : true}
-                src={driveUrlToPreview(nextByte.byte_url)}
+                enabled={playerReady}
+                src={nextSource.embedUrl}
               />
             )}
           </div>
           
+          {/* Transcript - left side, opposite Up Next */}
+          {transcriptOpen && byte.captions && byte.captions.length > 0 && (
+            <TranscriptPanel
+              key={byte.byte_id}
+              captions={byte.captions}
+              onClose={() => setTranscriptOpen(false)}
+              getCurrentTime={getCurrentTime}
+              canSeek={timing === 'reported' && playerReady}
+              onSeek={handleSeek}
+            />
+          )}
+
           {/* Up Next Card - Bottom right corner */}
           {nextByte && (
             <motion.button
@@ -631,6 +930,78 @@ export function VideoPlayer({
 
         {/* Controls */}
         <div className="relative flex items-center justify-center mt-4 shrink-0">
+          {/* Playback controls - absolute positioned on left */}
+          <div className="absolute left-0 flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleSeekBy(-SEEK_STEP)}
+              disabled={!canControlPlayback}
+              title={`Back ${SEEK_STEP} seconds (${describeKeys(bindings.seekBack)})`}
+              className="hidden md:inline-flex rounded-xl"
+            >
+              <Rewind className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleSeekBy(SEEK_STEP)}
+              disabled={!canControlPlayback}
+              title={`Forward ${SEEK_STEP} seconds (${describeKeys(bindings.seekForward)})`}
+              className="hidden md:inline-flex rounded-xl"
+            >
+              <FastForward className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleToggleABLoop}
+              disabled={!canControlPlayback}
+              title={`${abLoopLabel} (${describeKeys(bindings.toggleABLoop)})`}
+              className={`hidden md:inline-flex rounded-xl ${abLoop ? 'border-primary/50 text-primary bg-accent' : ''}`}
+            >
+              <Repeat className="w-4 h-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="rounded-xl gap-2" title="Playback settings">
+                  <Gauge className="w-4 h-4" />
+                  <span className="tabular-nums">{playbackRate}x</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-56">
+                <DropdownMenuLabel>Speed {timing === 'estimated' && <span className="font-normal text-muted-foreground">(use the video's menu)</span>}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={String(playbackRate)} onValueChange={value => setPlaybackRate(Number(value))}>
+                  {PLAYBACK_RATES.map(rate => (
+                    <DropdownMenuRadioItem key={rate} value={String(rate)} disabled={timing === 'estimated'}>
+                      {rate === 1 ? 'Normal' : `${rate}x`}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>At the end</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={endBehavior} onValueChange={handleEndBehaviorChange}>
+                  {END_BEHAVIORS.map(option => (
+                    <DropdownMenuRadioItem key={option.value} value={option.value}>
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={handleToggleABLoop} disabled={!canControlPlayback}>
+                  <Repeat className="w-4 h-4 mr-2" />
+                  {abLoopLabel}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={openHelp}>
+                  <Keyboard className="w-4 h-4 mr-2" />
+                  Keyboard shortcuts
+                  <span className="ml-auto text-xs text-muted-foreground">{describeKeys(bindings.showShortcuts)}</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
           {/* Navigation buttons - truly centered */}
           <div className="flex items-center gap-3">
             <Button
@@ -678,7 +1049,23 @@ export function VideoPlayer({
       <NotesModal
         isOpen={notesOpen}
         onClose={() => setNotesOpen(false)}
+        byte={byte}
+        bytes={bytes}
+        canCaptureTime={timing === 'reported' && playerReady}
+        getCurrentTime={getCurrentTime}
+        onSeek={handleSeek}
       />
+
+      {byte.quiz && byte.quiz.length > 0 && onQuizComplete && (
+        <QuizDialog
+          open={quizOpen}
+          onOpenChange={handleQuizOpenChange}
+          title={byte.byte_description}
+          questions={byte.quiz}
+          previousResult={quizResult}
+          onComplete={onQuizComplete}
+        />
+      )}
     </>
   );
 }
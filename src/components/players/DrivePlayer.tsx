@@ -0,0 +1,114 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { PlayerAdapterProps, PlayerHandle } from './types';
+
+/**
+ * Google Drive preview iframe.
+ *
+ * Drive exposes no player API, so playback time is estimated: Drive never
+ * autoplays, so a clock starts once the learner clicks into the iframe and
+ * ticks while the tab is visible, up to the catalog duration. Pausing inside
+ * the iframe cannot be detected.
+ */
+export const DrivePlayer = forwardRef<PlayerHandle, PlayerAdapterProps>(function DrivePlayer(
+  { source, title, fallbackDuration, onReady, onPlay, onPause, onTimeUpdate, onEnded },
+  ref
+) {
+  const [isWatching, setIsWatching] = useState(false);
+  const [isTabVisible, setIsTabVisible] = useState(!document.hidden);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const elapsedRef = useRef(0);
+  const endedRef = useRef(false);
+  const callbacksRef = useLatestRef({ onPlay, onPause, onTimeUpdate, onEnded });
+
+  // Track tab visibility
+  useEffect(() => {
+    const handleVisibility = () => {
+      setIsTabVisible(!document.hidden);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Clicking into a cross-origin iframe blurs the window and focuses the iframe
+  useEffect(() => {
+    const handleBlur = () => {
+      // activeElement updates after the blur event
+      window.setTimeout(() => {
+        if (document.activeElement !== iframeRef.current || endedRef.current) return;
+        setIsWatching(true);
+        callbacksRef.current.onPlay?.();
+      }, 0);
+    };
+    window.addEventListener('blur', handleBlur);
+    return () => window.removeEventListener('blur', handleBlur);
+  }, [callbacksRef]);
+
+  // Estimated clock
+  useEffect(() => {
+    if (!isWatching || !isTabVisible) return;
+
+    const interval = window.setInterval(() => {
+      elapsedRef.current = Math.min(elapsedRef.current + 1, fallbackDuration);
+      callbacksRef.current.onTimeUpdate?.(elapsedRef.current, fallbackDuration);
+
+      if (elapsedRef.current >= fallbackDuration) {
+        endedRef.current = true;
+        setIsWatching(false);
+        callbacksRef.current.onEnded?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isWatching, isTabVisible, fallbackDuration, callbacksRef]);
+
+  useImperativeHandle(ref, () => ({
+    play: () => {
+      if (endedRef.current) {
+        elapsedRef.current = 0;
+        endedRef.current = false;
+      }
+      setIsWatching(true);
+      callbacksRef.current.onPlay?.();
+    },
+    pause: () => {
+      setIsWatching(false);
+      callbacksRef.current.onPause?.();
+    },
+    seek: (seconds: number) => {
+      elapsedRef.current = Math.max(0, Math.min(seconds, fallbackDuration));
+      endedRef.current = false;
+    },
+    getCurrentTime: () => elapsedRef.current,
+    getDuration: () => fallbackDuration,
+    isEnded: () => endedRef.current,
+    // The Drive preview has its own speed menu, which can't be controlled or observed
+    setPlaybackRate: () => {},
+  }), [fallbackDuration, callbacksRef]);
+
+  return (
+    <>
+      <iframe
+        ref={iframeRef}
+        src={source.embedUrl || source.url}
+        className="absolute w-full"
+        style={{
+          objectFit: 'contain',
+          top: '-48px',
+          height: 'calc(100% + 48px)',
+        }}
+        allow="autoplay; encrypted-media"
+        allowFullScreen
+        loading="eager"
+        title={title}
+        onLoad={onReady}
+      />
+
+      {/* Click blocker for toolbar area */}
+      <div
+        className="absolute top-0 right-0 w-20 h-8 z-10 pointer-events-auto"
+        style={{ borderTopRightRadius: '12px' }}
+      />
+    </>
+  );
+});
@@ -0,0 +1,110 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { getCaptionLabel, pickCaption } from '@/lib/webvtt';
+import { PlayerAdapterProps, PlayerHandle } from './types';
+
+/**
+ * Native HTML5 video for direct files and HLS streams.
+ * HLS uses native playback where supported (Safari, iOS) and hls.js elsewhere.
+ */
+export const Html5Player = forwardRef<PlayerHandle, PlayerAdapterProps>(function Html5Player(
+  { source, captions, onReady, onError, onPlay, onPause, onTimeUpdate, onEnded },
+  ref
+) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const callbacksRef = useLatestRef({ onError });
+
+  // Attach the media source
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const needsHlsJs =
+      source.provider === 'hls' && !video.canPlayType('application/vnd.apple.mpegurl');
+
+    if (!needsHlsJs) {
+      video.src = source.url;
+      return;
+    }
+
+    let cancelled = false;
+    let destroyHls: (() => void) | null = null;
+
+    import('hls.js')
+      .then(({ default: Hls }) => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) {
+          callbacksRef.current.onError?.();
+          return;
+        }
+
+        const hls = new Hls();
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (data.fatal) callbacksRef.current.onError?.();
+        });
+        hls.loadSource(source.url);
+        hls.attachMedia(video);
+        destroyHls = () => hls.destroy();
+      })
+      .catch(() => {
+        if (!cancelled) callbacksRef.current.onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+      destroyHls?.();
+    };
+  }, [source.provider, source.url, callbacksRef]);
+
+  useImperativeHandle(ref, () => ({
+    play: () => {
+      videoRef.current?.play().catch(console.error);
+    },
+    pause: () => videoRef.current?.pause(),
+    seek: (seconds: number) => {
+      if (videoRef.current) videoRef.current.currentTime = seconds;
+    },
+    getCurrentTime: () => videoRef.current?.currentTime || 0,
+    getDuration: () => videoRef.current?.duration || 0,
+    isEnded: () => videoRef.current?.ended || false,
+    setPlaybackRate: (rate: number) => {
+      if (videoRef.current) videoRef.current.playbackRate = rate;
+    },
+  }), []);
+
+  const defaultCaption = pickCaption(captions);
+
+  // Only report time while actually playing
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || video.paused || !video.duration) return;
+    onTimeUpdate?.(video.currentTime, video.duration);
+  };
+
+  return (
+    <video
+      ref={videoRef}
+      className="absolute inset-0 w-full h-full object-contain"
+      onLoadedMetadata={onReady}
+      onTimeUpdate={handleTimeUpdate}
+      onEnded={onEnded}
+      onPlay={onPlay}
+      onPause={onPause}
+      onError={onError}
+      playsInline
+      preload="metadata"
+    >
+      {/* Tracks load without CORS, so caption files must be same-origin */}
+      {captions?.map(caption => (
+        <track
+          key={caption.url}
+          kind="subtitles"
+          src={caption.url}
+          srcLang={caption.language}
+          label={getCaptionLabel(caption)}
+          default={caption === defaultCaption}
+        />
+      ))}
+    </video>
+  );
+});
@@ -0,0 +1,137 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { loadScript } from '@/lib/loadScript';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { PlayerAdapterProps, PlayerHandle } from './types';
+
+// Minimal typings for the parts of the Vimeo Player SDK we use
+interface VimeoTimeEvent {
+  seconds: number;
+  duration: number;
+}
+
+interface VimeoPlayerInstance {
+  ready: () => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => Promise<void>;
+  setCurrentTime: (seconds: number) => Promise<number>;
+  getDuration: () => Promise<number>;
+  setPlaybackRate: (rate: number) => Promise<number>;
+  on: (event: string, callback: (data: VimeoTimeEvent) => void) => void;
+  destroy: () => Promise<void>;
+}
+
+interface VimeoNamespace {
+  Player: new (
+    element: HTMLElement,
+    options: { id: number; playsinline?: boolean; responsive?: boolean }
+  ) => VimeoPlayerInstance;
+}
+
+declare global {
+  interface Window {
+    Vimeo?: VimeoNamespace;
+  }
+}
+
+async function loadVimeoApi(): Promise<VimeoNamespace> {
+  if (!window.Vimeo?.Player) {
+    await loadScript('https://player.vimeo.com/api/player.js');
+  }
+  return window.Vimeo as VimeoNamespace;
+}
+
+/**
+ * Vimeo player driven through the Player SDK.
+ * SDK getters are async, so the latest time and duration are cached from events.
+ */
+export const VimeoPlayer = forwardRef<PlayerHandle, PlayerAdapterProps>(function VimeoPlayer(
+  { source, onReady, onError, onPlay, onPause, onTimeUpdate, onEnded },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<VimeoPlayerInstance | null>(null);
+  const currentTimeRef = useRef(0);
+  const durationRef = useRef(0);
+  const endedRef = useRef(false);
+  const callbacksRef = useLatestRef({ onReady, onError, onPlay, onPause, onTimeUpdate, onEnded });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !source.mediaId) return;
+
+    let cancelled = false;
+
+    loadVimeoApi()
+      .then((Vimeo) => {
+        if (cancelled) return;
+
+        const host = document.createElement('div');
+        host.className = 'absolute inset-0 [&>iframe]:w-full [&>iframe]:h-full';
+        container.appendChild(host);
+
+        const player = new Vimeo.Player(host, { id: Number(source.mediaId), playsinline: true });
+        playerRef.current = player;
+
+        player.on('play', () => {
+          endedRef.current = false;
+          callbacksRef.current.onPlay?.();
+        });
+        player.on('pause', () => callbacksRef.current.onPause?.());
+        player.on('timeupdate', ({ seconds, duration }) => {
+          currentTimeRef.current = seconds;
+          durationRef.current = duration;
+          callbacksRef.current.onTimeUpdate?.(seconds, duration);
+        });
+        player.on('ended', () => {
+          endedRef.current = true;
+          callbacksRef.current.onEnded?.();
+        });
+        player.on('error', () => callbacksRef.current.onError?.());
+
+        player
+          .ready()
+          .then(() => player.getDuration())
+          .then((duration) => {
+            if (cancelled) return;
+            durationRef.current = duration;
+            callbacksRef.current.onReady?.();
+          })
+          .catch(() => {
+            if (!cancelled) callbacksRef.current.onError?.();
+          });
+      })
+      .catch(() => {
+        if (!cancelled) callbacksRef.current.onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+      playerRef.current?.destroy().catch(() => undefined);
+      playerRef.current = null;
+      container.innerHTML = '';
+    };
+  }, [source.mediaId, callbacksRef]);
+
+  useImperativeHandle(ref, () => ({
+    play: () => {
+      playerRef.current?.play().catch(console.error);
+    },
+    pause: () => {
+      playerRef.current?.pause().catch(console.error);
+    },
+    seek: (seconds: number) => {
+      currentTimeRef.current = seconds;
+      endedRef.current = false;
+      playerRef.current?.setCurrentTime(seconds).catch(console.error);
+    },
+    getCurrentTime: () => currentTimeRef.current,
+    getDuration: () => durationRef.current,
+    isEnded: () => endedRef.current,
+    // Rejected unless the video's owner allows speed controls
+    setPlaybackRate: (rate: number) => {
+      playerRef.current?.setPlaybackRate(rate).catch(console.error);
+    },
+  }), []);
+
+  return <div ref={containerRef} className="absolute inset-0" />;
+});
@@ -0,0 +1,163 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { loadScript } from '@/lib/loadScript';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { PlayerAdapterProps, PlayerHandle } from './types';
+
+// Minimal typings for the parts of the YouTube IFrame API we use
+interface YouTubePlayerInstance {
+  playVideo: () => void;
+  pauseVideo: () => void;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlayerState: () => number;
+  setPlaybackRate: (rate: number) => void;
+  destroy: () => void;
+}
+
+interface YouTubeNamespace {
+  Player: new (
+    element: HTMLElement,
+    options: {
+      videoId: string;
+      width?: string;
+      height?: string;
+      playerVars?: Record<string, number | string>;
+      events?: {
+        onReady?: () => void;
+        onStateChange?: (event: { data: number }) => void;
+        onError?: () => void;
+      };
+    }
+  ) => YouTubePlayerInstance;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+const YT_STATE_ENDED = 0;
+const YT_STATE_PLAYING = 1;
+const YT_STATE_PAUSED = 2;
+const TIME_POLL_INTERVAL = 250;
+
+let youTubeApiPromise: Promise<YouTubeNamespace> | null = null;
+
+function loadYouTubeApi(): Promise<YouTubeNamespace> {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+
+  if (!youTubeApiPromise) {
+    youTubeApiPromise = new Promise((resolve, reject) => {
+      const previousCallback = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previousCallback?.();
+        resolve(window.YT as YouTubeNamespace);
+      };
+      loadScript('https://www.youtube.com/iframe_api').catch((error) => {
+        youTubeApiPromise = null;
+        reject(error);
+      });
+    });
+  }
+
+  return youTubeApiPromise;
+}
+
+/**
+ * YouTube player driven through the IFrame API.
+ * The API has no time event, so current time is polled while playing.
+ */
+export const YouTubePlayer = forwardRef<PlayerHandle, PlayerAdapterProps>(function YouTubePlayer(
+  { source, onReady, onError, onPlay, onPause, onTimeUpdate, onEnded },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<YouTubePlayerInstance | null>(null);
+  const pollRef = useRef<number | null>(null);
+  const callbacksRef = useLatestRef({ onReady, onError, onPlay, onPause, onTimeUpdate, onEnded });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !source.mediaId) return;
+
+    let cancelled = false;
+    let player: YouTubePlayerInstance | null = null;
+
+    const stopPolling = () => {
+      if (pollRef.current) {
+        clearInterval(pollRef.current);
+        pollRef.current = null;
+      }
+    };
+
+    const emitTime = () => {
+      const player = playerRef.current;
+      if (!player) return;
+      callbacksRef.current.onTimeUpdate?.(player.getCurrentTime(), player.getDuration());
+    };
+
+    loadYouTubeApi()
+      .then((YT) => {
+        if (cancelled) return;
+
+        // The API replaces the host element with an iframe, so keep it outside React's tree
+        const host = document.createElement('div');
+        container.appendChild(host);
+
+        player = new YT.Player(host, {
+          videoId: source.mediaId as string,
+          width: '100%',
+          height: '100%',
+          playerVars: { playsinline: 1, rel: 0, modestbranding: 1 },
+          events: {
+            // The player's methods aren't usable until now, so only expose it to the handle here
+            onReady: () => {
+              playerRef.current = player;
+              callbacksRef.current.onReady?.();
+            },
+            onError: () => callbacksRef.current.onError?.(),
+            onStateChange: ({ data }) => {
+              if (data === YT_STATE_PLAYING) {
+                stopPolling();
+                pollRef.current = window.setInterval(emitTime, TIME_POLL_INTERVAL);
+                callbacksRef.current.onPlay?.();
+              } else if (data === YT_STATE_PAUSED) {
+                stopPolling();
+                callbacksRef.current.onPause?.();
+              } else if (data === YT_STATE_ENDED) {
+                stopPolling();
+                emitTime();
+                callbacksRef.current.onEnded?.();
+              }
+            },
+          },
+        });
+      })
+      .catch(() => {
+        if (!cancelled) callbacksRef.current.onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+      player?.destroy();
+      playerRef.current = null;
+      container.innerHTML = '';
+    };
+  }, [source.mediaId, callbacksRef]);
+
+  useImperativeHandle(ref, () => ({
+    play: () => playerRef.current?.playVideo(),
+    pause: () => playerRef.current?.pauseVideo(),
+    seek: (seconds: number) => playerRef.current?.seekTo(seconds, true),
+    getCurrentTime: () => playerRef.current?.getCurrentTime() || 0,
+    getDuration: () => playerRef.current?.getDuration() || 0,
+    isEnded: () => playerRef.current?.getPlayerState() === YT_STATE_ENDED,
+    setPlaybackRate: (rate: number) => playerRef.current?.setPlaybackRate(rate),
+  }), []);
+
+  return <div ref={containerRef} className="absolute inset-0 [&>iframe]:w-full [&>iframe]:h-full" />;
+});
@@ -0,0 +1,25 @@
+import { forwardRef } from 'react';
+import { VideoProviderId } from '@/lib/videoProviders';
+import { DrivePlayer } from './DrivePlayer';
+import { Html5Player } from './Html5Player';
+import { VimeoPlayer } from './VimeoPlayer';
+import { YouTubePlayer } from './YouTubePlayer';
+import { PlayerAdapterProps, PlayerHandle } from './types';
+
+export type { PlayerAdapterProps, PlayerHandle } from './types';
+
+const PLAYER_ADAPTERS: Record<VideoProviderId, typeof DrivePlayer> = {
+  youtube: YouTubePlayer,
+  vimeo: VimeoPlayer,
+  hls: Html5Player,
+  file: Html5Player,
+  drive: DrivePlayer,
+};
+
+/**
+ * Renders the adapter registered for the source's provider
+ */
+export const ProviderPlayer = forwardRef<PlayerHandle, PlayerAdapterProps>(function ProviderPlayer(props, ref) {
+  const Adapter = PLAYER_ADAPTERS[props.source.provider];
+  return <Adapter ref={ref} {...props} />;
+});
@@ -0,0 +1,33 @@
+import { VideoSource } from '@/lib/videoProviders';
+import { ByteCaption } from '@/types/byte';
+
+/**
+ * Imperative interface every provider adapter exposes through its ref.
+ * VideoPlayer only talks to this, so progress tracking is provider-agnostic.
+ */
+export interface PlayerHandle {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  isEnded: () => boolean;
+  // No-op where the provider has no speed control we can reach (Drive)
+  setPlaybackRate: (rate: number) => void;
+}
+
+export interface PlayerAdapterProps {
+  source: VideoSource;
+  title: string;
+  // Catalog duration in seconds, used when the provider cannot report one
+  fallbackDuration: number;
+  // WebVTT tracks; only the HTML5 player can render them over the video
+  captions?: ByteCaption[];
+  onReady?: () => void;
+  onError?: () => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  // Fired periodically while playing
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onEnded?: () => void;
+}
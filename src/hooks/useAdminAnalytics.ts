@@ -1,36 +1,40 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useBytes } from './useBytes';
-
-interface VideoLike {
-  byte_id: string;
-  count: number;
+import { useCourse } from './useCourse';
+
+interface FeedbackComment {
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  // Stable per course, stands in for the reviewer's identity
+  reviewer_number: number;
 }
 
-interface VideoFeedback {
+interface VideoStats {
   byte_id: string;
-  count: number;
-  avgRating: number;
+  likes: number;
+  feedbackCount: number;
+  avgRating: number | null;
   ratingDistribution: { [key: number]: number };
-  comments: Array<{
-    rating: number;
-    comment: string | null;
-    created_at: string;
-    user_fingerprint: string;
-  }>;
+  comments: FeedbackComment[];
 }
 
 interface AnalyticsData {
-  likes: VideoLike[];
-  feedback: VideoFeedback[];
+  stats: VideoStats[];
   totalLikes: number;
   totalFeedback: number;
   totalUniqueUsers: number;
   overallAvgRating: number;
 }
 
+/**
+ * Engagement for the active course, aggregated in Postgres.
+ * The views only return everyone's data to admins (RLS), and never fingerprints.
+ */
 export function useAdminAnalytics() {
-  const { bytes, loading: bytesLoading } = useBytes();
+  const course = useCourse();
+  const { bytes, loading: bytesLoading } = useBytes(course);
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -39,97 +43,73 @@ export function useAdminAnalytics() {
     try {
       setLoading(true);
       setError(null);
-      
-      // Fetch all likes
-      const { data: likesData, error: likesError } = await supabase
-        .from('video_likes')
-        .select('byte_id, user_fingerprint');
-      
-      if (likesError) throw likesError;
-
-      // Fetch all feedback
-      const { data: feedbackData, error: feedbackError } = await supabase
-        .from('video_feedback')
-        .select('byte_id, rating, comment, created_at, user_fingerprint');
-      
-      if (feedbackError) throw feedbackError;
-
-      // Aggregate likes by byte_id
-      const likesMap = new Map<string, number>();
-      const uniqueUsersFromLikes = new Set<string>();
-      
-      likesData?.forEach(like => {
-        likesMap.set(like.byte_id, (likesMap.get(like.byte_id) || 0) + 1);
-        uniqueUsersFromLikes.add(like.user_fingerprint);
-      });
 
-      const likes: VideoLike[] = Array.from(likesMap.entries()).map(([byte_id, count]) => ({
-        byte_id,
-        count
-      }));
-
-      // Aggregate feedback by byte_id
-      const feedbackMap = new Map<string, { 
-        ratings: number[]; 
-        ratingDistribution: { [key: number]: number };
-        comments: Array<{ rating: number; comment: string | null; created_at: string; user_fingerprint: string }> 
-      }>();
-      const uniqueUsersFromFeedback = new Set<string>();
-
-      feedbackData?.forEach(fb => {
-        const existing = feedbackMap.get(fb.byte_id) || { 
-          ratings: [], 
-          ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
-          comments: [] 
-        };
-        existing.ratings.push(fb.rating);
-        existing.ratingDistribution[fb.rating] = (existing.ratingDistribution[fb.rating] || 0) + 1;
-        existing.comments.push({
-          rating: fb.rating,
-          comment: fb.comment,
-          created_at: fb.created_at,
-          user_fingerprint: fb.user_fingerprint
+      const [statsResult, commentsResult, summaryResult] = await Promise.all([
+        supabase
+          .from('video_engagement_stats')
+          .select('*')
+          .eq('course_id', course.id),
+        supabase
+          .from('video_feedback_comments')
+          .select('byte_id, rating, comment, created_at, reviewer_number')
+          .eq('course_id', course.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('course_engagement_summary')
+          .select('*')
+          .eq('course_id', course.id)
+          .maybeSingle(),
+      ]);
+
+      if (statsResult.error) throw statsResult.error;
+      if (commentsResult.error) throw commentsResult.error;
+      if (summaryResult.error) throw summaryResult.error;
+
+      // Group comments by byte_id
+      const commentsMap = new Map<string, FeedbackComment[]>();
+      commentsResult.data?.forEach(row => {
+        if (!row.byte_id || row.rating === null || !row.created_at) return;
+        const existing = commentsMap.get(row.byte_id) || [];
+        existing.push({
+          rating: row.rating,
+          comment: row.comment,
+          created_at: row.created_at,
+          reviewer_number: row.reviewer_number || 0,
         });
-        feedbackMap.set(fb.byte_id, existing);
-        uniqueUsersFromFeedback.add(fb.user_fingerprint);
+        commentsMap.set(row.byte_id, existing);
       });
 
-      const feedback: VideoFeedback[] = Array.from(feedbackMap.entries()).map(([byte_id, data]) => ({
-        byte_id,
-        count: data.ratings.length,
-        avgRating: data.ratings.reduce((a, b) => a + b, 0) / data.ratings.length,
-        ratingDistribution: data.ratingDistribution,
-        comments: data.comments.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      }));
-
-      // Calculate totals
-      const totalLikes = likesData?.length || 0;
-      const totalFeedback = feedbackData?.length || 0;
-      
-      // Combine unique users
-      const allUniqueUsers = new Set([...uniqueUsersFromLikes, ...uniqueUsersFromFeedback]);
-      const totalUniqueUsers = allUniqueUsers.size;
-
-      // Overall average rating
-      const allRatings = feedbackData?.map(fb => fb.rating) || [];
-      const overallAvgRating = allRatings.length > 0 
-        ? allRatings.reduce((a, b) => a + b, 0) / allRatings.length 
-        : 0;
-
+      const stats: VideoStats[] = (statsResult.data || [])
+        .filter(row => row.byte_id)
+        .map(row => ({
+          byte_id: row.byte_id as string,
+          likes: row.likes || 0,
+          feedbackCount: row.feedback_count || 0,
+          avgRating: row.avg_rating,
+          ratingDistribution: {
+            1: row.rating_1 || 0,
+            2: row.rating_2 || 0,
+            3: row.rating_3 || 0,
+            4: row.rating_4 || 0,
+            5: row.rating_5 || 0,
+          },
+          comments: commentsMap.get(row.byte_id as string) || [],
+        }));
+
+      const summary = summaryResult.data;
       setData({
-        likes,
-        feedback,
-        totalLikes,
-        totalFeedback,
-        totalUniqueUsers,
-        overallAvgRating
+        stats,
+        totalLikes: summary?.total_likes || 0,
+        totalFeedback: summary?.total_feedback || 0,
+        totalUniqueUsers: summary?.unique_users || 0,
+        overallAvgRating: summary?.avg_rating || 0,
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [course.id]);
 
   useEffect(() => {
     fetchAnalytics();
@@ -140,19 +120,18 @@ export function useAdminAnalytics() {
     if (!data || !bytes.length) return [];
 
     return bytes.map(byte => {
-      const likeData = data.likes.find(l => l.byte_id === byte.byte_id);
-      const feedbackData = data.feedback.find(f => f.byte_id === byte.byte_id);
+      const statsData = data.stats.find(s => s.byte_id === byte.byte_id);
 
       return {
         byte_id: byte.byte_id,
         byte_name: byte.byte_name,
         byte_description: byte.byte_description,
         topics: byte.byte_topics,
-        likes: likeData?.count || 0,
-        feedbackCount: feedbackData?.count || 0,
-        avgRating: feedbackData?.avgRating || null,
-        ratingDistribution: feedbackData?.ratingDistribution || { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
-        comments: feedbackData?.comments || []
+        likes: statsData?.likes || 0,
+        feedbackCount: statsData?.feedbackCount || 0,
+        avgRating: statsData?.avgRating || null,
+        ratingDistribution: statsData?.ratingDistribution || { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+        comments: statsData?.comments || []
       };
     });
   };
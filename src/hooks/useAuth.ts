@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been restored
+  loading: boolean;
+  // Sends an email with both a magic link and a one-time code
+  sendSignInEmail: (email: string) => Promise<boolean>;
+  verifyCode: (email: string, code: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Signed-in user, if any - accounts are optional
+export function useAuth(): AuthContextValue {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used within an AuthProvider.');
+  }
+  return auth;
+}
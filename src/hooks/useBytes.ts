@@ -1,33 +1,36 @@
 import { useState, useEffect } from 'react';
-import { Byte, TOPIC_SEQUENCE } from '@/types/byte';
+import { Byte } from '@/types/byte';
+import { Course } from '@/types/course';
+import { CatalogIssue, validateCatalog, formatCatalogReport } from '@/lib/catalog';
+import { sortByLearningPath } from '@/lib/learningPath';
 
-// Helper to get the priority of a byte based on its first topic in the sequence
-const getTopicPriority = (byte: Byte): number => {
-  for (const topic of byte.byte_topics) {
-    const index = TOPIC_SEQUENCE.indexOf(topic);
-    if (index !== -1) return index;
-  }
-  return TOPIC_SEQUENCE.length; // Put unknown topics at the end
-};
-
-export function useBytes() {
+export function useBytes(course: Course | null) {
   const [bytes, setBytes] = useState<Byte[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [catalogIssues, setCatalogIssues] = useState<CatalogIssue[]>([]);
 
   useEffect(() => {
+    if (!course) return;
+
     const fetchBytes = async () => {
+      setLoading(true);
+      setError(null);
       try {
-        const response = await fetch('/data/bytes.json');
+        const response = await fetch(course.catalog);
         if (!response.ok) throw new Error('Failed to fetch bytes');
-        const data: Byte[] = await response.json();
-        
-        // Sort bytes by topic sequence priority
-        const sortedBytes = [...data].sort((a, b) => {
-          return getTopicPriority(a) - getTopicPriority(b);
-        });
+        const data: unknown = await response.json();
+
+        // Validate the catalog - broken entries are skipped, the rest still load
+        const { bytes: validBytes, issues } = validateCatalog(data, course);
+        if (issues.length > 0) {
+          console.warn(formatCatalogReport(issues));
+        }
+        setCatalogIssues(issues);
         
-        setBytes(sortedBytes);
+        // Prerequisites first, then topic sequence priority
+        const topicSequence = course.topics.map(t => t.key);
+        setBytes(sortByLearningPath(validBytes, topicSequence));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
       } finally {
@@ -36,7 +39,7 @@ export function useBytes() {
     };
 
     fetchBytes();
-  }, []);
+  }, [course]);
 
   const getAllTopics = (): string[] => {
     const topics = new Set<string>();
@@ -46,5 +49,5 @@ export function useBytes() {
     return Array.from(topics).sort();
   };
 
-  return { bytes, loading, error, getAllTopics };
+  return { bytes, loading, error, catalogIssues, getAllTopics };
 }
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { Course } from '@/types/course';
+
+export const CourseContext = createContext<Course | null>(null);
+
+// Active course for the current route
+export function useCourse(): Course {
+  const course = useContext(CourseContext);
+  if (!course) {
+    throw new Error('useCourse must be used within a CourseProvider.');
+  }
+  return course;
+}
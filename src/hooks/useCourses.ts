@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { Course, COURSES_MANIFEST_URL } from '@/types/course';
+import { CatalogIssue, validateCourseManifest, formatCatalogReport } from '@/lib/catalog';
+
+export function useCourses() {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [manifestIssues, setManifestIssues] = useState<CatalogIssue[]>([]);
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const response = await fetch(COURSES_MANIFEST_URL);
+        if (!response.ok) throw new Error('Failed to fetch courses');
+        const data: unknown = await response.json();
+
+        // Invalid courses are skipped, the rest still load
+        const { courses: validCourses, issues } = validateCourseManifest(data);
+        if (issues.length > 0) {
+          console.warn(formatCatalogReport(issues, 'Course manifest'));
+        }
+        setManifestIssues(issues);
+        setCourses(validCourses);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  return { courses, loading, error, manifestIssues };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useCourse } from '@/hooks/useCourse';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { ExerciseRunResult } from '@/lib/pythonHarness';
+import { preloadPython, runExercise } from '@/lib/pythonRunner';
+import { Byte } from '@/types/byte';
+import { getCourseStorageKey } from '@/types/course';
+
+const EXERCISES_STORAGE_KEY = 'conceptCapsuleExercises';
+
+interface SavedExercise {
+  code: string;
+  passed: boolean;
+}
+
+/**
+ * The learner's code for a byte's exercise (kept between visits) and
+ * running it against the exercise's checks
+ */
+export function useExercise(byte: Byte, onPassed: () => void) {
+  const course = useCourse();
+  const [saved, setSaved] = useLocalStorage<Record<string, SavedExercise>>(
+    getCourseStorageKey(EXERCISES_STORAGE_KEY, course.id),
+    {}
+  );
+  const [result, setResult] = useState<ExerciseRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const exercise = byte.exercise;
+  const entry = saved[byte.byte_id];
+  const code = entry?.code ?? exercise?.starter_code ?? '';
+
+  // Results belong to the byte they were run for
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [byte.byte_id]);
+
+  // Fetch the runtime while the learner reads the task
+  useEffect(() => {
+    if (!exercise) return;
+    preloadPython().catch(error => console.error('Error loading Python:', error));
+  }, [exercise]);
+
+  const setCode = useCallback((next: string) => {
+    setSaved(prev => ({ ...prev, [byte.byte_id]: { code: next, passed: prev[byte.byte_id]?.passed ?? false } }));
+  }, [byte.byte_id, setSaved]);
+
+  const resetCode = useCallback(() => {
+    setCode(exercise?.starter_code ?? '');
+    setResult(null);
+    setError(null);
+  }, [exercise, setCode]);
+
+  const run = useCallback(async () => {
+    if (!exercise) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const next = await runExercise(exercise, code);
+      setResult(next);
+      if (next.passed) {
+        setSaved(prev => ({ ...prev, [byte.byte_id]: { code, passed: true } }));
+        onPassed();
+      }
+    } catch (runError) {
+      console.error('Error running exercise:', runError);
+      setResult(null);
+      setError(runError instanceof Error ? runError.message : 'Your code could not be run.');
+    } finally {
+      setIsRunning(false);
+    }
+  }, [exercise, code, byte.byte_id, setSaved, onPassed]);
+
+  return {
+    code,
+    setCode,
+    resetCode,
+    run,
+    isRunning,
+    result,
+    error,
+    // Passed now or on an earlier visit
+    hasPassed: entry?.passed ?? false,
+  };
+}
@@ -31,19 +31,40 @@ function generateFingerprint(): string {
   return Math.abs(hash).toString(36);
 }
 
+const FINGERPRINT_STORAGE_KEY = 'user_fingerprint';
+
+// Stored fingerprint for this browser, generated on first use
+export function getFingerprint(): string {
+  const stored = localStorage.getItem(FINGERPRINT_STORAGE_KEY);
+  if (stored) return stored;
+
+  const fp = generateFingerprint();
+  localStorage.setItem(FINGERPRINT_STORAGE_KEY, fp);
+  return fp;
+}
+
+const CLAIM_TOKEN_STORAGE_KEY = 'user_claim_token';
+
+/**
+ * Random secret for this browser, sent with anonymous likes and feedback.
+ * Unlike the fingerprint it can't be guessed or shared by another machine,
+ * so claiming the activity after sign-in takes this token.
+ */
+export function getClaimToken(): string {
+  const stored = localStorage.getItem(CLAIM_TOKEN_STORAGE_KEY);
+  if (stored) return stored;
+
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem(CLAIM_TOKEN_STORAGE_KEY, token);
+  return token;
+}
+
 export function useFingerprint() {
   const [fingerprint, setFingerprint] = useState<string>('');
 
   useEffect(() => {
-    // Check localStorage first
-    const stored = localStorage.getItem('user_fingerprint');
-    if (stored) {
-      setFingerprint(stored);
-    } else {
-      const fp = generateFingerprint();
-      localStorage.setItem('user_fingerprint', fp);
-      setFingerprint(fp);
-    }
+    setFingerprint(getFingerprint());
   }, []);
 
   return fingerprint;
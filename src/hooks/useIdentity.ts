@@ -0,0 +1,21 @@
+import { useAuth } from './useAuth';
+import { getClaimToken, useFingerprint } from './useFingerprint';
+
+/**
+ * Who likes and feedback belong to: the signed-in account when there is one,
+ * otherwise this browser's fingerprint
+ */
+export function useIdentity() {
+  const { user, loading } = useAuth();
+  const fingerprint = useFingerprint();
+
+  return {
+    userId: user?.id ?? null,
+    fingerprint,
+    // Same form as the server's request_identity; offline writes are kept per identity
+    identity: user ? `user:${user.id}` : `fp:${fingerprint}`,
+    // Only sent while signed out; lets this device claim the activity later
+    claimToken: user ? null : getClaimToken(),
+    ready: !!fingerprint && !loading,
+  };
+}
@@ -1,77 +1,42 @@
-import { useEffect, useCallback, useRef } from 'react';
+import { createContext, useContext, useEffect } from 'react';
+import { useLatestRef } from '@/hooks/useLatestRef';
+import { ShortcutBindings, ShortcutConflict, ShortcutId, ShortcutScope } from '@/lib/shortcuts';
 
-interface KeyboardShortcuts {
-  onToggleLeftPanel?: () => void;
-  onToggleNotesPanel?: () => void;
-  onToggleFullscreen?: () => void;
-}
-
-export function useKeyboardShortcuts({
-  onToggleLeftPanel,
-  onToggleNotesPanel,
-  onToggleFullscreen,
-}: KeyboardShortcuts) {
-  // Use refs to always have the latest callback references
-  const onToggleLeftPanelRef = useRef(onToggleLeftPanel);
-  const onToggleNotesPanelRef = useRef(onToggleNotesPanel);
-  const onToggleFullscreenRef = useRef(onToggleFullscreen);
+// Handlers a page provides; shortcuts without one (or set to undefined) pass through
+export type ShortcutHandlers = Partial<Record<ShortcutId, (() => void) | undefined>>;
 
-  // Update refs when callbacks change
-  useEffect(() => {
-    onToggleLeftPanelRef.current = onToggleLeftPanel;
-    onToggleNotesPanelRef.current = onToggleNotesPanel;
-    onToggleFullscreenRef.current = onToggleFullscreen;
-  }, [onToggleLeftPanel, onToggleNotesPanel, onToggleFullscreen]);
+export interface ShortcutRegistration {
+  scope: ShortcutScope;
+  handlers: { current: ShortcutHandlers };
+}
 
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      // Don't trigger shortcuts when typing in input fields
-      const target = event.target as HTMLElement;
-      if (
-        target instanceof HTMLInputElement ||
-        target instanceof HTMLTextAreaElement ||
-        target.isContentEditable
-      ) {
-        return;
-      }
+export interface ShortcutsContextValue {
+  bindings: ShortcutBindings;
+  conflicts: ShortcutConflict[];
+  // Scopes with a mounted page, for the help overlay
+  activeScopes: ShortcutScope[];
+  register: (registration: ShortcutRegistration) => () => void;
+  setBinding: (id: ShortcutId, keys: string[]) => void;
+  resetBindings: () => void;
+  openHelp: () => void;
+}
 
-      const key = event.key.toLowerCase();
+export const ShortcutsContext = createContext<ShortcutsContextValue | null>(null);
 
-      switch (key) {
-        case 'l':
-          event.preventDefault();
-          event.stopPropagation();
-          onToggleLeftPanelRef.current?.();
-          break;
-        case 'a':
-          event.preventDefault();
-          event.stopPropagation();
-          onToggleNotesPanelRef.current?.();
-          break;
-        case 'f':
-          event.preventDefault();
-          event.stopPropagation();
-          onToggleFullscreenRef.current?.();
-          break;
-      }
-    };
+export function useShortcuts(): ShortcutsContextValue {
+  const shortcuts = useContext(ShortcutsContext);
+  if (!shortcuts) {
+    throw new Error('useShortcuts must be used within a ShortcutsProvider.');
+  }
+  return shortcuts;
+}
 
-    // Use capture phase to ensure we get the event first
-    window.addEventListener('keydown', handleKeyDown, true);
-    document.addEventListener('keydown', handleKeyDown, true);
-    
-    // Periodically check if focus is on an iframe and return it to document
-    const focusInterval = setInterval(() => {
-      if (document.activeElement instanceof HTMLIFrameElement) {
-        // Don't steal focus if user is interacting with video controls
-        // Just ensure keyboard events work by listening on document level
-      }
-    }, 1000);
+/**
+ * Handle the registry's shortcuts for a page (or part of one) while mounted
+ */
+export function useKeyboardShortcuts(scope: ShortcutScope, handlers: ShortcutHandlers) {
+  const { register } = useShortcuts();
+  const handlersRef = useLatestRef(handlers);
 
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown, true);
-      document.removeEventListener('keydown', handleKeyDown, true);
-      clearInterval(focusInterval);
-    };
-  }, []);
+  useEffect(() => register({ scope, handlers: handlersRef }), [register, scope, handlersRef]);
 }
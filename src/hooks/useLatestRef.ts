@@ -0,0 +1,12 @@
+import { useEffect, useRef } from 'react';
+
+// Keep a ref pointing at the latest value so long-lived listeners never go stale
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value);
+
+  useEffect(() => {
+    ref.current = value;
+  }, [value]);
+
+  return ref;
+}
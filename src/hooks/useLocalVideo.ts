@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { getOfflineVideo, readDownloads } from '@/lib/offlineVideos';
+
+/**
+ * An object URL for the offline copy of a video, if there is one. While a
+ * saved copy is being read, isLoading is set so the player can wait for it
+ * instead of starting the online version. Revoked when the url changes.
+ */
+export function useLocalVideo(url: string | null) {
+  // Resolved copy for `source`; objectUrl is null when there was none
+  const [result, setResult] = useState<{ source: string; objectUrl: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getOfflineVideo(url)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = blob ? URL.createObjectURL(blob) : null;
+        setResult({ source: url, objectUrl });
+      })
+      .catch(error => {
+        console.error('Error loading offline video:', error);
+        if (!cancelled) setResult({ source: url, objectUrl: null });
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  // Never hand out the previous video's copy while the next one loads
+  const current = result?.source === url ? result : null;
+  return {
+    localUrl: current?.objectUrl ?? null,
+    isLoading: !!url && !current && !!readDownloads()[url],
+  };
+}
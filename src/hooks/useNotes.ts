@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getCourseStorageKey } from '@/types/course';
+import { CourseNotes } from '@/types/notes';
+import { plainToMarkdown } from '@/lib/markdown';
+
+const NOTES_STORAGE_KEY = 'conceptCapsuleByteNotes';
+// The single notes blob from before notes belonged to a byte
+const LEGACY_NOTES_STORAGE_KEY = 'conceptCapsuleNotes';
+
+// Stored notes with plain-text ones converted to Markdown
+function loadNotes(storageKey: string): { notes: CourseNotes; migrated: boolean } {
+  const stored = localStorage.getItem(storageKey);
+  const parsed: CourseNotes = stored ? JSON.parse(stored) : {};
+
+  let migrated = false;
+  const notes = Object.fromEntries(Object.entries(parsed).map(([byteId, note]) => {
+    if (note.format === 'markdown') return [byteId, note];
+    migrated = true;
+    return [byteId, { ...note, content: plainToMarkdown(note.content), format: 'markdown' }];
+  })) as CourseNotes;
+
+  return { notes, migrated };
+}
+
+/**
+ * Current notes for a course, read straight from storage - for features
+ * like search that only need a snapshot
+ */
+export function readCourseNotes(courseId: string): CourseNotes {
+  try {
+    return loadNotes(getCourseStorageKey(NOTES_STORAGE_KEY, courseId)).notes;
+  } catch (error) {
+    console.error('Error loading notes:', error);
+    return {};
+  }
+}
+
+export function useNotes(courseId: string) {
+  const [notes, setNotes] = useState<CourseNotes>({});
+  const [legacyNotes, setLegacyNotes] = useState('');
+  const storageKey = getCourseStorageKey(NOTES_STORAGE_KEY, courseId);
+  const legacyStorageKey = getCourseStorageKey(LEGACY_NOTES_STORAGE_KEY, courseId);
+
+  // Load notes from localStorage, converting plain-text notes to Markdown
+  useEffect(() => {
+    try {
+      const { notes: normalized, migrated } = loadNotes(storageKey);
+
+      setNotes(normalized);
+      if (migrated) {
+        localStorage.setItem(storageKey, JSON.stringify(normalized));
+      }
+      setLegacyNotes(localStorage.getItem(legacyStorageKey)?.trim() || '');
+    } catch (error) {
+      console.error('Error loading notes:', error);
+    }
+  }, [storageKey, legacyStorageKey]);
+
+  const saveNotes = useCallback((newNotes: CourseNotes) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(newNotes));
+    } catch (error) {
+      console.error('Error saving notes:', error);
+    }
+  }, [storageKey]);
+
+  // Replace a byte's note; an emptied note is dropped. Whitespace counts as
+  // content, since a note often starts with a Tab or newline while typing.
+  const updateNote = useCallback((byteId: string, content: string) => {
+    setNotes(prev => {
+      const { [byteId]: removed, ...rest } = prev;
+      const newNotes = content !== ''
+        ? { ...rest, [byteId]: { byteId, content, updatedAt: Date.now(), format: 'markdown' as const } }
+        : rest;
+      saveNotes(newNotes);
+      return newNotes;
+    });
+  }, [saveNotes]);
+
+  // Move the old global (plain-text) notes onto a byte, after anything already there
+  const attachLegacyNotes = useCallback((byteId: string) => {
+    if (!legacyNotes) return;
+
+    setNotes(prev => {
+      const existing = prev[byteId]?.content.trim();
+      const legacy = plainToMarkdown(legacyNotes);
+      const content = existing ? `${existing}\n\n${legacy}` : legacy;
+      const newNotes = { ...prev, [byteId]: { byteId, content, updatedAt: Date.now(), format: 'markdown' as const } };
+      saveNotes(newNotes);
+      return newNotes;
+    });
+
+    try {
+      localStorage.removeItem(legacyStorageKey);
+    } catch (error) {
+      console.error('Error removing old notes:', error);
+    }
+    setLegacyNotes('');
+  }, [legacyNotes, legacyStorageKey, saveNotes]);
+
+  return { notes, legacyNotes, updateNote, attachLegacyNotes };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useCourse } from '@/hooks/useCourse';
+import { toast } from '@/hooks/use-toast';
+import { Byte } from '@/types/byte';
+import {
+  StorageUsage,
+  canDownloadByte,
+  downloadVideo,
+  getActiveDownloads,
+  getDownloadUrl,
+  getStorageUsage,
+  readDownloads,
+  reconcileDownloads,
+  removeAllDownloads,
+  removeDownload,
+  subscribeDownloads,
+} from '@/lib/offlineVideos';
+
+function reportError(message: string, error: unknown) {
+  console.error(message, error);
+  toast({
+    title: message,
+    description: error instanceof Error ? error.message : undefined,
+    variant: 'destructive',
+  });
+}
+
+/**
+ * Saved-for-offline state of the course's videos, with download and
+ * remove actions and the browser's storage usage
+ */
+export function useOfflineDownloads() {
+  const course = useCourse();
+  const [downloads, setDownloads] = useState(readDownloads);
+  const [activeDownloads, setActiveDownloads] = useState(getActiveDownloads);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  const refreshStorage = useCallback(() => {
+    getStorageUsage().then(setStorage);
+  }, []);
+
+  useEffect(() => subscribeDownloads(() => {
+    setDownloads(readDownloads());
+    setActiveDownloads(getActiveDownloads());
+  }), []);
+
+  // Storage only changes meaningfully when a download starts or finishes
+  const downloadCount = Object.keys(downloads).length;
+  const activeCount = Object.keys(activeDownloads).length;
+  useEffect(refreshStorage, [downloadCount, activeCount, refreshStorage]);
+
+  // The browser may have cleared the cache since the last visit
+  useEffect(() => {
+    reconcileDownloads()
+      .then(missing => {
+        if (missing > 0) {
+          toast({
+            title: 'Some offline videos were removed',
+            description: `Your browser cleared ${missing} saved video${missing === 1 ? '' : 's'} to free up space.`,
+          });
+        }
+      })
+      .catch(error => console.error('Error checking offline downloads:', error));
+  }, []);
+
+  const isDownloaded = useCallback((byte: Byte) => {
+    const url = getDownloadUrl(byte);
+    return !!url && !!downloads[url];
+  }, [downloads]);
+
+  // Fraction downloaded (0-1) while in progress, otherwise null
+  const getDownloadProgress = useCallback((byte: Byte) => {
+    const url = getDownloadUrl(byte);
+    return url && url in activeDownloads ? activeDownloads[url] : null;
+  }, [activeDownloads]);
+
+  // Downloads one after another so each gets the full connection
+  const download = useCallback(async (bytes: Byte[]) => {
+    const pending = bytes.filter(byte => canDownloadByte(byte) && !isDownloaded(byte));
+    let evicted = 0;
+
+    for (const byte of pending) {
+      try {
+        evicted += await downloadVideo(byte, course.id);
+      } catch (error) {
+        reportError(`Couldn't download "${byte.byte_description}"`, error);
+        break;
+      }
+    }
+
+    if (evicted > 0) {
+      toast({
+        title: 'Made room for new downloads',
+        description: `Removed ${evicted} offline video${evicted === 1 ? '' : 's'} you haven't watched recently.`,
+      });
+    }
+  }, [course.id, isDownloaded]);
+
+  const remove = useCallback(async (bytes: Byte[]) => {
+    try {
+      for (const byte of bytes) {
+        const url = getDownloadUrl(byte);
+        if (url && downloads[url]) await removeDownload(url);
+      }
+    } catch (error) {
+      reportError("Couldn't remove offline videos", error);
+    }
+  }, [downloads]);
+
+  const removeAll = useCallback(async () => {
+    try {
+      await removeAllDownloads();
+    } catch (error) {
+      reportError("Couldn't remove offline videos", error);
+    }
+  }, []);
+
+  const courseDownloads = Object.values(downloads).filter(entry => entry.courseId === course.id);
+
+  return {
+    downloads,
+    courseDownloads,
+    storage,
+    isDownloaded,
+    getDownloadProgress,
+    download,
+    remove,
+    removeAll,
+  };
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { flushWriteQueue, getPendingWrites, subscribeWriteQueue } from '@/lib/writeQueue';
+import { useIdentity } from './useIdentity';
+import { useLatestRef } from './useLatestRef';
+
+// How often queued writes are retried while online, for flaky connections
+const RETRY_INTERVAL = 30000;
+
+/**
+ * Connection state plus the number of likes and ratings waiting to be sent.
+ * Sends them whenever the connection comes back - mount once, app-wide.
+ * Only the current identity's writes are counted and sent.
+ */
+export function useOfflineSync() {
+  const { identity, ready } = useIdentity();
+  const identityRef = useLatestRef(ready ? identity : null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState(0);
+
+  const flush = useCallback(() => {
+    flushWriteQueue(() => identityRef.current)
+      .catch(error => console.error('Error sending queued writes:', error));
+  }, [identityRef]);
+
+  useEffect(() => {
+    const update = () => setPendingWrites(ready ? getPendingWrites(identity).length : 0);
+    update();
+    return subscribeWriteQueue(update);
+  }, [identity, ready]);
+
+  // Anything left over from an earlier visit, or from the identity signed in again
+  useEffect(() => {
+    if (ready) flush();
+  }, [identity, ready, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  useEffect(() => {
+    if (!isOnline || pendingWrites === 0) return;
+    const interval = window.setInterval(flush, RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOnline, pendingWrites, flush]);
+
+  return { isOnline, pendingWrites };
+}
@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+
+/**
+ * What happens when a byte finishes: repeat it (moving on after a few
+ * plays, as bytes always have), stop, or go straight to the next byte
+ */
+export type EndBehavior = 'loop' | 'stop' | 'advance';
+
+export const END_BEHAVIORS: { value: EndBehavior; label: string }[] = [
+  { value: 'loop', label: 'Repeat, then next' },
+  { value: 'stop', label: 'Stop at the end' },
+  { value: 'advance', label: 'Play next' },
+];
+
+interface PlaybackSettings {
+  playbackRate: number;
+  endBehavior: EndBehavior;
+}
+
+const PLAYBACK_SETTINGS_STORAGE_KEY = 'conceptCapsulePlaybackSettings';
+
+const DEFAULT_SETTINGS: PlaybackSettings = {
+  playbackRate: 1,
+  endBehavior: 'loop',
+};
+
+/**
+ * Speed and end-of-byte behaviour, shared across courses
+ */
+export function usePlaybackSettings() {
+  const [settings, setSettings] = useLocalStorage<PlaybackSettings>(
+    PLAYBACK_SETTINGS_STORAGE_KEY,
+    DEFAULT_SETTINGS
+  );
+  const { playbackRate, endBehavior } = { ...DEFAULT_SETTINGS, ...settings };
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    setSettings(prev => ({ ...DEFAULT_SETTINGS, ...prev, playbackRate: rate }));
+  }, [setSettings]);
+
+  // Step to the next slower (-1) or faster (+1) preset
+  const stepPlaybackRate = useCallback((step: number) => {
+    const index = PLAYBACK_RATES.findIndex(rate => rate >= playbackRate);
+    const current = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, current + step))];
+    setPlaybackRate(next);
+    return next;
+  }, [playbackRate, setPlaybackRate]);
+
+  const setEndBehavior = useCallback((behavior: EndBehavior) => {
+    setSettings(prev => ({ ...DEFAULT_SETTINGS, ...prev, endBehavior: behavior }));
+  }, [setSettings]);
+
+  const cycleEndBehavior = useCallback(() => {
+    const index = END_BEHAVIORS.findIndex(option => option.value === endBehavior);
+    const next = END_BEHAVIORS[(index + 1) % END_BEHAVIORS.length];
+    setEndBehavior(next.value);
+    return next;
+  }, [endBehavior, setEndBehavior]);
+
+  return {
+    playbackRate,
+    setPlaybackRate,
+    stepPlaybackRate,
+    endBehavior,
+    setEndBehavior,
+    cycleEndBehavior,
+  };
+}
@@ -0,0 +1,133 @@
+import { useCallback, useMemo } from 'react';
+import { useCourse } from '@/hooks/useCourse';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { SharedPlaylist, createPlaylistId, createWatchLater, normalizePlaylistName } from '@/lib/playlists';
+import { getCourseStorageKey } from '@/types/course';
+import { CustomPlaylist, PLAYLISTS_STORAGE_KEY, PlaylistsState, WATCH_LATER_ID } from '@/types/playlist';
+
+const defaultState: PlaylistsState = {
+  playlists: [],
+  activeId: null,
+};
+
+/**
+ * The learner's playlists for the course (watch later first), kept in
+ * localStorage, and which one prev/next follow
+ */
+export function usePlaylists() {
+  const course = useCourse();
+  const [state, setState] = useLocalStorage<PlaylistsState>(
+    getCourseStorageKey(PLAYLISTS_STORAGE_KEY, course.id),
+    defaultState
+  );
+
+  const playlists = useMemo(() => {
+    const saved = state.playlists.filter(p => p.id !== WATCH_LATER_ID);
+    return [state.playlists.find(p => p.id === WATCH_LATER_ID) ?? createWatchLater(), ...saved];
+  }, [state.playlists]);
+
+  const activePlaylist = playlists.find(p => p.id === state.activeId) ?? null;
+
+  // Watch later is created on its first edit
+  const updatePlaylist = useCallback((id: string, update: (playlist: CustomPlaylist) => CustomPlaylist) => {
+    setState(prev => {
+      const existing = prev.playlists.find(p => p.id === id)
+        ?? (id === WATCH_LATER_ID ? createWatchLater() : null);
+      if (!existing) return prev;
+      const others = prev.playlists.filter(p => p.id !== id);
+      const updated = update(existing);
+      return {
+        ...prev,
+        playlists: id === WATCH_LATER_ID ? [updated, ...others] : prev.playlists.map(p => (p.id === id ? updated : p)),
+      };
+    });
+  }, [setState]);
+
+  const createPlaylist = useCallback((name: string, byteIds: string[] = []): string | null => {
+    const normalized = normalizePlaylistName(name);
+    if (!normalized) return null;
+    const playlist: CustomPlaylist = { id: createPlaylistId(), name: normalized, byteIds, createdAt: Date.now() };
+    setState(prev => ({ ...prev, playlists: [...prev.playlists, playlist] }));
+    return playlist.id;
+  }, [setState]);
+
+  const renamePlaylist = useCallback((id: string, name: string) => {
+    const normalized = normalizePlaylistName(name);
+    if (!normalized || id === WATCH_LATER_ID) return;
+    updatePlaylist(id, playlist => ({ ...playlist, name: normalized }));
+  }, [updatePlaylist]);
+
+  const deletePlaylist = useCallback((id: string) => {
+    if (id === WATCH_LATER_ID) return;
+    setState(prev => ({
+      playlists: prev.playlists.filter(p => p.id !== id),
+      activeId: prev.activeId === id ? null : prev.activeId,
+    }));
+  }, [setState]);
+
+  const addToPlaylist = useCallback((id: string, byteId: string) => {
+    updatePlaylist(id, playlist => (
+      playlist.byteIds.includes(byteId) ? playlist : { ...playlist, byteIds: [...playlist.byteIds, byteId] }
+    ));
+  }, [updatePlaylist]);
+
+  const removeFromPlaylist = useCallback((id: string, byteId: string) => {
+    updatePlaylist(id, playlist => ({ ...playlist, byteIds: playlist.byteIds.filter(b => b !== byteId) }));
+  }, [updatePlaylist]);
+
+  const reorderPlaylist = useCallback((id: string, byteIds: string[]) => {
+    updatePlaylist(id, playlist => ({ ...playlist, byteIds }));
+  }, [updatePlaylist]);
+
+  const isInPlaylist = useCallback(
+    (id: string, byteId: string) => playlists.some(p => p.id === id && p.byteIds.includes(byteId)),
+    [playlists]
+  );
+
+  const toggleInPlaylist = useCallback((id: string, byteId: string) => {
+    if (isInPlaylist(id, byteId)) {
+      removeFromPlaylist(id, byteId);
+    } else {
+      addToPlaylist(id, byteId);
+    }
+  }, [isInPlaylist, addToPlaylist, removeFromPlaylist]);
+
+  const setActivePlaylist = useCallback((id: string | null) => {
+    setState(prev => (prev.activeId === id ? prev : { ...prev, activeId: id }));
+  }, [setState]);
+
+  /**
+   * Add a playlist someone shared and make it the active one.
+   * The same playlist shared again is reused rather than added twice.
+   */
+  const importPlaylist = useCallback((shared: SharedPlaylist) => {
+    setState(prev => {
+      const existing = prev.playlists.find(p =>
+        p.name === shared.name && p.byteIds.join() === shared.byteIds.join()
+      );
+      if (existing) return { ...prev, activeId: existing.id };
+      const playlist: CustomPlaylist = {
+        id: createPlaylistId(),
+        name: shared.name,
+        byteIds: shared.byteIds,
+        createdAt: Date.now(),
+      };
+      return { playlists: [...prev.playlists, playlist], activeId: playlist.id };
+    });
+  }, [setState]);
+
+  return {
+    playlists,
+    activePlaylist,
+    createPlaylist,
+    renamePlaylist,
+    deletePlaylist,
+    addToPlaylist,
+    removeFromPlaylist,
+    reorderPlaylist,
+    isInPlaylist,
+    toggleInPlaylist,
+    setActivePlaylist,
+    importPlaylist,
+  };
+}
@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useLatestRef } from './useLatestRef';
+import { getCourseStorageKey } from '@/types/course';
+import { VideoProgress } from '@/types/progress';
+import { isSameProgress, mergeProgress } from '@/lib/progress';
+import {
+  PendingProgressSync,
+  EMPTY_PENDING_SYNC,
+  loadPendingSync,
+  savePendingSync,
+  fetchRemoteProgress,
+  pushProgress,
+  deleteRemoteProgress,
+} from '@/lib/progressSync';
+
+const PROGRESS_SYNC_QUEUE_KEY = 'concept-capsule-progress-sync-queue';
+const SYNC_DEBOUNCE = 5000; // Batch the frequent playback updates
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+// Each account has its own queue, so changes never reach another account
+const getQueueKey = (userId: string, courseId: string) =>
+  getCourseStorageKey(`${PROGRESS_SYNC_QUEUE_KEY}:${userId}`, courseId);
+
+/**
+ * Keeps local progress in step with the video_progress table for signed-in
+ * learners. Local changes are queued (and survive reloads while offline),
+ * pushed in batches, and remote progress is merged in on sign-in, when the
+ * tab becomes visible and when the connection comes back.
+ */
+export function useProgressSync(
+  courseId: string,
+  progress: VideoProgress,
+  onRemoteProgress: (remote: VideoProgress) => void
+) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const queueKey = userId ? getQueueKey(userId, courseId) : null;
+  const userIdRef = useLatestRef(userId);
+  const progressRef = useLatestRef(progress);
+  const onRemoteProgressRef = useLatestRef(onRemoteProgress);
+  const runningRef = useRef<Promise<void>>(Promise.resolve());
+  const debounceRef = useRef<number | null>(null);
+
+  // Nothing is queued while signed out; signing in merges local progress anyway
+  const updateQueue = useCallback((update: (pending: PendingProgressSync) => PendingProgressSync) => {
+    if (!queueKey) return;
+    savePendingSync(queueKey, update(loadPendingSync(queueKey)));
+  }, [queueKey]);
+
+  // Runs one sync task at a time so pushes and pulls never interleave
+  const runExclusive = useCallback((task: () => Promise<void>) => {
+    runningRef.current = runningRef.current
+      .then(task)
+      .catch(error => console.error('Error syncing progress:', error));
+    return runningRef.current;
+  }, []);
+
+  // Push queued changes. The queue is cleared up front so changes made during
+  // the request stay queued; on failure the batch goes back in. Skipped once
+  // another account is signed in, since writes would go to that account.
+  const flushQueue = useCallback(async () => {
+    if (!userId || !queueKey || userId !== userIdRef.current || !navigator.onLine) return;
+
+    const pending = loadPendingSync(queueKey);
+    if (!pending.reset && pending.removed.length === 0 && pending.dirty.length === 0) return;
+    savePendingSync(queueKey, EMPTY_PENDING_SYNC);
+
+    try {
+      if (pending.reset) {
+        await deleteRemoteProgress(userId, courseId);
+      }
+      if (pending.removed.length > 0) {
+        await deleteRemoteProgress(userId, courseId, pending.removed);
+      }
+      await pushProgress(courseId, progressRef.current, pending.dirty);
+    } catch (error) {
+      updateQueue(latest => ({
+        reset: latest.reset || pending.reset,
+        removed: union(latest.removed, pending.removed),
+        dirty: union(latest.dirty, pending.dirty),
+      }));
+      throw error;
+    }
+  }, [userId, courseId, queueKey, userIdRef, progressRef, updateQueue]);
+
+  // Full sync: push what's queued, merge in the remote copy, then push
+  // whatever the merge improved on
+  const syncNow = useCallback(() => runExclusive(async () => {
+    if (!userId || !navigator.onLine) return;
+
+    await flushQueue();
+    const remote = await fetchRemoteProgress(userId, courseId);
+    const merged = mergeProgress(progressRef.current, remote);
+    onRemoteProgressRef.current(remote);
+
+    const changed = Object.keys(merged).filter(byteId => !isSameProgress(merged[byteId], remote[byteId]));
+    await pushProgress(courseId, merged, changed);
+  }), [userId, courseId, flushQueue, progressRef, onRemoteProgressRef, runExclusive]);
+
+  const scheduleFlush = useCallback(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = window.setTimeout(() => {
+      debounceRef.current = null;
+      runExclusive(flushQueue);
+    }, SYNC_DEBOUNCE);
+  }, [flushQueue, runExclusive]);
+
+  const queueUpsert = useCallback((byteId: string) => {
+    updateQueue(pending => ({
+      ...pending,
+      removed: pending.removed.filter(id => id !== byteId),
+      dirty: union(pending.dirty, [byteId]),
+    }));
+    scheduleFlush();
+  }, [updateQueue, scheduleFlush]);
+
+  const queueRemoval = useCallback((byteId: string) => {
+    updateQueue(pending => ({
+      ...pending,
+      removed: union(pending.removed, [byteId]),
+      dirty: pending.dirty.filter(id => id !== byteId),
+    }));
+    scheduleFlush();
+  }, [updateQueue, scheduleFlush]);
+
+  // Earlier queued changes are moot once everything is wiped
+  const queueReset = useCallback(() => {
+    updateQueue(() => ({ reset: true, removed: [], dirty: [] }));
+    scheduleFlush();
+  }, [updateQueue, scheduleFlush]);
+
+  // Resets and removals belong to the session they were made in: drop them
+  // when the account signs out or another one signs in, so they can't wipe
+  // progress later. Also clears the old queue that wasn't keyed by account.
+  const previousUserIdRef = useRef(userId);
+  useEffect(() => {
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = userId;
+    savePendingSync(getCourseStorageKey(PROGRESS_SYNC_QUEUE_KEY, courseId), EMPTY_PENDING_SYNC);
+    if (!previousUserId || previousUserId === userId) return;
+
+    const previousKey = getQueueKey(previousUserId, courseId);
+    savePendingSync(previousKey, { ...loadPendingSync(previousKey), reset: false, removed: [] });
+  }, [userId, courseId]);
+
+  // Sync on sign-in and course change
+  useEffect(() => {
+    syncNow();
+  }, [syncNow]);
+
+  // Catch up after being offline or in another tab; flush before the tab goes away
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        syncNow();
+      } else {
+        runExclusive(flushQueue);
+      }
+    };
+    window.addEventListener('online', syncNow);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('online', syncNow);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [syncNow, flushQueue, runExclusive]);
+
+  // Flush whatever is pending when leaving the course
+  useEffect(() => {
+    return () => {
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+        debounceRef.current = null;
+      }
+      runExclusive(flushQueue);
+    };
+  }, [flushQueue, runExclusive]);
+
+  return { queueUpsert, queueRemoval, queueReset, syncNow };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { useCourse } from '@/hooks/useCourse';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { ReviewCards, ReviewGrade, getDueBytes, reviewCard } from '@/lib/spacedRepetition';
+import { Byte } from '@/types/byte';
+import { getCourseStorageKey } from '@/types/course';
+import { VideoProgress } from '@/types/progress';
+
+const REVIEW_STORAGE_KEY = 'conceptCapsuleReviews';
+
+/**
+ * Today's "Due for review" queue for the course, and grading reviews
+ */
+export function useReviewQueue(bytes: Byte[], progress: VideoProgress) {
+  const course = useCourse();
+  const [cards, setCards] = useLocalStorage<ReviewCards>(
+    getCourseStorageKey(REVIEW_STORAGE_KEY, course.id),
+    {}
+  );
+
+  const dueBytes = useMemo(() => getDueBytes(bytes, progress, cards), [bytes, progress, cards]);
+
+  // Grades from the card in sessionCards when given, so grading a byte
+  // again in the same session replaces the earlier grade instead of adding to it
+  const recordReview = useCallback((byteId: string, grade: ReviewGrade, sessionCards?: ReviewCards) => {
+    setCards(prev => ({ ...prev, [byteId]: reviewCard((sessionCards ?? prev)[byteId], grade) }));
+  }, [setCards]);
+
+  const isDue = useCallback(
+    (byteId: string) => dueBytes.some(byte => byte.byte_id === byteId),
+    [dueBytes]
+  );
+
+  return { cards, dueBytes, isDue, recordReview };
+}
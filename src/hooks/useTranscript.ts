@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Byte, ByteCaption } from '@/types/byte';
+import { CaptionCue, cuesToText, loadCaptionCues, pickCaption } from '@/lib/webvtt';
+
+/**
+ * Cues of one caption track, for the transcript pane
+ */
+export function useTranscript(caption: ByteCaption | null) {
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const url = caption?.url;
+
+  useEffect(() => {
+    setCues([]);
+    setError(null);
+    if (!url) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadCaptionCues(url)
+      .then(loaded => {
+        if (!cancelled) setCues(loaded);
+      })
+      .catch(err => {
+        console.error('Error loading captions:', err);
+        if (!cancelled) setError('Could not load the transcript.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return { cues, isLoading, error };
+}
+
+/**
+ * Transcript text of every captioned byte, keyed by byte_id, for search.
+ * Only fetched once enabled (e.g. when the search palette opens).
+ */
+export function useTranscripts(bytes: Byte[], enabled: boolean) {
+  const [transcripts, setTranscripts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const captioned = bytes
+      .map(byte => ({ byteId: byte.byte_id, caption: pickCaption(byte.captions) }))
+      .filter((entry): entry is { byteId: string; caption: ByteCaption } => entry.caption !== null);
+
+    Promise.all(captioned.map(({ byteId, caption }) =>
+      loadCaptionCues(caption.url)
+        .then(cues => [byteId, cuesToText(cues)] as const)
+        .catch(error => {
+          console.error('Error loading captions:', error);
+          return null;
+        })
+    )).then(entries => {
+      if (cancelled) return;
+      setTranscripts(Object.fromEntries(entries.filter(entry => entry !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bytes, enabled]);
+
+  return transcripts;
+}
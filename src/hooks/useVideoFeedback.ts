@@ -1,82 +1,206 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useFingerprint } from './useFingerprint';
+import { useIdentity } from './useIdentity';
+import { useCourse } from './useCourse';
+import { isRateLimited } from '@/lib/rateLimit';
+import { enqueueWrite, getQueuedWrite, isNetworkError, removeQueuedWrite, subscribeWriteQueue } from '@/lib/writeQueue';
 
 interface Feedback {
   id: string;
   rating: number;
   comment: string | null;
   created_at: string;
+  updated_at: string;
 }
 
+// An earlier version of the learner's rating, replaced by an edit or deleted
+export interface FeedbackVersion {
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  superseded_at: string;
+  change: 'updated' | 'deleted';
+}
+
+const getErrorMessage = (error: unknown, action: string) =>
+  isRateLimited(error)
+    ? 'You\'ve changed your feedback a lot recently. Please try again later.'
+    : `Couldn't ${action} your feedback. Please try again.`;
+
 export function useVideoFeedback(byteId: string) {
   const [userFeedback, setUserFeedback] = useState<Feedback | null>(null);
+  const [history, setHistory] = useState<FeedbackVersion[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const fingerprint = useFingerprint();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { fingerprint, identity, claimToken, ready } = useIdentity();
+  const { id: courseId } = useCourse();
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  // Refetch once feedback queued offline for this byte has been sent
+  useEffect(() => {
+    let pending = getQueuedWrite(identity, 'feedback', courseId, byteId) !== null;
+    return subscribeWriteQueue(() => {
+      const stillPending = getQueuedWrite(identity, 'feedback', courseId, byteId) !== null;
+      if (pending && !stillPending) setSyncVersion(prev => prev + 1);
+      pending = stillPending;
+    });
+  }, [courseId, byteId, identity]);
+
+  const fetchHistory = useCallback(async () => {
+    const { data: rows, error } = await supabase.rpc('get_my_feedback_history', {
+      p_course_id: courseId,
+      p_byte_id: byteId,
+      p_fingerprint: fingerprint,
+    });
+
+    if (error) {
+      console.error('Error loading feedback history:', error);
+      return;
+    }
+
+    setHistory((rows || []).map(row => ({
+      rating: row.rating,
+      comment: row.comment,
+      created_at: row.created_at,
+      superseded_at: row.superseded_at,
+      change: row.change === 'deleted' ? 'deleted' : 'updated',
+    })));
+  }, [byteId, courseId, fingerprint]);
 
   // Fetch user's existing feedback
   useEffect(() => {
-    if (!byteId || !fingerprint) return;
+    if (!byteId || !ready) return;
 
     const fetchFeedback = async () => {
-      const { data } = await supabase
-        .from('video_feedback')
-        .select('*')
-        .eq('byte_id', byteId)
-        .eq('user_fingerprint', fingerprint)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+      // Own feedback only - resolved server-side by account or fingerprint
+      const { data: rows } = await supabase.rpc('get_my_feedback', {
+        p_course_id: courseId,
+        p_byte_id: byteId,
+        p_fingerprint: fingerprint,
+      });
+      const data = rows?.[0];
 
-      if (data) {
+      // A rating still waiting to be sent wins over the server's copy
+      const queued = getQueuedWrite(identity, 'feedback', courseId, byteId);
+      if (queued?.rpc === 'submit_feedback') {
+        const now = new Date().toISOString();
+        setUserFeedback({
+          id: data?.id ?? 'queued',
+          rating: queued.args.p_rating,
+          comment: queued.args.p_comment || null,
+          created_at: data?.created_at ?? now,
+          updated_at: now,
+        });
+      } else if (data && queued?.rpc !== 'delete_my_feedback') {
         setUserFeedback({
           id: data.id,
           rating: data.rating,
           comment: data.comment,
           created_at: data.created_at,
+          updated_at: data.updated_at,
         });
       } else {
         setUserFeedback(null);
       }
     };
 
+    setSubmitError(null);
     fetchFeedback();
-  }, [byteId, fingerprint]);
+    fetchHistory();
+  }, [byteId, courseId, fingerprint, identity, ready, fetchHistory, syncVersion]);
 
   const submitFeedback = useCallback(async (rating: number, comment?: string) => {
-    if (!fingerprint || isSubmitting) return false;
+    if (!ready || isSubmitting) return false;
 
     setIsSubmitting(true);
+    setSubmitError(null);
+
+    const args = {
+      p_course_id: courseId,
+      p_byte_id: byteId,
+      p_fingerprint: fingerprint,
+      p_rating: rating,
+      p_comment: comment || '',
+      p_claim_token: claimToken ?? undefined,
+    };
 
     try {
-      const { data, error } = await supabase
-        .from('video_feedback')
-        .insert({
-          byte_id: byteId,
-          user_fingerprint: fingerprint,
+      // Creates or replaces the caller's rating; identity is resolved server-side
+      const { data: rows, error } = await supabase.rpc('submit_feedback', args);
+
+      if (error) throw error;
+
+      // An older offline rating must not replay over this one
+      removeQueuedWrite(identity, 'feedback', courseId, byteId);
+      const data = rows?.[0];
+      if (data) {
+        setUserFeedback({
+          id: data.id,
+          rating: data.rating,
+          comment: data.comment,
+          created_at: data.created_at,
+          updated_at: data.updated_at,
+        });
+      }
+      fetchHistory();
+
+      return true;
+    } catch (error) {
+      // Offline - keep the rating locally and send it when the connection returns
+      if (isNetworkError(error)) {
+        enqueueWrite(identity, { rpc: 'submit_feedback', args });
+        const now = new Date().toISOString();
+        setUserFeedback(prev => ({
+          id: prev?.id ?? 'queued',
           rating,
           comment: comment || null,
-        })
-        .select()
-        .single();
+          created_at: prev?.created_at ?? now,
+          updated_at: now,
+        }));
+        return true;
+      }
+
+      console.error('Error submitting feedback:', error);
+      setSubmitError(getErrorMessage(error, 'send'));
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [byteId, courseId, fingerprint, identity, claimToken, ready, isSubmitting, fetchHistory]);
+
+  // Remove the current rating; earlier versions stay in the history
+  const deleteFeedback = useCallback(async () => {
+    if (!ready || isSubmitting || !userFeedback) return false;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    const args = { p_course_id: courseId, p_byte_id: byteId, p_fingerprint: fingerprint };
+
+    try {
+      const { error } = await supabase.rpc('delete_my_feedback', args);
 
       if (error) throw error;
 
-      setUserFeedback({
-        id: data.id,
-        rating: data.rating,
-        comment: data.comment,
-        created_at: data.created_at,
-      });
+      removeQueuedWrite(identity, 'feedback', courseId, byteId);
+      setUserFeedback(null);
+      fetchHistory();
 
       return true;
     } catch (error) {
-      console.error('Error submitting feedback:', error);
+      if (isNetworkError(error)) {
+        enqueueWrite(identity, { rpc: 'delete_my_feedback', args });
+        setUserFeedback(null);
+        return true;
+      }
+
+      console.error('Error deleting feedback:', error);
+      setSubmitError(getErrorMessage(error, 'delete'));
       return false;
     } finally {
       setIsSubmitting(false);
     }
-  }, [byteId, fingerprint, isSubmitting]);
+  }, [byteId, courseId, fingerprint, identity, ready, isSubmitting, userFeedback, fetchHistory]);
 
-  return { userFeedback, submitFeedback, isSubmitting };
+  return { userFeedback, history, submitFeedback, deleteFeedback, isSubmitting, submitError };
 }
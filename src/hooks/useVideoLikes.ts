@@ -1,74 +1,107 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useFingerprint } from './useFingerprint';
+import { toast } from '@/hooks/use-toast';
+import { isRateLimited } from '@/lib/rateLimit';
+import {
+  QueuedWrite,
+  enqueueWrite,
+  getQueuedWrite,
+  isNetworkError,
+  removeQueuedWrite,
+  subscribeWriteQueue,
+} from '@/lib/writeQueue';
+import { useIdentity } from './useIdentity';
+import { useCourse } from './useCourse';
 
 export function useVideoLikes(byteId: string) {
   const [likesCount, setLikesCount] = useState(0);
   const [isLiked, setIsLiked] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const fingerprint = useFingerprint();
+  const { fingerprint, identity, claimToken, ready } = useIdentity();
+  const { id: courseId } = useCourse();
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  // Refetch once a like queued offline for this byte has been sent
+  useEffect(() => {
+    let pending = getQueuedWrite(identity, 'like', courseId, byteId) !== null;
+    return subscribeWriteQueue(() => {
+      const stillPending = getQueuedWrite(identity, 'like', courseId, byteId) !== null;
+      if (pending && !stillPending) setSyncVersion(prev => prev + 1);
+      pending = stillPending;
+    });
+  }, [courseId, byteId, identity]);
 
   // Fetch likes count and check if user has liked
   useEffect(() => {
-    if (!byteId || !fingerprint) return;
+    if (!byteId || !ready) return;
 
     const fetchLikes = async () => {
-      // Get total likes count
-      const { count } = await supabase
-        .from('video_likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('byte_id', byteId);
+      // Raw likes aren't readable, so counts and own likes come from RPCs
+      const { data: count } = await supabase.rpc('get_like_count', {
+        p_course_id: courseId,
+        p_byte_id: byteId,
+      });
 
-      setLikesCount(count || 0);
+      // Check if current user has liked (account when signed in, else fingerprint)
+      const { data: liked } = await supabase.rpc('has_liked', {
+        p_course_id: courseId,
+        p_byte_id: byteId,
+        p_fingerprint: fingerprint,
+      });
 
-      // Check if current user has liked
-      const { data } = await supabase
-        .from('video_likes')
-        .select('id')
-        .eq('byte_id', byteId)
-        .eq('user_fingerprint', fingerprint)
-        .maybeSingle();
+      // A like or unlike still waiting to be sent wins over the server's answer
+      const queued = getQueuedWrite(identity, 'like', courseId, byteId);
+      const isLikedNow = queued ? queued.rpc === 'add_like' : !!liked;
+      const adjustment = isLikedNow === !!liked ? 0 : isLikedNow ? 1 : -1;
 
-      setIsLiked(!!data);
+      setLikesCount(Math.max(0, (count || 0) + adjustment));
+      setIsLiked(isLikedNow);
     };
 
     fetchLikes();
-  }, [byteId, fingerprint]);
+  }, [byteId, courseId, fingerprint, identity, ready, syncVersion]);
 
   const toggleLike = useCallback(async () => {
-    if (!fingerprint || isLoading) return;
+    if (!ready || isLoading) return;
 
     setIsLoading(true);
 
-    try {
-      if (isLiked) {
-        // Unlike
-        await supabase
-          .from('video_likes')
-          .delete()
-          .eq('byte_id', byteId)
-          .eq('user_fingerprint', fingerprint);
+    // Written server-side so identity and rate limits can't be forged
+    const args = { p_course_id: courseId, p_byte_id: byteId, p_fingerprint: fingerprint };
+    const write: QueuedWrite = isLiked
+      ? { rpc: 'remove_like', args }
+      : { rpc: 'add_like', args: { ...args, p_claim_token: claimToken ?? undefined } };
+    const applyToggle = () => {
+      setIsLiked(!isLiked);
+      setLikesCount(prev => (isLiked ? Math.max(0, prev - 1) : prev + 1));
+    };
 
-        setIsLiked(false);
-        setLikesCount(prev => Math.max(0, prev - 1));
-      } else {
-        // Like
-        await supabase
-          .from('video_likes')
-          .insert({
-            byte_id: byteId,
-            user_fingerprint: fingerprint,
-          });
+    try {
+      const { error } = await supabase.rpc(write.rpc, write.args);
+      if (error) throw error;
 
-        setIsLiked(true);
-        setLikesCount(prev => prev + 1);
-      }
+      // An older offline toggle must not replay over this one
+      removeQueuedWrite(identity, 'like', courseId, byteId);
+      applyToggle();
     } catch (error) {
+      // Offline - keep the like locally and send it when the connection returns
+      if (isNetworkError(error)) {
+        enqueueWrite(identity, write);
+        applyToggle();
+        return;
+      }
+
       console.error('Error toggling like:', error);
+      if (isRateLimited(error)) {
+        toast({
+          title: 'Slow down a little',
+          description: 'Too many likes in a short time. Try again in a few minutes.',
+        });
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [byteId, fingerprint, isLiked, isLoading]);
+  }, [byteId, courseId, fingerprint, identity, claimToken, ready, isLiked, isLoading]);
 
   return { likesCount, isLiked, toggleLike, isLoading };
 }
@@ -1,119 +1,107 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useProgressSync } from './useProgressSync';
+import { PlaybackTiming } from '@/lib/videoProviders';
+import { mergeProgress, normalizeProgress } from '@/lib/progress';
+import { getCourseStorageKey } from '@/types/course';
+import { COMPLETION_THRESHOLD, VideoProgress, VideoProgressData } from '@/types/progress';
 
 const PROGRESS_STORAGE_KEY = 'concept-capsule-progress-v3';
 
-interface VideoProgressData {
-  watchedSeconds: number;
-  duration: number;
-  percentage: number;
-  lastWatched: number;
-  isCompleted: boolean;
-}
+// Position jumps larger than this between samples are seeks or loops, not watching
+const MAX_PLAYBACK_GAP = 3;
 
-interface VideoProgress {
-  [byteId: string]: VideoProgressData;
+export interface PlaybackSample {
+  position: number;
+  duration: number;
+  timing: PlaybackTiming;
 }
 
-export function useVideoProgress() {
+export function useVideoProgress(courseId: string) {
   const [progress, setProgress] = useState<VideoProgress>({});
+  const storageKey = getCourseStorageKey(PROGRESS_STORAGE_KEY, courseId);
 
   // Load and normalize progress from localStorage on mount
   useEffect(() => {
     try {
-      const stored = localStorage.getItem(PROGRESS_STORAGE_KEY);
+      const stored = localStorage.getItem(storageKey);
       if (stored) {
         const parsed: VideoProgress = JSON.parse(stored);
         
         // Normalize legacy data: ensure completed items have 100% and fix inconsistencies
-        let needsUpdate = false;
-        const normalized = Object.entries(parsed).reduce((acc, [byteId, data]) => {
-          let updatedData = { ...data };
-          
-          // If marked completed but percentage isn't 100, fix it
-          if (data.isCompleted && data.percentage !== 100) {
-            updatedData.percentage = 100;
-            needsUpdate = true;
-          }
-          
-          // If percentage >= 95 but not marked completed, mark it
-          if (data.percentage >= 95 && !data.isCompleted) {
-            updatedData.isCompleted = true;
-            updatedData.percentage = 100;
-            needsUpdate = true;
-          }
-          
-          acc[byteId] = updatedData;
-          return acc;
-        }, {} as VideoProgress);
+        const { progress: normalized, changed: needsUpdate } = normalizeProgress(parsed);
         
         setProgress(normalized);
         
         // Save normalized data back if we made changes
         if (needsUpdate) {
-          localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(normalized));
+          localStorage.setItem(storageKey, JSON.stringify(normalized));
         }
       }
     } catch (error) {
       console.error('Error loading progress:', error);
     }
-  }, []);
+  }, [storageKey]);
 
   // Save progress to localStorage
   const saveProgress = useCallback((newProgress: VideoProgress) => {
     try {
-      localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(newProgress));
+      localStorage.setItem(storageKey, JSON.stringify(newProgress));
     } catch (error) {
       console.error('Error saving progress:', error);
     }
-  }, []);
+  }, [storageKey]);
 
-  // Update progress for a video (percentage-based)
-  const updateProgress = useCallback((byteId: string, percentage: number) => {
-    if (!byteId || percentage < 0) return;
+  // Merge progress from other devices into local state
+  const applyRemoteProgress = useCallback((remote: VideoProgress) => {
+    setProgress(prev => {
+      const merged = mergeProgress(prev, remote);
+      saveProgress(merged);
+      return merged;
+    });
+  }, [saveProgress]);
+
+  const { queueUpsert, queueRemoval, queueReset } = useProgressSync(courseId, progress, applyRemoteProgress);
+
+  // Record a playback sample reported by the player
+  const updateProgress = useCallback((byteId: string, sample: PlaybackSample) => {
+    if (!byteId || !sample.duration || sample.position < 0) return;
     
-    const clampedPercentage = Math.min(percentage, 100);
+    const position = Math.min(sample.position, sample.duration);
     
     setProgress(prev => {
       const existing = prev[byteId];
       
-      // If already completed, ensure it stays at 100% (repair if needed)
-      if (existing?.isCompleted) {
-        if (existing.percentage !== 100) {
-          // Repair inconsistent state
-          const repairedProgress = {
-            ...prev,
-            [byteId]: { ...existing, percentage: 100 },
-          };
-          saveProgress(repairedProgress);
-          return repairedProgress;
-        }
-        return prev; // Already correct, no change needed
-      }
-      
-      // Don't decrease progress (no rewinding effects)
-      if (existing && existing.percentage > clampedPercentage) {
-        return prev;
-      }
-
-      // If reaching completion threshold, lock to 100%
-      const isNowCompleted = clampedPercentage >= 95;
-      const finalPercentage = isNowCompleted ? 100 : clampedPercentage;
+      // Only continuous forward playback counts as watched time (no seeking or rewinding effects)
+      const delta = position - (existing?.lastPosition || 0);
+      const watchedDelta = delta > 0 && delta <= MAX_PLAYBACK_GAP ? delta : 0;
+      const watchedSeconds = Math.min((existing?.watchedSeconds || 0) + watchedDelta, sample.duration);
+      const watchedPercentage = (watchedSeconds / sample.duration) * 100;
+
+      // Completed videos stay at 100%; otherwise lock to 100% once the threshold is reached
+      const isNowCompleted = existing?.isCompleted || watchedPercentage >= COMPLETION_THRESHOLD;
+      const finalPercentage = isNowCompleted
+        ? 100
+        : Math.max(existing?.percentage || 0, watchedPercentage);
 
       const newProgress = {
         ...prev,
         [byteId]: {
-          watchedSeconds: 0,
-          duration: 0,
+          watchedSeconds,
+          duration: sample.duration,
           percentage: finalPercentage,
+          lastPosition: position,
           lastWatched: Date.now(),
           isCompleted: isNowCompleted,
+          timing: sample.timing,
+          quiz: existing?.quiz,
         },
       };
       
       saveProgress(newProgress);
       return newProgress;
     });
-  }, [saveProgress]);
+    queueUpsert(byteId);
+  }, [saveProgress, queueUpsert]);
 
   // Mark video as completed
   const markCompleted = useCallback((byteId: string) => {
@@ -124,6 +112,7 @@ export function useVideoProgress() {
         watchedSeconds: 0, 
         duration: 0, 
         percentage: 100,
+        lastPosition: 0,
         lastWatched: Date.now(),
         isCompleted: false,
       };
@@ -141,7 +130,36 @@ export function useVideoProgress() {
       saveProgress(newProgress);
       return newProgress;
     });
-  }, [saveProgress]);
+    queueUpsert(byteId);
+  }, [saveProgress, queueUpsert]);
+
+  // Store the latest quiz attempt; it doesn't change watch completion
+  const recordQuizResult = useCallback((byteId: string, correct: number, total: number) => {
+    if (!byteId || total <= 0) return;
+
+    setProgress(prev => {
+      const existing = prev[byteId] || {
+        watchedSeconds: 0,
+        duration: 0,
+        percentage: 0,
+        lastPosition: 0,
+        lastWatched: Date.now(),
+        isCompleted: false,
+      };
+
+      const newProgress = {
+        ...prev,
+        [byteId]: {
+          ...existing,
+          quiz: { correct, total, attemptedAt: Date.now() },
+        },
+      };
+
+      saveProgress(newProgress);
+      return newProgress;
+    });
+    queueUpsert(byteId);
+  }, [saveProgress, queueUpsert]);
 
   // Get progress for a specific video
   const getProgress = useCallback((byteId: string): VideoProgressData | null => {
@@ -169,18 +187,19 @@ export function useVideoProgress() {
   const shouldAutoComplete = useCallback((byteId: string): boolean => {
     const data = progress[byteId];
     if (!data || data.isCompleted) return false;
-    return data.percentage >= 95;
+    return data.percentage >= COMPLETION_THRESHOLD;
   }, [progress]);
 
   // Reset all progress (clear localStorage and state)
   const resetAllProgress = useCallback(() => {
     try {
-      localStorage.removeItem(PROGRESS_STORAGE_KEY);
+      localStorage.removeItem(storageKey);
       setProgress({});
+      queueReset();
     } catch (error) {
       console.error('Error resetting progress:', error);
     }
-  }, []);
+  }, [storageKey, queueReset]);
 
   // Reset progress for a single video
   const resetVideoProgress = useCallback((byteId: string) => {
@@ -191,12 +210,14 @@ export function useVideoProgress() {
       saveProgress(rest);
       return rest;
     });
-  }, [saveProgress]);
+    queueRemoval(byteId);
+  }, [saveProgress, queueRemoval]);
 
   return {
     progress,
     updateProgress,
     markCompleted,
+    recordQuizResult,
     getProgress,
     isCompleted,
     getCompletedVideos,
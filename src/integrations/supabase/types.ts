@@ -14,63 +14,360 @@ export type Database = {
   }
   public: {
     Tables: {
+      claimed_fingerprints: {
+        Row: {
+          claimed_at: string
+          fingerprint: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          fingerprint: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string
+          fingerprint?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       video_feedback: {
         Row: {
           byte_id: string
+          claim_token_hash: string | null
           comment: string | null
+          course_id: string
           created_at: string
           id: string
           rating: number
+          updated_at: string
           user_fingerprint: string
+          user_id: string | null
         }
         Insert: {
           byte_id: string
+          claim_token_hash?: string | null
           comment?: string | null
+          course_id?: string
           created_at?: string
           id?: string
           rating: number
+          updated_at?: string
           user_fingerprint: string
+          user_id?: string | null
         }
         Update: {
           byte_id?: string
+          claim_token_hash?: string | null
           comment?: string | null
+          course_id?: string
           created_at?: string
           id?: string
           rating?: number
+          updated_at?: string
           user_fingerprint?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      video_feedback_history: {
+        Row: {
+          byte_id: string
+          change: string
+          comment: string | null
+          course_id: string
+          created_at: string
+          feedback_id: string
+          id: string
+          rating: number
+          superseded_at: string
+          user_fingerprint: string
+          user_id: string | null
+        }
+        Insert: {
+          byte_id: string
+          change: string
+          comment?: string | null
+          course_id: string
+          created_at: string
+          feedback_id: string
+          id?: string
+          rating: number
+          superseded_at?: string
+          user_fingerprint: string
+          user_id?: string | null
+        }
+        Update: {
+          byte_id?: string
+          change?: string
+          comment?: string | null
+          course_id?: string
+          created_at?: string
+          feedback_id?: string
+          id?: string
+          rating?: number
+          superseded_at?: string
+          user_fingerprint?: string
+          user_id?: string | null
         }
         Relationships: []
       }
       video_likes: {
         Row: {
           byte_id: string
+          claim_token_hash: string | null
+          course_id: string
           created_at: string
           id: string
           user_fingerprint: string
+          user_id: string | null
         }
         Insert: {
           byte_id: string
+          claim_token_hash?: string | null
+          course_id?: string
           created_at?: string
           id?: string
           user_fingerprint: string
+          user_id?: string | null
         }
         Update: {
           byte_id?: string
+          claim_token_hash?: string | null
+          course_id?: string
           created_at?: string
           id?: string
           user_fingerprint?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      video_progress: {
+        Row: {
+          byte_id: string
+          course_id: string
+          duration: number
+          id: string
+          is_completed: boolean
+          last_position: number
+          last_watched: string
+          percentage: number
+          quiz_attempted_at: string | null
+          quiz_correct: number | null
+          quiz_total: number | null
+          timing: string | null
+          updated_at: string
+          user_id: string
+          watched_seconds: number
+        }
+        Insert: {
+          byte_id: string
+          course_id: string
+          duration?: number
+          id?: string
+          is_completed?: boolean
+          last_position?: number
+          last_watched?: string
+          percentage?: number
+          quiz_attempted_at?: string | null
+          quiz_correct?: number | null
+          quiz_total?: number | null
+          timing?: string | null
+          updated_at?: string
+          user_id: string
+          watched_seconds?: number
+        }
+        Update: {
+          byte_id?: string
+          course_id?: string
+          duration?: number
+          id?: string
+          is_completed?: boolean
+          last_position?: number
+          last_watched?: string
+          percentage?: number
+          quiz_attempted_at?: string | null
+          quiz_correct?: number | null
+          quiz_total?: number | null
+          timing?: string | null
+          updated_at?: string
+          user_id?: string
+          watched_seconds?: number
+        }
+        Relationships: []
+      }
+      write_rate_events: {
+        Row: {
+          action: string
+          created_at: string
+          id: number
+          identity: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: number
+          identity: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: number
+          identity?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      course_engagement_summary: {
+        Row: {
+          avg_rating: number | null
+          course_id: string | null
+          total_feedback: number | null
+          total_likes: number | null
+          unique_users: number | null
+        }
+        Relationships: []
+      }
+      video_engagement_stats: {
+        Row: {
+          avg_rating: number | null
+          byte_id: string | null
+          course_id: string | null
+          feedback_count: number | null
+          likes: number | null
+          rating_1: number | null
+          rating_2: number | null
+          rating_3: number | null
+          rating_4: number | null
+          rating_5: number | null
+        }
+        Relationships: []
+      }
+      video_feedback_comments: {
+        Row: {
+          byte_id: string | null
+          comment: string | null
+          course_id: string | null
+          created_at: string | null
+          rating: number | null
+          reviewer_number: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      add_like: {
+        Args: {
+          p_byte_id: string
+          p_claim_token?: string
+          p_course_id: string
+          p_fingerprint: string
+        }
+        Returns: undefined
+      }
+      claim_fingerprint_activity: {
+        Args: { p_claim_token: string; p_fingerprint: string }
+        Returns: number
+      }
+      delete_my_feedback: {
+        Args: { p_byte_id: string; p_course_id: string; p_fingerprint: string }
+        Returns: undefined
+      }
+      get_like_count: {
+        Args: { p_byte_id: string; p_course_id: string }
+        Returns: number
+      }
+      get_my_feedback: {
+        Args: { p_byte_id: string; p_course_id: string; p_fingerprint: string }
+        Returns: {
+          comment: string
+          created_at: string
+          id: string
+          rating: number
+          updated_at: string
+        }[]
+      }
+      get_my_feedback_history: {
+        Args: { p_byte_id: string; p_course_id: string; p_fingerprint: string }
+        Returns: {
+          change: string
+          comment: string
+          created_at: string
+          rating: number
+          superseded_at: string
+        }[]
+      }
+      hash_claim_token: {
+        Args: { p_claim_token: string }
+        Returns: string
+      }
+      has_liked: {
+        Args: { p_byte_id: string; p_course_id: string; p_fingerprint: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      merge_video_progress: {
+        Args: { p_course_id: string; p_entries: Json }
+        Returns: undefined
+      }
+      remove_like: {
+        Args: { p_byte_id: string; p_course_id: string; p_fingerprint: string }
+        Returns: undefined
+      }
+      request_identity: {
+        Args: { p_fingerprint: string }
+        Returns: string
+      }
+      request_ip: { Args: Record<PropertyKey, never>; Returns: string }
+      submit_feedback: {
+        Args: {
+          p_byte_id: string
+          p_claim_token?: string
+          p_comment: string
+          p_course_id: string
+          p_fingerprint: string
+          p_rating: number
+        }
+        Returns: {
+          comment: string
+          created_at: string
+          id: string
+          rating: number
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -197,6 +494,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
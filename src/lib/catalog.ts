@@ -0,0 +1,330 @@
+/**
+ * Content validation for the course manifest (/data/courses.json) and
+ * each course's byte catalog (e.g. /data/bytes.json)
+ *
+ * Shared by useBytes at runtime and the catalog check in vite.config.ts at
+ * build time, so imports here stay relative (no "@/" alias in the config).
+ */
+
+import { z } from 'zod';
+import { Byte } from '../types/byte';
+import { Course } from '../types/course';
+import { extractDriveFileId } from './driveUrl';
+import { resolveVideoSource } from './videoProviders';
+
+const TOPIC_COLORS = [
+  'violet', 'emerald', 'amber', 'rose', 'cyan', 'indigo',
+  'pink', 'orange', 'teal', 'blue', 'purple', 'lime',
+] as const;
+
+export const courseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'must be lowercase letters, digits or dashes'),
+  title: z.string().min(1),
+  tagline: z.string().min(1),
+  description: z.string().min(1),
+  catalog: z.string().startsWith('/'),
+  topics: z.array(z.object({
+    key: z.string().min(1),
+    label: z.string().min(1),
+    color: z.enum(TOPIC_COLORS).optional(),
+  })).min(1),
+  branding: z.object({
+    hue: z.number().min(0).max(360).optional(),
+  }).optional(),
+});
+
+export const byteSchema = z.object({
+  byte_id: z.string().min(1),
+  byte_name: z.string().min(1),
+  byte_description: z.string().min(1),
+  byte_topics: z.array(z.string().min(1)).min(1),
+  // Relative paths are fine for self-hosted files; checkVideoUrl decides what can play
+  byte_url: z.string().min(1),
+  duration: z.number().positive().optional(),
+  captions: z.array(z.object({
+    url: z.string().min(1),
+    language: z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]+)*$/, 'must be a language tag like "en" or "pt-BR"'),
+    label: z.string().min(1).optional(),
+    default: z.boolean().optional(),
+  })).optional(),
+  exercise: z.object({
+    prompt: z.string().min(1),
+    starter_code: z.string(),
+    tests: z.array(z.object({
+      name: z.string().min(1),
+      code: z.string().min(1),
+    })).optional(),
+    expected_output: z.string().optional(),
+  }).optional(),
+  quiz: z.array(z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('multiple_choice'),
+      question: z.string().min(1),
+      options: z.array(z.string().min(1)).min(2),
+      answer: z.number().int().min(0),
+      explanation: z.string().min(1).optional(),
+    }),
+    z.object({
+      type: z.literal('fill_blank'),
+      question: z.string().min(1),
+      answers: z.array(z.string().min(1)).min(1),
+      explanation: z.string().min(1).optional(),
+    }),
+  ])).optional(),
+  prerequisites: z.array(z.string().min(1)).optional(),
+});
+
+export type CatalogIssueSeverity = 'error' | 'warning';
+
+export interface CatalogIssue {
+  severity: CatalogIssueSeverity;
+  // Position in the catalog array
+  index: number;
+  byteId: string | null;
+  message: string;
+}
+
+export interface CourseManifestValidationResult {
+  courses: Course[];
+  issues: CatalogIssue[];
+}
+
+export interface CatalogValidationResult {
+  // Entries that can be played; broken ones are left out
+  bytes: Byte[];
+  issues: CatalogIssue[];
+}
+
+function checkVideoUrl(url: string): string | null {
+  const source = resolveVideoSource(url);
+  if (source.provider !== 'drive' || source.mediaId) return null;
+
+  // Unrecognised URLs fall back to Drive, so a missing file ID means it can't play
+  if (url.includes('drive.google.com') && !extractDriveFileId(url)) {
+    return `Malformed Google Drive URL (no file ID): ${url}`;
+  }
+  return `Unsupported video URL: ${url}`;
+}
+
+/**
+ * Prerequisites must name other bytes in the catalog and must not loop.
+ * Bad links are reported and dropped so the bytes still play.
+ */
+function checkPrerequisites(bytes: Byte[], indexById: Map<string, number>, issues: CatalogIssue[]) {
+  const byId = new Map(bytes.map(byte => [byte.byte_id, byte]));
+  const addIssue = (byte: Byte, message: string) => {
+    issues.push({ severity: 'error', index: indexById.get(byte.byte_id) ?? -1, byteId: byte.byte_id, message });
+  };
+  const setPrerequisites = (byte: Byte, ids: string[]) => {
+    byte.prerequisites = ids.length > 0 ? ids : undefined;
+  };
+
+  bytes.forEach(byte => {
+    if (!byte.prerequisites) return;
+    setPrerequisites(byte, [...new Set(byte.prerequisites)].filter(id => {
+      if (id === byte.byte_id) {
+        addIssue(byte, 'Byte lists itself as a prerequisite');
+        return false;
+      }
+      if (!byId.has(id)) {
+        addIssue(byte, `Unknown prerequisite "${id}"`);
+        return false;
+      }
+      return true;
+    }));
+  });
+
+  // Depth-first: a link back to a byte still being visited closes a cycle
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (byte: Byte, path: string[]) => {
+    visiting.add(byte.byte_id);
+    setPrerequisites(byte, (byte.prerequisites ?? []).filter(id => {
+      if (visiting.has(id)) {
+        const cycle = [...path.slice(path.indexOf(id)), byte.byte_id, id];
+        addIssue(byte, `Prerequisite cycle: ${cycle.join(' -> ')}`);
+        return false;
+      }
+      if (!visited.has(id)) visit(byId.get(id)!, [...path, byte.byte_id]);
+      return true;
+    }));
+    visiting.delete(byte.byte_id);
+    visited.add(byte.byte_id);
+  };
+  bytes.forEach(byte => {
+    if (!visited.has(byte.byte_id)) visit(byte, []);
+  });
+}
+
+/**
+ * Validate the raw course manifest.
+ * Issues refer to courses by index and id the same way catalog issues refer to bytes.
+ */
+export function validateCourseManifest(data: unknown): CourseManifestValidationResult {
+  const issues: CatalogIssue[] = [];
+  const courses: Course[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push({ severity: 'error', index: -1, byteId: null, message: 'Course manifest must be a JSON array of courses' });
+    return { courses, issues };
+  }
+
+  const seenIds = new Set<string>();
+
+  data.forEach((entry, index) => {
+    const rawId = entry && typeof entry === 'object' && typeof entry.id === 'string' ? entry.id : null;
+    const addIssue = (message: string) => {
+      issues.push({ severity: 'error', index, byteId: rawId, message });
+    };
+
+    const parsed = courseSchema.safeParse(entry);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        addIssue(`${issue.path.join('.') || 'entry'}: ${issue.message}`);
+      });
+      return;
+    }
+
+    const course = parsed.data as Course;
+    if (seenIds.has(course.id)) {
+      addIssue(`Duplicate course id "${course.id}"`);
+      return;
+    }
+    seenIds.add(course.id);
+
+    const topicKeys = course.topics.map(t => t.key);
+    const duplicateTopic = topicKeys.find((key, i) => topicKeys.indexOf(key) !== i);
+    if (duplicateTopic) {
+      addIssue(`Duplicate topic "${duplicateTopic}"`);
+      return;
+    }
+
+    courses.push(course);
+  });
+
+  return { courses, issues };
+}
+
+/**
+ * Validate raw catalog JSON against the course's topics.
+ * Errors cover entries that are broken or unplayable; warnings cover
+ * entries that still work with fallbacks (e.g. the 30s default duration).
+ */
+export function validateCatalog(data: unknown, course: Course): CatalogValidationResult {
+  const issues: CatalogIssue[] = [];
+  const bytes: Byte[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push({ severity: 'error', index: -1, byteId: null, message: 'Catalog must be a JSON array of bytes' });
+    return { bytes, issues };
+  }
+
+  const seenIds = new Set<string>();
+  const indexById = new Map<string, number>();
+  const knownTopics = new Set(course.topics.map(t => t.key));
+
+  data.forEach((entry, index) => {
+    const rawId = entry && typeof entry === 'object' && typeof entry.byte_id === 'string'
+      ? entry.byte_id
+      : null;
+    const addIssue = (severity: CatalogIssueSeverity, message: string) => {
+      issues.push({ severity, index, byteId: rawId, message });
+    };
+
+    const parsed = byteSchema.safeParse(entry);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        const field = issue.path.join('.') || 'entry';
+        addIssue('error', `${field}: ${issue.message}`);
+      });
+      return;
+    }
+
+    const byte = parsed.data as Byte;
+
+    if (seenIds.has(byte.byte_id)) {
+      addIssue('error', `Duplicate byte_id "${byte.byte_id}"`);
+      return;
+    }
+    seenIds.add(byte.byte_id);
+    indexById.set(byte.byte_id, index);
+
+    const urlProblem = checkVideoUrl(byte.byte_url);
+    if (urlProblem) {
+      addIssue('error', urlProblem);
+      return;
+    }
+
+    // Unknown topics still play, but render as raw keys and sort last
+    byte.byte_topics
+      .filter(topic => !knownTopics.has(topic))
+      .forEach(topic => addIssue('warning', `Unknown topic "${topic}", shown as its raw key`));
+
+    if (byte.duration === undefined) {
+      addIssue('warning', 'Missing duration, progress will assume 30 seconds');
+    }
+
+    // Captions still load for the transcript, but only file/HLS playback shows them on the video
+    const captionLanguages = new Set<string>();
+    byte.captions?.forEach(caption => {
+      if (!/\.vtt($|[?#])/i.test(caption.url)) {
+        addIssue('warning', `Caption file is not WebVTT (.vtt): ${caption.url}`);
+      }
+      if (captionLanguages.has(caption.language)) {
+        addIssue('warning', `Duplicate caption language "${caption.language}"`);
+      }
+      captionLanguages.add(caption.language);
+    });
+    if ((byte.captions?.filter(caption => caption.default).length ?? 0) > 1) {
+      addIssue('warning', 'More than one default caption track');
+    }
+
+    // Without checks any code would pass
+    if (byte.exercise && !byte.exercise.tests?.length && byte.exercise.expected_output === undefined) {
+      addIssue('warning', 'Exercise has no tests or expected output, so any code passes');
+    }
+
+    // Questions that can't be answered correctly are left out of the quiz
+    if (byte.quiz) {
+      const quiz = byte.quiz.filter((question, questionIndex) => {
+        if (question.type === 'multiple_choice' && question.answer >= question.options.length) {
+          addIssue('error', `Quiz question ${questionIndex + 1} has no option ${question.answer}`);
+          return false;
+        }
+        if (question.type === 'fill_blank' && !question.question.includes('___')) {
+          addIssue('warning', `Quiz question ${questionIndex + 1} has no ___ blank`);
+        }
+        return true;
+      });
+      byte.quiz = quiz.length > 0 ? quiz : undefined;
+    }
+
+    bytes.push(byte);
+  });
+
+  checkPrerequisites(bytes, indexById, issues);
+
+  return { bytes, issues };
+}
+
+export function hasCatalogErrors(issues: CatalogIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Human-readable report, one line per issue
+ */
+export function formatCatalogReport(issues: CatalogIssue[], label = 'Catalog'): string {
+  if (issues.length === 0) return `${label} OK`;
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const lines = issues.map(issue => {
+    const location = issue.index < 0
+      ? 'catalog'
+      : `#${issue.index + 1}${issue.byteId ? ` (${issue.byteId})` : ''}`;
+    return `  ${issue.severity.toUpperCase()} ${location}: ${issue.message}`;
+  });
+
+  return [`${label} has ${errorCount} error(s) and ${warningCount} warning(s):`, ...lines].join('\n');
+}
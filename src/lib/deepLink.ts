@@ -0,0 +1,52 @@
+/**
+ * Shareable links to a byte, optionally at a timestamp
+ *
+ * /watch?byte=python_byte_12&t=14 for the default course,
+ * /courses/:courseId/watch?byte=...&t=... for the others.
+ * /watch/:byteId is accepted as well.
+ */
+
+import { DEFAULT_COURSE_ID } from '@/types/course';
+
+export const BYTE_PARAM = 'byte';
+export const TIME_PARAM = 't';
+
+export interface ByteDeepLink {
+  byteId: string;
+  // Start position in seconds, null to use the saved position
+  startAt: number | null;
+}
+
+export function getWatchPath(courseId: string): string {
+  return courseId === DEFAULT_COURSE_ID ? '/watch' : `/courses/${courseId}/watch`;
+}
+
+export function getReviewPath(courseId: string): string {
+  return courseId === DEFAULT_COURSE_ID ? '/review' : `/courses/${courseId}/review`;
+}
+
+/**
+ * Parse a t= value: plain seconds ("14", "14s") or m:ss ("1:05")
+ */
+export function parseTimeParam(value: string | null): number | null {
+  if (!value) return null;
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  const seconds = value.match(/^(\d+(?:\.\d+)?)s?$/);
+  return seconds ? Number(seconds[1]) : null;
+}
+
+// In-app path to a byte, for navigating without leaving the page
+export function getBytePath(courseId: string, byteId: string, startAt?: number): string {
+  const params = new URLSearchParams({ [BYTE_PARAM]: byteId });
+  if (startAt !== undefined && startAt >= 1) {
+    params.set(TIME_PARAM, String(Math.floor(startAt)));
+  }
+  return `${getWatchPath(courseId)}?${params.toString()}`;
+}
+
+export function buildByteLink(courseId: string, byteId: string, startAt?: number): string {
+  return `${window.location.origin}${getBytePath(courseId, byteId, startAt)}`;
+}
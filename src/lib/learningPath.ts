@@ -0,0 +1,120 @@
+/**
+ * Learning path: the playlist order that respects byte prerequisites, and
+ * what it means for the learner (locked bytes, what to watch next, and how
+ * topics build on each other)
+ */
+
+import { Byte } from '@/types/byte';
+import { Course } from '@/types/course';
+
+export interface TopicDependency {
+  // Topic to learn first
+  from: string;
+  to: string;
+}
+
+export interface TopicMap {
+  // Rows of topics; each only depends on topics in earlier rows
+  layers: string[][];
+  dependencies: TopicDependency[];
+}
+
+// The byte's first topic that the course knows, which decides its place in topic order
+const getPrimaryTopic = (byte: Byte, topicSequence: string[]): string | null => {
+  return byte.byte_topics.find(topic => topicSequence.includes(topic)) ?? null;
+};
+
+// Helper to get the priority of a byte based on its first topic in the course's sequence
+const getTopicPriority = (byte: Byte, topicSequence: string[]): number => {
+  const topic = getPrimaryTopic(byte, topicSequence);
+  return topic === null ? topicSequence.length : topicSequence.indexOf(topic); // Put unknown topics at the end
+};
+
+/**
+ * Topological order over prerequisites. Among the bytes whose prerequisites
+ * are placed, the earliest topic goes next, then catalog order.
+ * Expects a validated catalog (no cycles or unknown prerequisites).
+ */
+export function sortByLearningPath(bytes: Byte[], topicSequence: string[]): Byte[] {
+  const rank = new Map(bytes.map((byte, index) => [
+    byte.byte_id,
+    getTopicPriority(byte, topicSequence) * bytes.length + index,
+  ]));
+  const placed = new Set<string>();
+  const remaining = [...bytes].sort((a, b) => rank.get(a.byte_id)! - rank.get(b.byte_id)!);
+  const sorted: Byte[] = [];
+
+  while (remaining.length > 0) {
+    // Fall back to the first remaining byte rather than dropping any
+    const nextIndex = Math.max(
+      remaining.findIndex(byte => (byte.prerequisites ?? []).every(id => placed.has(id) || !rank.has(id))),
+      0
+    );
+    const [next] = remaining.splice(nextIndex, 1);
+    placed.add(next.byte_id);
+    sorted.push(next);
+  }
+
+  return sorted;
+}
+
+// Prerequisites of the byte that haven't been completed yet
+export function getMissingPrerequisites(byte: Byte, completedVideos: string[]): string[] {
+  return (byte.prerequisites ?? []).filter(id => !completedVideos.includes(id));
+}
+
+/**
+ * The first byte along the path that isn't completed and has all its
+ * prerequisites done
+ */
+export function getRecommendedNext(bytes: Byte[], completedVideos: string[]): Byte | null {
+  return bytes.find(byte =>
+    !completedVideos.includes(byte.byte_id) && getMissingPrerequisites(byte, completedVideos).length === 0
+  ) ?? null;
+}
+
+/**
+ * Topic-level dependencies from byte prerequisites, laid out in rows.
+ * A byte that covers its prerequisite's topic itself doesn't make its topic depend on it.
+ */
+export function getTopicMap(course: Course, bytes: Byte[]): TopicMap {
+  const topicSequence = course.topics.map(t => t.key);
+  const byId = new Map(bytes.map(byte => [byte.byte_id, byte]));
+  const keys = new Set<string>();
+  const dependencies: TopicDependency[] = [];
+
+  bytes.forEach(byte => {
+    const to = getPrimaryTopic(byte, topicSequence);
+    if (!to) return;
+    byte.prerequisites?.forEach(id => {
+      const prerequisite = byId.get(id);
+      const from = prerequisite && getPrimaryTopic(prerequisite, topicSequence);
+      if (!from || byte.byte_topics.includes(from) || keys.has(`${from}>${to}`)) return;
+      keys.add(`${from}>${to}`);
+      dependencies.push({ from, to });
+    });
+  });
+
+  // Each topic goes in the row after its last dependency. Topics can loop even
+  // when bytes don't; then the earliest remaining topic is placed anyway.
+  const topics = topicSequence.filter(topic => bytes.some(byte => getPrimaryTopic(byte, topicSequence) === topic));
+  const row = new Map<string, number>();
+  while (row.size < topics.length) {
+    const pending = topics.filter(topic => !row.has(topic));
+    const next = pending.find(topic =>
+      dependencies.every(dep => dep.to !== topic || row.has(dep.from))
+    ) ?? pending[0];
+    const after = dependencies
+      .filter(dep => dep.to === next && row.has(dep.from))
+      .map(dep => row.get(dep.from)! + 1);
+    row.set(next, Math.max(0, ...after));
+  }
+
+  const layers: string[][] = [];
+  topics.forEach(topic => {
+    const index = row.get(topic)!;
+    (layers[index] ??= []).push(topic);
+  });
+
+  return { layers: layers.filter(Boolean), dependencies };
+}
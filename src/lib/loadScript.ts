@@ -0,0 +1,27 @@
+/**
+ * Load an external script once and share the promise between callers
+ */
+
+const pendingScripts = new Map<string, Promise<void>>();
+
+export function loadScript(src: string): Promise<void> {
+  const pending = pendingScripts.get(src);
+  if (pending) return pending;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      // Allow a later retry to append a fresh script tag
+      pendingScripts.delete(src);
+      script.remove();
+      reject(new Error(`Failed to load script: ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+
+  pendingScripts.set(src, promise);
+  return promise;
+}
@@ -0,0 +1,120 @@
+/**
+ * Markdown helpers for notes: Python highlighting, clickable timestamp
+ * anchors, checklist toggling and the migration of plain-text notes
+ */
+
+import hljs from 'highlight.js/lib/core';
+import python from 'highlight.js/lib/languages/python';
+import { parseAnchorTime } from '@/lib/notes';
+
+hljs.registerLanguage('python', python);
+hljs.registerAliases(['py'], { languageName: 'python' });
+
+// Fenced blocks without a language are Python - it's what the capsules teach
+const DEFAULT_CODE_LANGUAGE = 'python';
+
+// Links to a timestamp anchor use #t=<seconds>
+export const ANCHOR_HREF_PREFIX = '#t=';
+
+/**
+ * Highlight a code block, returning escaped HTML.
+ * Languages other than Python are escaped but left uncolored.
+ */
+export function highlightCode(code: string, language?: string): string {
+  const lang = language || DEFAULT_CODE_LANGUAGE;
+  if (hljs.getLanguage(lang)) {
+    return hljs.highlight(code, { language: lang, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Minimal mdast shapes - only what the anchor plugin touches
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+}
+
+const TEXT_ANCHOR_PATTERN = /\[(\d+(?::[0-5]\d){1,2})\]/g;
+
+function splitAnchors(value: string): MdNode[] {
+  const nodes: MdNode[] = [];
+  let last = 0;
+  for (const match of value.matchAll(TEXT_ANCHOR_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push({ type: 'text', value: value.slice(last, index) });
+    nodes.push({
+      type: 'link',
+      url: `${ANCHOR_HREF_PREFIX}${parseAnchorTime(match[1])}`,
+      children: [{ type: 'text', value: match[1] }],
+    });
+    last = index + match[0].length;
+  }
+  if (last < value.length) nodes.push({ type: 'text', value: value.slice(last) });
+  return nodes;
+}
+
+/**
+ * remark plugin turning [m:ss] anchors in text into #t= links.
+ * Code spans and blocks are separate node types, so they're left alone.
+ */
+export function remarkTimestampAnchors() {
+  const transform = (node: MdNode) => {
+    if (!node.children || node.type === 'link') return;
+    node.children = node.children.flatMap(child =>
+      child.type === 'text' && child.value ? splitAnchors(child.value) : [child]
+    );
+    node.children.forEach(transform);
+  };
+  return transform;
+}
+
+export function parseAnchorHref(href: string | undefined): number | null {
+  if (!href?.startsWith(ANCHOR_HREF_PREFIX)) return null;
+  const position = Number(href.slice(ANCHOR_HREF_PREFIX.length));
+  return Number.isFinite(position) ? position : null;
+}
+
+const TASK_ITEM_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/;
+
+/**
+ * Tick or untick the checklist item starting on a (1-based) source line
+ */
+export function toggleChecklistItem(content: string, line: number): string {
+  const lines = content.split('\n');
+  const index = line - 1;
+  if (!lines[index]?.match(TASK_ITEM_PATTERN)) return content;
+
+  lines[index] = lines[index].replace(TASK_ITEM_PATTERN, (_, marker: string, state: string) =>
+    `${marker}[${state === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Escape a plain-text note so it renders exactly as it was typed.
+ * Timestamp anchors are kept as they are; line breaks already render as
+ * typed (remark-breaks).
+ */
+export function plainToMarkdown(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line
+      .replace(/([\\`*_{}[\]<>|~&])/g, '\\$1')
+      .replace(/\\\[(\d+(?::[0-5]\d){1,2})\\\]/g, '[$1]')
+      // Line starts that would become code, headings, quotes, lists or rules
+      .replace(/^[ \t]+/, indent => indent.replace(/\t/g, '    ').replace(/ /g, '&nbsp;'))
+      .replace(/^([#>+=-])/, '\\$1')
+      .replace(/^(\d+)([.)])/, '$1\\$2'))
+    .join('\n');
+}
@@ -0,0 +1,84 @@
+/**
+ * Topic mastery: how well a learner knows each topic, from how much of its
+ * bytes they watched and how they did on the bytes' quizzes
+ */
+
+import { Byte } from '@/types/byte';
+import { Course, getTopicsAlphabetical } from '@/types/course';
+import { VideoProgress } from '@/types/progress';
+
+// Share of mastery that comes from quizzes, for topics that have any
+const QUIZ_WEIGHT = 0.5;
+
+export type MasteryLevel = 'not_started' | 'learning' | 'proficient' | 'mastered';
+
+export interface TopicMastery {
+  topic: string;
+  // 0-1, averaged over the topic's bytes
+  watch: number;
+  // 0-1 over all quiz questions in the topic; null when it has no quizzes
+  quiz: number | null;
+  // Quizzes taken / available
+  quizzesTaken: number;
+  quizzesAvailable: number;
+  mastery: number;
+  level: MasteryLevel;
+}
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  not_started: 'Not started',
+  learning: 'Learning',
+  proficient: 'Proficient',
+  mastered: 'Mastered',
+};
+
+export function getMasteryLevel(mastery: number): MasteryLevel {
+  if (mastery >= 0.85) return 'mastered';
+  if (mastery >= 0.6) return 'proficient';
+  if (mastery > 0) return 'learning';
+  return 'not_started';
+}
+
+/**
+ * Quizzes not taken yet count as no correct answers, so a topic is only
+ * mastered once its quizzes have been passed too
+ */
+export function getTopicMastery(course: Course, bytes: Byte[], progress: VideoProgress): TopicMastery[] {
+  return getTopicsAlphabetical(course)
+    .map(topic => {
+      const topicBytes = bytes.filter(byte => byte.byte_topics.includes(topic));
+      if (topicBytes.length === 0) return null;
+
+      const watch = topicBytes.reduce((total, byte) => {
+        const data = progress[byte.byte_id];
+        return total + (data?.isCompleted ? 1 : (data?.percentage ?? 0) / 100);
+      }, 0) / topicBytes.length;
+
+      const quizBytes = topicBytes.filter(byte => byte.quiz?.length);
+      let correct = 0;
+      let questions = 0;
+      let quizzesTaken = 0;
+      quizBytes.forEach(byte => {
+        const result = progress[byte.byte_id]?.quiz;
+        if (result) quizzesTaken++;
+        // Scored against the current quiz, which may have changed since the attempt
+        const total = byte.quiz?.length ?? 0;
+        questions += total;
+        correct += result ? Math.min(result.correct / result.total, 1) * total : 0;
+      });
+
+      const quiz = questions > 0 ? correct / questions : null;
+      const mastery = quiz === null ? watch : watch * (1 - QUIZ_WEIGHT) + quiz * QUIZ_WEIGHT;
+
+      return {
+        topic,
+        watch,
+        quiz,
+        quizzesTaken,
+        quizzesAvailable: quizBytes.length,
+        mastery,
+        level: getMasteryLevel(mastery),
+      };
+    })
+    .filter((entry): entry is TopicMastery => entry !== null);
+}
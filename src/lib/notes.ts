@@ -0,0 +1,64 @@
+/**
+ * Per-byte notes and their timestamp anchors
+ *
+ * Anchors are written inline as [m:ss] (or [h:mm:ss]) so notes stay plain
+ * text that reads fine when exported.
+ */
+
+import { formatTimestamp } from '@/lib/time';
+import { Byte } from '@/types/byte';
+import { Course } from '@/types/course';
+import { CourseNotes, NoteAnchor } from '@/types/notes';
+
+const ANCHOR_PATTERN = /\[(\d+(?::[0-5]\d){1,2})\]/g;
+
+export function formatAnchor(position: number): string {
+  return `[${formatTimestamp(position)}]`;
+}
+
+// "1:05" -> 65, "1:02:03" -> 3723
+export function parseAnchorTime(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function extractAnchors(content: string): NoteAnchor[] {
+  const anchors: NoteAnchor[] = [];
+  for (const line of content.split('\n')) {
+    for (const match of line.matchAll(ANCHOR_PATTERN)) {
+      anchors.push({
+        position: parseAnchorTime(match[1]),
+        label: match[1],
+        text: line.replace(ANCHOR_PATTERN, '').trim(),
+      });
+    }
+  }
+  return anchors;
+}
+
+export interface NotesTopicGroup {
+  topic: string;
+  bytes: Byte[];
+}
+
+/**
+ * Bytes that have notes, grouped under their first topic in the course's
+ * topic order. Bytes whose topics aren't in the course come last.
+ */
+export function groupNotesByTopic(course: Course, bytes: Byte[], notes: CourseNotes): NotesTopicGroup[] {
+  const topicOrder = course.topics.map(t => t.key);
+  const groups = new Map<string, Byte[]>();
+
+  for (const byte of bytes) {
+    if (!notes[byte.byte_id]) continue;
+    const topic = byte.byte_topics.find(t => topicOrder.includes(t)) ?? byte.byte_topics[0] ?? '';
+    groups.set(topic, [...(groups.get(topic) ?? []), byte]);
+  }
+
+  const rank = (topic: string) => {
+    const index = topicOrder.indexOf(topic);
+    return index === -1 ? topicOrder.length : index;
+  };
+
+  return Array.from(groups, ([topic, groupBytes]) => ({ topic, bytes: groupBytes }))
+    .sort((a, b) => rank(a.topic) - rank(b.topic));
+}
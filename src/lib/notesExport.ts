@@ -0,0 +1,250 @@
+/**
+ * Notes exports: Markdown, a printable PDF (built in the browser with jsPDF)
+ * and Anki-importable CSV/TSV cards
+ */
+
+import { groupNotesByTopic } from '@/lib/notes';
+import { plainToMarkdown } from '@/lib/markdown';
+import { Byte } from '@/types/byte';
+import { Course, getTopicDisplayName } from '@/types/course';
+import { CourseNotes } from '@/types/notes';
+
+export type NotesExportFormat = 'markdown' | 'pdf' | 'anki-csv' | 'anki-tsv';
+
+export interface NotesExportInput {
+  course: Course;
+  bytes: Byte[];
+  notes: CourseNotes;
+  // Old global notes not yet moved onto a byte (plain text)
+  legacyNotes: string;
+}
+
+interface ExportSection {
+  topic: string;
+  bytes: { byte: Byte; topics: string[]; content: string }[];
+}
+
+function getExportSections({ course, bytes, notes }: NotesExportInput): ExportSection[] {
+  return groupNotesByTopic(course, bytes, notes).map(group => ({
+    topic: getTopicDisplayName(course, group.topic),
+    bytes: group.bytes.map(byte => ({
+      byte,
+      topics: byte.byte_topics.map(topic => getTopicDisplayName(course, topic)),
+      content: notes[byte.byte_id].content.trim(),
+    })),
+  }));
+}
+
+// Notes on bytes no longer in the catalog aren't exported, so they don't count
+export function hasNotesToExport({ bytes, notes, legacyNotes }: NotesExportInput): boolean {
+  return bytes.some(byte => notes[byte.byte_id]) || !!legacyNotes;
+}
+
+const formatExportDate = (date: Date) => date.toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+});
+
+// Markdown source -> readable plain text, for formats that can't render Markdown
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!<>|~&=])/g, '$1');
+}
+
+/**
+ * One section per byte under its topic, with the byte's topics as badges
+ */
+export function buildMarkdownExport(input: NotesExportInput, date = new Date()): string {
+  const sections = getExportSections(input).map(section => {
+    const byteSections = section.bytes.map(({ byte, topics, content }) => {
+      const badges = topics.map(topic => `\`${topic}\``).join(' ');
+      return `### ${byte.byte_description}\n\n**Topics:** ${badges}\n\n${content}\n`;
+    });
+    return `## ${section.topic}\n\n${byteSections.join('\n')}`;
+  });
+  if (input.legacyNotes) {
+    sections.push(`## Earlier notes\n\n${plainToMarkdown(input.legacyNotes)}\n`);
+  }
+
+  return `# Concept Capsule Notes - ${input.course.title}
+
+Date: ${formatExportDate(date)}
+
+---
+
+${sections.join('\n')}`;
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Anki renders card fields as HTML
+function noteToAnkiHtml(content: string): string {
+  return content
+    .split(/^```[^\n]*\n([\s\S]*?)^```$/m)
+    .map((part, index) => {
+      // Odd parts are the insides of fenced code blocks
+      if (index % 2 === 1) return `<pre><code>${escapeHtml(part.replace(/\n$/, ''))}</code></pre>`;
+      return escapeHtml(stripInlineMarkdown(part.trim()))
+        .replace(/^(\s*)[-*+] \[[xX]\] /gm, '$1&#9745; ')
+        .replace(/^(\s*)[-*+] \[ \] /gm, '$1&#9744; ')
+        .replace(/\n/g, '<br>');
+    })
+    .filter(Boolean)
+    .join('');
+}
+
+// Quote every field - Anki accepts quoted fields with either separator
+const quoteField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * One card per byte: byte_description on the front, the note on the back,
+ * topics as tags. The header lines tell Anki how to read the file.
+ */
+export function buildAnkiExport(input: NotesExportInput, separator: 'csv' | 'tsv'): string {
+  const delimiter = separator === 'csv' ? ',' : '\t';
+  const headers = [
+    `#separator:${separator === 'csv' ? 'Comma' : 'Tab'}`,
+    '#html:true',
+    '#tags column:3',
+  ];
+
+  const rows = getExportSections(input).flatMap(section =>
+    section.bytes.map(({ byte, content }) => {
+      const tags = byte.byte_topics.map(topic => topic.toLowerCase()).join(' ');
+      return [byte.byte_description, noteToAnkiHtml(content), tags].map(quoteField).join(delimiter);
+    })
+  );
+
+  return [...headers, ...rows].join('\n') + '\n';
+}
+
+// PDF layout, in millimetres on A4
+const PDF_MARGIN = 15;
+const PDF_LINE_HEIGHT = { title: 9, heading: 7, byte: 6, text: 5, code: 4.2 };
+
+/**
+ * A printable PDF, generated entirely in the browser. jsPDF is loaded on
+ * demand since most learners never export.
+ */
+export async function buildPdfExport(input: NotesExportInput, date = new Date()): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PDF_MARGIN * 2;
+  let y = PDF_MARGIN;
+
+  const write = (
+    text: string,
+    options: { size: number; style?: 'normal' | 'bold' | 'italic'; font?: 'helvetica' | 'courier'; lineHeight: number; indent?: number; gray?: boolean }
+  ) => {
+    doc.setFont(options.font ?? 'helvetica', options.style ?? 'normal');
+    doc.setFontSize(options.size);
+    doc.setTextColor(options.gray ? 110 : 20);
+    const indent = options.indent ?? 0;
+    const lines: string[] = doc.splitTextToSize(text || ' ', textWidth - indent);
+    for (const line of lines) {
+      if (y + options.lineHeight > pageHeight - PDF_MARGIN) {
+        doc.addPage();
+        y = PDF_MARGIN;
+      }
+      y += options.lineHeight;
+      doc.text(line, PDF_MARGIN + indent, y);
+    }
+  };
+
+  const writeNote = (content: string) => {
+    let inCode = false;
+    for (const line of content.split('\n')) {
+      if (line.startsWith('```')) {
+        inCode = !inCode;
+        continue;
+      }
+      if (inCode) {
+        write(line, { size: 9, font: 'courier', lineHeight: PDF_LINE_HEIGHT.code, indent: 4 });
+        continue;
+      }
+
+      const heading = line.match(/^#{1,6}\s+(.*)$/);
+      if (heading) {
+        write(stripInlineMarkdown(heading[1]), { size: 11, style: 'bold', lineHeight: PDF_LINE_HEIGHT.text });
+        continue;
+      }
+
+      const text = stripInlineMarkdown(line)
+        .replace(/^(\s*)[-*+] \[([ xX])\] /, (_, indent: string, state: string) => `${indent}[${state === ' ' ? ' ' : 'x'}] `)
+        .replace(/^(\s*)[-*+] /, '$1• ');
+      write(text, { size: 10, lineHeight: PDF_LINE_HEIGHT.text });
+    }
+  };
+
+  write(`Concept Capsule Notes - ${input.course.title}`, { size: 18, style: 'bold', lineHeight: PDF_LINE_HEIGHT.title });
+  write(formatExportDate(date), { size: 10, lineHeight: PDF_LINE_HEIGHT.text, gray: true });
+
+  for (const section of getExportSections(input)) {
+    y += 4;
+    write(section.topic, { size: 14, style: 'bold', lineHeight: PDF_LINE_HEIGHT.heading });
+    for (const { byte, topics, content } of section.bytes) {
+      y += 2;
+      write(byte.byte_description, { size: 12, style: 'bold', lineHeight: PDF_LINE_HEIGHT.byte });
+      write(`Topics: ${topics.join(', ')}`, { size: 9, style: 'italic', lineHeight: PDF_LINE_HEIGHT.text, gray: true });
+      writeNote(content);
+    }
+  }
+
+  if (input.legacyNotes) {
+    y += 4;
+    write('Earlier notes', { size: 14, style: 'bold', lineHeight: PDF_LINE_HEIGHT.heading });
+    for (const line of input.legacyNotes.split('\n')) {
+      write(line, { size: 10, lineHeight: PDF_LINE_HEIGHT.text });
+    }
+  }
+
+  return doc.output('blob');
+}
+
+export function getExportFileName(course: Course, format: NotesExportFormat): string {
+  const base = `ConceptCapsule_${course.title.replace(/\s+/g, '_')}_Notes`;
+  switch (format) {
+    case 'markdown':
+      return `${base}.md`;
+    case 'pdf':
+      return `${base}.pdf`;
+    case 'anki-csv':
+      return `${base}_Anki.csv`;
+    case 'anki-tsv':
+      return `${base}_Anki.tsv`;
+  }
+}
+
+export async function buildNotesExport(input: NotesExportInput, format: NotesExportFormat): Promise<Blob> {
+  switch (format) {
+    case 'markdown':
+      return new Blob([buildMarkdownExport(input)], { type: 'text/markdown' });
+    case 'pdf':
+      return buildPdfExport(input);
+    case 'anki-csv':
+      return new Blob([buildAnkiExport(input, 'csv')], { type: 'text/csv' });
+    case 'anki-tsv':
+      return new Blob([buildAnkiExport(input, 'tsv')], { type: 'text/tab-separated-values' });
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,296 @@
+/**
+ * Offline copies of self-hosted videos
+ *
+ * Direct video files are saved in Cache Storage so a byte can be watched
+ * without a connection. Streams and embedded players (YouTube, Vimeo, Drive,
+ * HLS) can't be saved. An index in localStorage records what was downloaded
+ * and when it was last played, so the least recently played copies are
+ * removed first when storage runs low. The browser may also clear the cache
+ * on its own under storage pressure; reconcileDownloads() notices that.
+ */
+
+import { Byte } from '@/types/byte';
+import { isDownloadableProvider, resolveVideoSource } from '@/lib/videoProviders';
+
+export interface OfflineVideo {
+  url: string;
+  courseId: string;
+  byteId: string;
+  // Bytes on disk
+  size: number;
+  downloadedAt: string;
+  lastPlayedAt: string | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Kept in sync with public/sw.js, which must not delete it
+const VIDEO_CACHE = 'concept-capsule-videos-v1';
+const DOWNLOADS_STORAGE_KEY = 'conceptCapsuleDownloads';
+// Leave headroom for the app shell, course data and other sites' estimates
+const MAX_QUOTA_SHARE = 0.9;
+
+const listeners = new Set<() => void>();
+// url -> fraction downloaded (0-1) for downloads in flight
+const activeDownloads = new Map<string, number>();
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+export function getDownloadUrl(byte: Byte): string | null {
+  const source = resolveVideoSource(byte.byte_url);
+  return isDownloadableProvider(source.provider) ? source.url : null;
+}
+
+export function canDownloadByte(byte: Byte): boolean {
+  return isOfflineStorageSupported() && getDownloadUrl(byte) !== null;
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeDownloads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function readDownloads(): Record<string, OfflineVideo> {
+  try {
+    const stored = localStorage.getItem(DOWNLOADS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading offline downloads:', error);
+    return {};
+  }
+}
+
+function saveDownloads(downloads: Record<string, OfflineVideo>) {
+  try {
+    localStorage.setItem(DOWNLOADS_STORAGE_KEY, JSON.stringify(downloads));
+  } catch (error) {
+    console.error('Error saving offline downloads:', error);
+  }
+  notify();
+}
+
+export function getActiveDownloads(): Record<string, number> {
+  return Object.fromEntries(activeDownloads);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch (error) {
+    console.error('Error estimating storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Drop index entries whose video the browser has evicted.
+ * Returns how many were dropped.
+ */
+export async function reconcileDownloads(): Promise<number> {
+  if (!isOfflineStorageSupported()) return 0;
+  const cache = await caches.open(VIDEO_CACHE);
+  const cached = new Set((await cache.keys()).map(request => request.url));
+
+  const downloads = readDownloads();
+  const missing = Object.keys(downloads).filter(url => !cached.has(new URL(url, location.href).href));
+  if (missing.length === 0) return 0;
+
+  missing.forEach(url => delete downloads[url]);
+  saveDownloads(downloads);
+  return missing.length;
+}
+
+export async function removeDownload(url: string) {
+  if (isOfflineStorageSupported()) {
+    const cache = await caches.open(VIDEO_CACHE);
+    await cache.delete(url);
+  }
+  const downloads = readDownloads();
+  delete downloads[url];
+  saveDownloads(downloads);
+}
+
+export async function removeAllDownloads() {
+  if (isOfflineStorageSupported()) {
+    await caches.delete(VIDEO_CACHE);
+  }
+  saveDownloads({});
+}
+
+// Least recently played (or downloaded) first
+function getEvictionOrder(downloads: Record<string, OfflineVideo>, keep: string): OfflineVideo[] {
+  return Object.values(downloads)
+    .filter(download => download.url !== keep)
+    .sort((a, b) =>
+      (a.lastPlayedAt ?? a.downloadedAt).localeCompare(b.lastPlayedAt ?? b.downloadedAt)
+    );
+}
+
+/**
+ * Remove old downloads until `size` more bytes fit in the quota.
+ * Returns how many were removed.
+ */
+async function makeRoom(size: number, keep: string): Promise<number> {
+  const storage = await getStorageUsage();
+  if (!storage) return 0;
+
+  const limit = storage.quota * MAX_QUOTA_SHARE;
+  if (size > limit) {
+    throw new Error('This video is larger than the storage the browser allows.');
+  }
+
+  let usage = storage.usage;
+  let evicted = 0;
+  for (const download of getEvictionOrder(readDownloads(), keep)) {
+    if (usage + size <= limit) break;
+    await removeDownload(download.url);
+    usage -= download.size;
+    evicted++;
+  }
+  return evicted;
+}
+
+async function fetchVideo(url: string, onProgress: (fraction: number) => void): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    // fetch only rejects without a response - offline, or blocked by CORS
+    throw new Error(navigator.onLine
+      ? "The video host doesn't allow downloads."
+      : "You're offline.");
+  }
+  if (!response.ok) {
+    throw new Error(`The video couldn't be downloaded (${response.status}).`);
+  }
+
+  const type = response.headers.get('content-type') ?? 'video/mp4';
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body || !total) {
+    return response.blob();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress(Math.min(received / total, 1));
+  }
+  return new Blob(chunks, { type });
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+/**
+ * Download a byte's video into the offline cache, removing the least
+ * recently played downloads first if space runs out.
+ * Returns how many downloads were removed to make room.
+ */
+export async function downloadVideo(byte: Byte, courseId: string): Promise<number> {
+  const url = getDownloadUrl(byte);
+  if (!url || !isOfflineStorageSupported()) {
+    throw new Error("This video can't be saved for offline viewing.");
+  }
+  if (activeDownloads.has(url)) return 0;
+
+  activeDownloads.set(url, 0);
+  notify();
+
+  try {
+    // Ask the browser not to clear downloads under storage pressure
+    await navigator.storage?.persist?.().catch(() => false);
+
+    const blob = await fetchVideo(url, fraction => {
+      activeDownloads.set(url, fraction);
+      notify();
+    });
+
+    let evicted = await makeRoom(blob.size, url);
+    const cache = await caches.open(VIDEO_CACHE);
+    const store = () => cache.put(url, new Response(blob, {
+      headers: { 'Content-Type': blob.type, 'Content-Length': String(blob.size) },
+    }));
+
+    try {
+      await store();
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // The estimate was off - remove the least recently played copies one at a
+      // time until it fits. makeRoom has already refused (deleting nothing) a
+      // video too big for even an empty cache.
+      let stored = false;
+      for (const download of getEvictionOrder(readDownloads(), url)) {
+        await removeDownload(download.url);
+        evicted++;
+        try {
+          await store();
+          stored = true;
+          break;
+        } catch (retryError) {
+          if (!isQuotaError(retryError)) throw retryError;
+        }
+      }
+      if (!stored) throw new Error('Not enough storage space for this video.');
+    }
+
+    saveDownloads({
+      ...readDownloads(),
+      [url]: {
+        url,
+        courseId,
+        byteId: byte.byte_id,
+        size: blob.size,
+        downloadedAt: new Date().toISOString(),
+        lastPlayedAt: null,
+      },
+    });
+    return evicted;
+  } finally {
+    activeDownloads.delete(url);
+    notify();
+  }
+}
+
+/**
+ * The saved copy of a video, if there is one. Marks it as played, which
+ * keeps it from being evicted before videos that haven't been watched lately.
+ */
+export async function getOfflineVideo(url: string): Promise<Blob | null> {
+  const downloads = readDownloads();
+  if (!downloads[url] || !isOfflineStorageSupported()) return null;
+
+  const cache = await caches.open(VIDEO_CACHE);
+  const response = await cache.match(url);
+  if (!response) {
+    // Evicted by the browser
+    delete downloads[url];
+    saveDownloads(downloads);
+    return null;
+  }
+
+  saveDownloads({ ...downloads, [url]: { ...downloads[url], lastPlayedAt: new Date().toISOString() } });
+  return response.blob();
+}
+
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
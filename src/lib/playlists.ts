@@ -0,0 +1,76 @@
+/**
+ * Custom playlists: editing helpers and the encoding used to share them
+ *
+ * A shared playlist travels in the URL as base64url JSON of its name and
+ * byte_ids: /watch?playlist=eyJuIjoi...
+ */
+
+import { Byte } from '@/types/byte';
+import { CustomPlaylist, WATCH_LATER_ID, WATCH_LATER_NAME } from '@/types/playlist';
+import { getWatchPath } from '@/lib/deepLink';
+
+export const PLAYLIST_PARAM = 'playlist';
+
+const MAX_NAME_LENGTH = 80;
+
+export interface SharedPlaylist {
+  name: string;
+  byteIds: string[];
+}
+
+export function createWatchLater(): CustomPlaylist {
+  return { id: WATCH_LATER_ID, name: WATCH_LATER_NAME, byteIds: [], createdAt: 0 };
+}
+
+export function createPlaylistId(): string {
+  return `playlist-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function normalizePlaylistName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+}
+
+// The playlist's bytes in its order, skipping ids no longer in the catalog
+export function getPlaylistBytes(playlist: CustomPlaylist, bytes: Byte[]): Byte[] {
+  const byId = new Map(bytes.map(byte => [byte.byte_id, byte]));
+  return playlist.byteIds
+    .map(id => byId.get(id))
+    .filter((byte): byte is Byte => byte !== undefined);
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function encodePlaylist(playlist: SharedPlaylist): string {
+  return toBase64Url(JSON.stringify({ n: playlist.name, b: playlist.byteIds }));
+}
+
+/**
+ * Read a shared playlist from its URL value; null when it's malformed
+ */
+export function decodePlaylist(value: string | null): SharedPlaylist | null {
+  if (!value) return null;
+  try {
+    const data: unknown = JSON.parse(fromBase64Url(value));
+    if (!data || typeof data !== 'object') return null;
+    const { n, b } = data as { n?: unknown; b?: unknown };
+    if (typeof n !== 'string' || !Array.isArray(b)) return null;
+    const byteIds = [...new Set(b.filter((id): id is string => typeof id === 'string'))];
+    const name = normalizePlaylistName(n);
+    return name && byteIds.length > 0 ? { name, byteIds } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function buildPlaylistLink(courseId: string, playlist: SharedPlaylist): string {
+  const params = new URLSearchParams({ [PLAYLIST_PARAM]: encodePlaylist(playlist) });
+  return `${window.location.origin}${getWatchPath(courseId)}?${params.toString()}`;
+}
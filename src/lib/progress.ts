@@ -0,0 +1,97 @@
+/**
+ * Pure helpers for progress data, shared by local storage loading and the
+ * server sync so both apply the same rules
+ */
+
+import { COMPLETION_THRESHOLD, QuizResult, VideoProgress, VideoProgressData } from '@/types/progress';
+
+/**
+ * Fix legacy or inconsistent entries: completed items are at 100%, and
+ * anything past the completion threshold is completed
+ */
+export function normalizeProgressEntry(data: VideoProgressData): { entry: VideoProgressData; changed: boolean } {
+  const entry = { ...data, lastPosition: data.lastPosition ?? 0 };
+  let changed = false;
+
+  // If marked completed but percentage isn't 100, fix it
+  if (data.isCompleted && data.percentage !== 100) {
+    entry.percentage = 100;
+    changed = true;
+  }
+
+  // If percentage >= threshold but not marked completed, mark it
+  if (data.percentage >= COMPLETION_THRESHOLD && !data.isCompleted) {
+    entry.isCompleted = true;
+    entry.percentage = 100;
+    changed = true;
+  }
+
+  return { entry, changed };
+}
+
+export function normalizeProgress(progress: VideoProgress): { progress: VideoProgress; changed: boolean } {
+  let changed = false;
+  const normalized = Object.entries(progress).reduce((acc, [byteId, data]) => {
+    const result = normalizeProgressEntry(data);
+    changed = changed || result.changed;
+    acc[byteId] = result.entry;
+    return acc;
+  }, {} as VideoProgress);
+
+  return { progress: normalized, changed };
+}
+
+// The more recent of two quiz attempts
+function latestQuiz(a?: QuizResult, b?: QuizResult): QuizResult | undefined {
+  if (!a || !b) return a ?? b;
+  return b.attemptedAt > a.attemptedAt ? b : a;
+}
+
+/**
+ * Merge two copies of one byte's progress: the highest percentage and watched
+ * time win, completion is sticky, and the position and quiz attempt come from
+ * whichever copy is more recent
+ */
+export function mergeProgressEntry(local: VideoProgressData, remote: VideoProgressData): VideoProgressData {
+  const latest = remote.lastWatched > local.lastWatched ? remote : local;
+  const quiz = latestQuiz(local.quiz, remote.quiz);
+
+  return normalizeProgressEntry({
+    watchedSeconds: Math.max(local.watchedSeconds, remote.watchedSeconds),
+    duration: Math.max(local.duration, remote.duration),
+    percentage: Math.max(local.percentage, remote.percentage),
+    lastPosition: latest.lastPosition,
+    lastWatched: latest.lastWatched,
+    isCompleted: local.isCompleted || remote.isCompleted,
+    timing: latest.timing,
+    ...(quiz && { quiz }),
+  }).entry;
+}
+
+export function mergeProgress(local: VideoProgress, remote: VideoProgress): VideoProgress {
+  const merged: VideoProgress = { ...local };
+  Object.entries(remote).forEach(([byteId, remoteEntry]) => {
+    const localEntry = local[byteId];
+    merged[byteId] = localEntry
+      ? mergeProgressEntry(localEntry, remoteEntry)
+      : normalizeProgressEntry(remoteEntry).entry;
+  });
+  return merged;
+}
+
+// Whether two copies would store the same row
+export function isSameProgress(a: VideoProgressData | undefined, b: VideoProgressData | undefined): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.watchedSeconds === b.watchedSeconds &&
+    a.duration === b.duration &&
+    a.percentage === b.percentage &&
+    a.lastPosition === b.lastPosition &&
+    a.lastWatched === b.lastWatched &&
+    a.isCompleted === b.isCompleted &&
+    a.timing === b.timing &&
+    a.quiz?.attemptedAt === b.quiz?.attemptedAt &&
+    a.quiz?.correct === b.quiz?.correct &&
+    a.quiz?.total === b.quiz?.total
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Server side of progress sync: the video_progress table and the queue of
+ * local changes that haven't reached it yet
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { VideoProgress, VideoProgressData } from '@/types/progress';
+
+// Local changes waiting to be pushed, kept in localStorage so they survive reloads
+export interface PendingProgressSync {
+  // Delete every remote row for the course before anything else
+  reset: boolean;
+  removed: string[];
+  dirty: string[];
+}
+
+export const EMPTY_PENDING_SYNC: PendingProgressSync = { reset: false, removed: [], dirty: [] };
+
+export function loadPendingSync(queueKey: string): PendingProgressSync {
+  try {
+    const stored = localStorage.getItem(queueKey);
+    return stored ? { ...EMPTY_PENDING_SYNC, ...JSON.parse(stored) } : EMPTY_PENDING_SYNC;
+  } catch (error) {
+    console.error('Error loading progress sync queue:', error);
+    return EMPTY_PENDING_SYNC;
+  }
+}
+
+export function savePendingSync(queueKey: string, pending: PendingProgressSync) {
+  try {
+    if (!pending.reset && pending.removed.length === 0 && pending.dirty.length === 0) {
+      localStorage.removeItem(queueKey);
+    } else {
+      localStorage.setItem(queueKey, JSON.stringify(pending));
+    }
+  } catch (error) {
+    console.error('Error saving progress sync queue:', error);
+  }
+}
+
+function fromRow(row: Tables<'video_progress'>): VideoProgressData {
+  return {
+    watchedSeconds: row.watched_seconds,
+    duration: row.duration,
+    percentage: row.percentage,
+    lastPosition: row.last_position,
+    lastWatched: new Date(row.last_watched).getTime(),
+    isCompleted: row.is_completed,
+    timing: row.timing === 'reported' || row.timing === 'estimated' ? row.timing : undefined,
+    ...(row.quiz_correct !== null && row.quiz_total !== null && row.quiz_attempted_at !== null && {
+      quiz: {
+        correct: row.quiz_correct,
+        total: row.quiz_total,
+        attemptedAt: new Date(row.quiz_attempted_at).getTime(),
+      },
+    }),
+  };
+}
+
+export async function fetchRemoteProgress(userId: string, courseId: string): Promise<VideoProgress> {
+  const { data, error } = await supabase
+    .from('video_progress')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('course_id', courseId);
+
+  if (error) throw error;
+
+  return (data || []).reduce((acc, row) => {
+    acc[row.byte_id] = fromRow(row);
+    return acc;
+  }, {} as VideoProgress);
+}
+
+// Upserts through the merge RPC, so a stale device can't overwrite better progress
+export async function pushProgress(courseId: string, progress: VideoProgress, byteIds: string[]) {
+  const entries = byteIds
+    .filter(byteId => progress[byteId])
+    .map(byteId => {
+      const data = progress[byteId];
+      return {
+        byte_id: byteId,
+        watched_seconds: data.watchedSeconds,
+        duration: data.duration,
+        percentage: data.percentage,
+        last_position: data.lastPosition,
+        last_watched: new Date(data.lastWatched).toISOString(),
+        is_completed: data.isCompleted,
+        timing: data.timing ?? null,
+        quiz_correct: data.quiz?.correct ?? null,
+        quiz_total: data.quiz?.total ?? null,
+        quiz_attempted_at: data.quiz ? new Date(data.quiz.attemptedAt).toISOString() : null,
+      };
+    });
+  if (entries.length === 0) return;
+
+  const { error } = await supabase.rpc('merge_video_progress', {
+    p_course_id: courseId,
+    p_entries: entries as Json,
+  });
+  if (error) throw error;
+}
+
+// Delete some or (without byteIds) all of the course's remote progress
+export async function deleteRemoteProgress(userId: string, courseId: string, byteIds?: string[]) {
+  let query = supabase
+    .from('video_progress')
+    .delete()
+    .eq('user_id', userId)
+    .eq('course_id', courseId);
+  if (byteIds) {
+    query = query.in('byte_id', byteIds);
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+}
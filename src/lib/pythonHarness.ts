@@ -0,0 +1,141 @@
+/**
+ * Python side of exercise runs, shared by the worker (src/lib/pythonWorker.ts)
+ * and the page that reads its results
+ */
+
+export interface ExerciseTestResult {
+  name: string;
+  passed: boolean;
+  // Why it failed, e.g. "AssertionError: expected 4"
+  message: string | null;
+}
+
+export interface ExerciseRunResult {
+  stdout: string;
+  // Traceback of the learner's code, limited to their own lines
+  error: string | null;
+  tests: ExerciseTestResult[];
+  // null when the exercise doesn't check output
+  outputMatches: boolean | null;
+  passed: boolean;
+}
+
+/**
+ * Defines run_exercise(code, tests_json, expected_output) -> result JSON.
+ * The learner's code runs in a fresh namespace each time. Each test then
+ * runs in its own copy of that namespace, with its own output kept out of
+ * the learner's, so learner code can't pass a test by redefining what it
+ * uses: names shadowing builtins are left out of the copy, builtins come
+ * from a snapshot taken before any learner code ran (the real module is
+ * restored after each run), and results are built only from the harness's
+ * own references, which sit in a closure rather than module globals.
+ *
+ * Hiding the js module only keeps learner code from reaching browser APIs
+ * by accident; it is not a sandbox, since code can put the module back.
+ * The worker itself still runs with the page's origin.
+ */
+export const PYTHON_HARNESS = `
+def _make_harness():
+    import builtins
+    import io
+    import json
+    import sys
+    import traceback
+
+    for name in ('js', 'pyodide_js'):
+        sys.modules[name] = None
+
+    def no_input(*args):
+        raise RuntimeError("input() isn't available in exercises - set the value in your code instead")
+
+    builtins.input = no_input
+
+    # Everything below is taken now, before learner code can patch it
+    original_builtins = dict(builtins.__dict__)
+    builtins_dict = builtins.__dict__
+    base_exception = BaseException
+    assertion_error = AssertionError
+    compile_source = compile
+    exec_code = exec
+    string_io = io.StringIO
+    dumps = json.dumps
+    loads = json.loads
+    extract_tb = traceback.extract_tb
+    format_list = traceback.format_list
+    format_exception_only = traceback.format_exception_only
+    is_instance = isinstance
+    to_str = str
+
+    def restore_builtins():
+        builtins_dict.clear()
+        builtins_dict.update(original_builtins)
+
+    def fresh_namespace(names):
+        namespace = {key: value for key, value in names.items() if key not in original_builtins}
+        namespace['__name__'] = '__main__'
+        namespace['__builtins__'] = dict(original_builtins)
+        return namespace
+
+    def format_error(error, filename):
+        frames = [frame for frame in extract_tb(error.__traceback__) if frame.filename == filename]
+        lines = ['Traceback (most recent call last):\\n'] if frames else []
+        lines += format_list(frames)
+        lines += format_exception_only(type(error), error)
+        return ''.join(lines).rstrip()
+
+    def describe_failure(error):
+        if is_instance(error, assertion_error) and not to_str(error):
+            return 'Assertion failed'
+        return ''.join(format_exception_only(type(error), error)).strip()
+
+    def capture(source, filename, namespace):
+        output = string_io()
+        stdout, stderr = sys.stdout, sys.stderr
+        sys.stdout = sys.stderr = output
+        try:
+            exec_code(compile_source(source, filename, 'exec'), namespace)
+            return output.getvalue(), None
+        except base_exception as error:
+            return output.getvalue(), error
+        finally:
+            sys.stdout, sys.stderr = stdout, stderr
+            restore_builtins()
+
+    def run_exercise(code, tests_json, expected_output):
+        tests = loads(tests_json)
+        namespace = fresh_namespace({})
+        stdout, error = capture(code, '<exercise>', namespace)
+
+        results = []
+        for test in tests:
+            if error is not None:
+                results.append({'name': test['name'], 'passed': False, 'message': 'Not run - your code raised an error'})
+                continue
+            _, failure = capture(test['code'], '<test>', fresh_namespace(namespace))
+            results.append({
+                'name': test['name'],
+                'passed': failure is None,
+                'message': None if failure is None else describe_failure(failure),
+            })
+
+        output_matches = None
+        if expected_output is not None:
+            output_matches = error is None and stdout.rstrip() == expected_output.rstrip()
+
+        passed = error is None and output_matches is not False
+        for result in results:
+            passed = passed and result['passed']
+
+        return dumps({
+            'stdout': stdout,
+            'error': None if error is None else format_error(error, '<exercise>'),
+            'tests': results,
+            'outputMatches': output_matches,
+            'passed': passed,
+        })
+
+    return run_exercise
+
+run_exercise = _make_harness()
+del _make_harness
+`;
@@ -0,0 +1,83 @@
+/**
+ * Runs exercise code in the Python worker, one run at a time
+ *
+ * The runtime is loaded on first use and kept for later runs. Code that
+ * runs too long (usually an infinite loop) is stopped by terminating the
+ * worker; the next run starts a fresh one.
+ */
+
+import { ByteExercise } from '@/types/byte';
+import { ExerciseRunResult } from '@/lib/pythonHarness';
+import type { PythonRunRequest, PythonWorkerMessage } from '@/lib/pythonWorker';
+
+const RUN_TIMEOUT = 10000;
+
+interface PythonWorker {
+  worker: Worker;
+  ready: Promise<void>;
+}
+
+let current: PythonWorker | null = null;
+let nextRunId = 1;
+
+function startWorker(): PythonWorker {
+  const worker = new Worker(new URL('./pythonWorker.ts', import.meta.url), { type: 'module' });
+  const ready = new Promise<void>((resolve, reject) => {
+    const handleMessage = (event: MessageEvent<PythonWorkerMessage>) => {
+      if (event.data.type === 'ready') resolve();
+      if (event.data.type === 'failed') reject(new Error(`Python failed to load: ${event.data.message}`));
+      if (event.data.type !== 'result') worker.removeEventListener('message', handleMessage);
+    };
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', () => reject(new Error('Python failed to load.')), { once: true });
+  });
+  return { worker, ready };
+}
+
+function stopWorker() {
+  current?.worker.terminate();
+  current = null;
+}
+
+/**
+ * Start downloading the runtime ahead of the first run
+ */
+export function preloadPython(): Promise<void> {
+  if (!current) current = startWorker();
+  return current.ready.catch(error => {
+    // Let a later run try again
+    stopWorker();
+    throw error;
+  });
+}
+
+export async function runExercise(exercise: ByteExercise, code: string): Promise<ExerciseRunResult> {
+  await preloadPython();
+  const { worker } = current!;
+  const id = nextRunId++;
+
+  const request: PythonRunRequest = {
+    id,
+    code,
+    testsJson: JSON.stringify(exercise.tests ?? []),
+    expectedOutput: exercise.expected_output ?? null,
+  };
+
+  return new Promise((resolve, reject) => {
+    const timeout = window.setTimeout(() => {
+      worker.removeEventListener('message', handleMessage);
+      stopWorker();
+      reject(new Error(`Your code ran for more than ${RUN_TIMEOUT / 1000} seconds and was stopped. Is there a loop that never ends?`));
+    }, RUN_TIMEOUT);
+
+    const handleMessage = (event: MessageEvent<PythonWorkerMessage>) => {
+      if (event.data.type !== 'result' || event.data.id !== id) return;
+      clearTimeout(timeout);
+      worker.removeEventListener('message', handleMessage);
+      resolve(JSON.parse(event.data.resultJson));
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Web Worker that runs exercise code in Pyodide (CPython compiled to
+ * WebAssembly). Running off the main thread keeps the page responsive and
+ * lets the runner stop code that never finishes by terminating the worker.
+ */
+
+import { loadPyodide } from 'pyodide';
+import { PYTHON_HARNESS } from '@/lib/pythonHarness';
+
+// Served from node_modules in development and copied there by the build (vite.config.ts)
+const PYODIDE_INDEX_URL = '/assets/pyodide/';
+
+export interface PythonRunRequest {
+  id: number;
+  code: string;
+  testsJson: string;
+  expectedOutput: string | null;
+}
+
+export type PythonWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'failed'; message: string }
+  | { type: 'result'; id: number; resultJson: string };
+
+// The DOM typings describe `self` as a window; inside a worker it acts like the Worker handle
+const scope = self as unknown as Worker;
+const post = (message: PythonWorkerMessage) => scope.postMessage(message);
+
+// run_exercise is taken once, so learner code rebinding the global can't replace it
+const runtime = loadPyodide({ indexURL: PYODIDE_INDEX_URL }).then(pyodide => {
+  pyodide.runPython(PYTHON_HARNESS);
+  return pyodide.globals.get('run_exercise');
+});
+
+runtime.then(
+  () => post({ type: 'ready' }),
+  error => post({ type: 'failed', message: error instanceof Error ? error.message : String(error) })
+);
+
+scope.onmessage = async (event: MessageEvent<PythonRunRequest>) => {
+  const { id, code, testsJson, expectedOutput } = event.data;
+  const runExercise = await runtime;
+  post({ type: 'result', id, resultJson: runExercise(code, testsJson, expectedOutput) });
+};
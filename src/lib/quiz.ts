@@ -0,0 +1,31 @@
+/**
+ * Checking answers to the check-yourself questions attached to bytes
+ */
+
+import { QuizQuestion } from '@/types/byte';
+
+// A multiple-choice option index or fill-in-the-blank text
+export type QuizAnswer = number | string;
+
+// The blank marker in fill-in-the-blank questions
+export const QUIZ_BLANK = '___';
+
+function normalizeAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function isAnswerCorrect(question: QuizQuestion, answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return false;
+  if (question.type === 'multiple_choice') return answer === question.answer;
+  const given = normalizeAnswer(String(answer));
+  return given !== '' && question.answers.some(accepted => normalizeAnswer(accepted) === given);
+}
+
+export function scoreQuiz(questions: QuizQuestion[], answers: (QuizAnswer | undefined)[]): number {
+  return questions.filter((question, index) => isAnswerCorrect(question, answers[index])).length;
+}
+
+// The answer to show once a question was answered wrongly
+export function getCorrectAnswer(question: QuizQuestion): string {
+  return question.type === 'multiple_choice' ? question.options[question.answer] : question.answers[0];
+}
@@ -0,0 +1,6 @@
+// Message raised by enforce_rate_limit() when a like/feedback write is refused
+const RATE_LIMITED = 'rate_limited';
+
+export function isRateLimited(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'message' in error && error.message === RATE_LIMITED;
+}
@@ -0,0 +1,244 @@
+/**
+ * Client-side full-text search over bytes
+ *
+ * An inverted index from terms to the documents (bytes) and fields they
+ * appear in. Query terms match index terms exactly, by prefix (so results
+ * show up while typing) or within a small edit distance (typos).
+ */
+
+import { Byte } from '@/types/byte';
+import { Course, getTopicDisplayName } from '@/types/course';
+
+export type SearchField = 'name' | 'description' | 'topics' | 'transcript' | 'notes';
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  description: 3,
+  topics: 2,
+  notes: 1.5,
+  transcript: 1,
+};
+
+const MATCH_QUALITY = { exact: 1, prefix: 0.8 };
+// Each edit costs this much of a fuzzy match's quality
+const EDIT_PENALTY = 0.3;
+// Prefix matching starts at this many characters
+const MIN_PREFIX_LENGTH = 2;
+
+export interface SearchDocument {
+  id: string;
+  fields: Partial<Record<SearchField, string>>;
+}
+
+export interface SearchIndex {
+  // term -> document id -> field -> occurrences
+  postings: Map<string, Map<string, Map<SearchField, number>>>;
+  terms: string[];
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  // Index terms the query matched in this document, for highlighting
+  terms: string[];
+  fields: SearchField[];
+}
+
+// Lowercase and strip accents so "café" finds "cafe"
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Allowed typos grow with the word: none for short words, two for long ones
+function maxEdits(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions),
+ * giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+export function createSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings: SearchIndex['postings'] = new Map();
+
+  for (const doc of documents) {
+    for (const [field, text] of Object.entries(doc.fields) as [SearchField, string | undefined][]) {
+      if (!text) continue;
+      for (const term of tokenize(text)) {
+        const docs = postings.get(term) ?? new Map<string, Map<SearchField, number>>();
+        const fields = docs.get(doc.id) ?? new Map<SearchField, number>();
+        fields.set(field, (fields.get(field) ?? 0) + 1);
+        docs.set(doc.id, fields);
+        postings.set(term, docs);
+      }
+    }
+  }
+
+  return { postings, terms: Array.from(postings.keys()) };
+}
+
+// Index terms a query token matches, with how well they match (0-1)
+function matchTerms(index: SearchIndex, token: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  const allowedEdits = maxEdits(token);
+
+  for (const term of index.terms) {
+    if (term === token) {
+      matches.set(term, MATCH_QUALITY.exact);
+    } else if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+      matches.set(term, MATCH_QUALITY.prefix);
+    } else if (allowedEdits > 0) {
+      const distance = editDistance(token, term, allowedEdits);
+      if (distance <= allowedEdits) {
+        matches.set(term, 1 - distance * EDIT_PENALTY);
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Documents matching every word of the query, best first
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchResult[] {
+  const tokens = Array.from(new Set(tokenize(query)));
+  if (tokens.length === 0) return [];
+
+  let results: Map<string, { score: number; terms: Set<string>; fields: Set<SearchField> }> | null = null;
+
+  for (const token of tokens) {
+    const tokenResults = new Map<string, { score: number; terms: Set<string>; fields: Set<SearchField> }>();
+
+    for (const [term, quality] of matchTerms(index, token)) {
+      for (const [docId, fields] of index.postings.get(term) ?? []) {
+        let termScore = 0;
+        for (const [field, count] of fields) {
+          termScore += FIELD_WEIGHTS[field] * (1 + Math.log(count));
+        }
+
+        const entry = tokenResults.get(docId) ?? { score: 0, terms: new Set<string>(), fields: new Set<SearchField>() };
+        // A token scores by its best matching term, not the sum of all of them
+        entry.score = Math.max(entry.score, quality * termScore);
+        entry.terms.add(term);
+        fields.forEach((_, field) => entry.fields.add(field));
+        tokenResults.set(docId, entry);
+      }
+    }
+
+    // Every query word has to match somewhere
+    if (results === null) {
+      results = tokenResults;
+    } else {
+      const previous: typeof results = results;
+      results = new Map();
+      for (const [docId, entry] of tokenResults) {
+        const earlier = previous.get(docId);
+        if (!earlier) continue;
+        results.set(docId, {
+          score: earlier.score + entry.score,
+          terms: new Set([...earlier.terms, ...entry.terms]),
+          fields: new Set([...earlier.fields, ...entry.fields]),
+        });
+      }
+    }
+    if (results.size === 0) return [];
+  }
+
+  return Array.from(results ?? [], ([id, entry]) => ({
+    id,
+    score: entry.score,
+    terms: Array.from(entry.terms),
+    fields: Array.from(entry.fields),
+  })).sort((a, b) => b.score - a.score);
+}
+
+export interface ByteSearchSources {
+  // Learner's notes and caption transcripts, keyed by byte_id
+  notes?: Record<string, string>;
+  transcripts?: Record<string, string>;
+}
+
+export function createByteSearchIndex(course: Course, bytes: Byte[], sources: ByteSearchSources = {}): SearchIndex {
+  return createSearchIndex(bytes.map(byte => ({
+    id: byte.byte_id,
+    fields: {
+      name: byte.byte_name,
+      description: byte.byte_description,
+      topics: byte.byte_topics.map(topic => getTopicDisplayName(course, topic)).join(' '),
+      notes: sources.notes?.[byte.byte_id],
+      transcript: sources.transcripts?.[byte.byte_id],
+    },
+  })));
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Split text into plain and matched runs, matching whole words against index terms
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  const termSet = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const index = match.index ?? 0;
+    if (!tokenize(match[0]).some(token => termSet.has(token))) continue;
+    if (index > last) segments.push({ text: text.slice(last, index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * A short excerpt of long text (notes, transcripts) around the first match
+ */
+export function getSnippet(text: string, terms: string[], radius = 60): string | null {
+  const termSet = new Set(terms);
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!tokenize(match[0]).some(token => termSet.has(token))) continue;
+
+    const index = match.index ?? 0;
+    const start = Math.max(0, index - radius);
+    const end = Math.min(text.length, index + match[0].length + radius);
+    const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+  }
+  return null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Registers public/sw.js, which caches the app shell and course data for
+ * offline use. Production only - in development it would serve stale modules.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(registration => {
+        // Cache files added by a new deployment (a fresh install does this itself)
+        registration.active?.postMessage({ type: 'sync-precache' });
+      })
+      .catch(error => console.error('Error registering service worker:', error));
+  });
+}
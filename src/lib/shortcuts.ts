@@ -0,0 +1,169 @@
+/**
+ * Keyboard shortcut registry
+ *
+ * Every shortcut is declared here with its default keys and the pages
+ * (scopes) it applies to. Pages supply the handlers; learners can rebind
+ * keys, and a binding may not clash with another shortcut that can be
+ * active at the same time.
+ *
+ * Keys are written as combos: modifiers first ("mod" is Ctrl, or Cmd on
+ * Mac), then the key as KeyboardEvent.key reports it, lowercased -
+ * e.g. "mod+k", "shift+r", "arrowleft", "space", "?".
+ */
+
+export type ShortcutScope = 'global' | 'home' | 'watch' | 'admin';
+
+export type ShortcutId =
+  | 'showShortcuts'
+  | 'startWatching'
+  | 'toggleFullscreen'
+  | 'openSearch'
+  | 'togglePlaylist'
+  | 'toggleNotes'
+  | 'toggleTranscript'
+  | 'togglePractice'
+  | 'togglePlay'
+  | 'seekBack'
+  | 'seekForward'
+  | 'speedDown'
+  | 'speedUp'
+  | 'toggleABLoop'
+  | 'cycleEndBehavior'
+  | 'focusSearch'
+  | 'refreshAnalytics'
+  | 'exportAnalytics';
+
+export type ShortcutGroup = 'General' | 'Panels' | 'Playback' | 'Analytics';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  group: ShortcutGroup;
+  scopes: ShortcutScope[];
+  defaultKeys: string[];
+  // Also fires while typing in a text field
+  allowInInputs?: boolean;
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'showShortcuts', label: 'Show keyboard shortcuts', group: 'General', scopes: ['global'], defaultKeys: ['?'] },
+  { id: 'startWatching', label: 'Start watching', group: 'General', scopes: ['home'], defaultKeys: ['enter'] },
+  { id: 'toggleFullscreen', label: 'Toggle fullscreen', group: 'General', scopes: ['home', 'watch'], defaultKeys: ['f'] },
+  { id: 'openSearch', label: 'Search capsules', group: 'General', scopes: ['watch'], defaultKeys: ['mod+k'], allowInInputs: true },
+  { id: 'togglePlaylist', label: 'Toggle playlist', group: 'Panels', scopes: ['watch'], defaultKeys: ['l'] },
+  { id: 'toggleNotes', label: 'Toggle notes', group: 'Panels', scopes: ['watch'], defaultKeys: ['a'] },
+  { id: 'toggleTranscript', label: 'Toggle transcript', group: 'Panels', scopes: ['watch'], defaultKeys: ['t'] },
+  { id: 'togglePractice', label: 'Toggle practice exercise', group: 'Panels', scopes: ['watch'], defaultKeys: ['p'] },
+  { id: 'togglePlay', label: 'Play / pause', group: 'Playback', scopes: ['watch'], defaultKeys: ['space', 'k'] },
+  { id: 'seekBack', label: 'Back 5 seconds', group: 'Playback', scopes: ['watch'], defaultKeys: ['arrowleft'] },
+  { id: 'seekForward', label: 'Forward 5 seconds', group: 'Playback', scopes: ['watch'], defaultKeys: ['arrowright'] },
+  { id: 'speedDown', label: 'Slower', group: 'Playback', scopes: ['watch'], defaultKeys: ['<'] },
+  { id: 'speedUp', label: 'Faster', group: 'Playback', scopes: ['watch'], defaultKeys: ['>'] },
+  { id: 'toggleABLoop', label: 'Set / clear A–B loop', group: 'Playback', scopes: ['watch'], defaultKeys: ['b'] },
+  { id: 'cycleEndBehavior', label: 'Change what happens at the end', group: 'Playback', scopes: ['watch'], defaultKeys: ['r'] },
+  { id: 'focusSearch', label: 'Search capsules', group: 'Analytics', scopes: ['admin'], defaultKeys: ['/'] },
+  { id: 'refreshAnalytics', label: 'Refresh', group: 'Analytics', scopes: ['admin'], defaultKeys: ['r'] },
+  { id: 'exportAnalytics', label: 'Export CSV', group: 'Analytics', scopes: ['admin'], defaultKeys: ['e'] },
+];
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['General', 'Panels', 'Playback', 'Analytics'];
+
+// Keys for every shortcut, defaults merged with the learner's changes
+export type ShortcutBindings = Record<ShortcutId, string[]>;
+
+// Keys that keep their usual meaning everywhere (leaving dialogs, moving focus)
+const RESERVED_KEYS = new Set(['escape', 'tab']);
+const MODIFIER_KEYS = new Set(['control', 'shift', 'alt', 'meta', 'os', 'capslock']);
+
+export function getShortcut(id: ShortcutId): ShortcutDefinition {
+  return SHORTCUTS.find(shortcut => shortcut.id === id)!;
+}
+
+export function resolveBindings(overrides: Partial<ShortcutBindings>): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUTS.map(shortcut => [shortcut.id, overrides[shortcut.id] ?? shortcut.defaultKeys])
+  ) as ShortcutBindings;
+}
+
+/**
+ * The combo a key press spells, or null for a lone modifier. Shift only
+ * counts for named keys and letters - for symbols like "?" it is part of
+ * the character.
+ */
+export function eventToCombo(event: KeyboardEvent): string | null {
+  const key = event.key === ' ' ? 'space' : event.key.toLowerCase();
+  if (!key || MODIFIER_KEYS.has(key)) return null;
+
+  const isSymbol = key.length === 1 && !/[a-z0-9]/.test(key);
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('mod');
+  if (event.altKey) parts.push('alt');
+  if (event.shiftKey && !isSymbol) parts.push('shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+export function isReservedCombo(combo: string): boolean {
+  return RESERVED_KEYS.has(combo);
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  mod: isMac ? '⌘' : 'Ctrl',
+  alt: isMac ? '⌥' : 'Alt',
+  shift: 'Shift',
+  space: 'Space',
+  enter: 'Enter',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+};
+
+// "mod+k" -> ["Ctrl", "K"], for rendering as separate keycaps
+export function formatCombo(combo: string): string[] {
+  // A trailing "+" is the key itself, e.g. "mod++"
+  const parts = combo === '+' ? ['+'] : combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+');
+  return parts.map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1)));
+}
+
+// A binding as one line of text, e.g. "Ctrl+K" - the first key where there are several
+export function describeKeys(keys: string[]): string {
+  return keys.length > 0 ? formatCombo(keys[0]).join('+') : '';
+}
+
+function scopesOverlap(a: ShortcutScope[], b: ShortcutScope[]): boolean {
+  return a.includes('global') || b.includes('global') || a.some(scope => b.includes(scope));
+}
+
+export interface ShortcutConflict {
+  combo: string;
+  shortcuts: [ShortcutId, ShortcutId];
+}
+
+/**
+ * Pairs of shortcuts sharing a key where both can be active at once
+ */
+export function findConflicts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  SHORTCUTS.forEach((a, i) => {
+    SHORTCUTS.slice(i + 1).forEach(b => {
+      if (!scopesOverlap(a.scopes, b.scopes)) return;
+      bindings[a.id]
+        .filter(combo => bindings[b.id].includes(combo))
+        .forEach(combo => conflicts.push({ combo, shortcuts: [a.id, b.id] }));
+    });
+  });
+  return conflicts;
+}
+
+// The shortcut a new binding would clash with, if any
+export function findBindingConflict(bindings: ShortcutBindings, id: ShortcutId, combo: string): ShortcutDefinition | null {
+  const { scopes } = getShortcut(id);
+  return SHORTCUTS.find(shortcut =>
+    shortcut.id !== id &&
+    scopesOverlap(scopes, shortcut.scopes) &&
+    bindings[shortcut.id].includes(combo)
+  ) ?? null;
+}
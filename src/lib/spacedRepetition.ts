@@ -0,0 +1,98 @@
+/**
+ * SM-2 style review scheduling for completed bytes
+ *
+ * Each completed byte gets a card. Its first review is due a day after it
+ * was completed; every review is graded 0-5 (from a quiz or the learner's
+ * own rating) and pushes the next one further out the better it went, or
+ * back to a day if it was forgotten.
+ */
+
+import { Byte } from '@/types/byte';
+import { VideoProgress } from '@/types/progress';
+
+const DAY = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Grades below this mean the byte was forgotten
+const PASSING_GRADE = 3;
+
+// 0 = complete blackout ... 5 = perfect recall
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard {
+  // Successful reviews in a row
+  repetitions: number;
+  // Days until the next review
+  interval: number;
+  easeFactor: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+export type ReviewCards = Record<string, ReviewCard>;
+
+export const SELF_RATINGS: { grade: ReviewGrade; label: string; description: string }[] = [
+  { grade: 1, label: 'Forgot', description: "Didn't remember it" },
+  { grade: 3, label: 'Hard', description: 'Remembered with effort' },
+  { grade: 4, label: 'Good', description: 'Remembered it' },
+  { grade: 5, label: 'Easy', description: 'Knew it instantly' },
+];
+
+export function gradeFromQuiz(correct: number, total: number): ReviewGrade {
+  const accuracy = total > 0 ? correct / total : 0;
+  if (accuracy >= 1) return 5;
+  if (accuracy >= 0.8) return 4;
+  if (accuracy >= 0.6) return 3;
+  if (accuracy > 0) return 2;
+  return 1;
+}
+
+/**
+ * Apply one graded review to a card (or start one), SM-2 style
+ */
+export function reviewCard(card: ReviewCard | undefined, grade: ReviewGrade, now = Date.now()): ReviewCard {
+  const previous = card ?? { repetitions: 0, interval: 0, easeFactor: INITIAL_EASE, dueAt: now, lastReviewedAt: now };
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    previous.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * easeFactor);
+  }
+
+  return { repetitions, interval, easeFactor, dueAt: now + interval * DAY, lastReviewedAt: now };
+}
+
+// When a completed byte is next due: its card, or a day after it was last watched
+export function getDueAt(byteId: string, progress: VideoProgress, cards: ReviewCards): number | null {
+  const data = progress[byteId];
+  // Cards outlive a progress reset, but only completed bytes get reviewed
+  if (!data?.isCompleted) return null;
+  return cards[byteId]?.dueAt ?? data.lastWatched + DAY;
+}
+
+function endOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/**
+ * Completed bytes due for review by the end of today, most overdue first
+ */
+export function getDueBytes(bytes: Byte[], progress: VideoProgress, cards: ReviewCards, now = Date.now()): Byte[] {
+  const cutoff = endOfDay(now);
+  return bytes
+    .map(byte => ({ byte, dueAt: getDueAt(byte.byte_id, progress, cards) }))
+    .filter((entry): entry is { byte: Byte; dueAt: number } => entry.dueAt !== null && entry.dueAt <= cutoff)
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .map(entry => entry.byte);
+}
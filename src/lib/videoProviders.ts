@@ -0,0 +1,173 @@
+/**
+ * Video provider registry
+ *
+ * Resolves a byte's URL to the provider that knows how to play it.
+ * Providers are checked in order; the first one that recognises the URL wins.
+ */
+
+import { extractDriveFileId, driveUrlToPreview } from './driveUrl';
+
+export type VideoProviderId = 'youtube' | 'vimeo' | 'hls' | 'file' | 'drive';
+
+// 'reported': the player API reports its real playback position
+// 'estimated': no player API, position is a clock started on interaction
+export type PlaybackTiming = 'reported' | 'estimated';
+
+export interface VideoSource {
+  provider: VideoProviderId;
+  // Original URL from the catalog
+  url: string;
+  // Provider-specific media ID (YouTube video ID, Vimeo ID, Drive file ID)
+  mediaId: string | null;
+  // Iframe URL for embedded providers, null for direct media
+  embedUrl: string | null;
+}
+
+interface VideoProvider {
+  id: VideoProviderId;
+  label: string;
+  // Embedded providers render their own controls inside an iframe
+  embedded: boolean;
+  timing: PlaybackTiming;
+  // Whether the media is a single file that can be saved for offline viewing
+  downloadable: boolean;
+  resolve: (url: string) => VideoSource | null;
+}
+
+const DIRECT_FILE_EXTENSIONS = ['mp4', 'webm', 'ogg', 'ogv', 'mov', 'm4v'];
+
+/**
+ * Extract the video ID from watch, short, embed and youtu.be URLs
+ */
+export function extractYouTubeId(url: string): string | null {
+  const match = url.match(
+    /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract the numeric video ID from vimeo.com and player.vimeo.com URLs
+ */
+export function extractVimeoId(url: string): string | null {
+  const match = url.match(/vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?(\d+)/);
+  return match ? match[1] : null;
+}
+
+// Path extension without query string or hash, lowercased
+function getUrlExtension(url: string): string | null {
+  const path = url.split(/[?#]/)[0];
+  const match = path.match(/\.([a-zA-Z0-9]+)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+const VIDEO_PROVIDERS: VideoProvider[] = [
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    embedded: true,
+    timing: 'reported',
+    downloadable: false,
+    resolve: (url) => {
+      const id = extractYouTubeId(url);
+      if (!id) return null;
+      return {
+        provider: 'youtube',
+        url,
+        mediaId: id,
+        embedUrl: `https://www.youtube.com/embed/${id}?playsinline=1&rel=0`,
+      };
+    },
+  },
+  {
+    id: 'vimeo',
+    label: 'Vimeo',
+    embedded: true,
+    timing: 'reported',
+    downloadable: false,
+    resolve: (url) => {
+      const id = extractVimeoId(url);
+      if (!id) return null;
+      return {
+        provider: 'vimeo',
+        url,
+        mediaId: id,
+        embedUrl: `https://player.vimeo.com/video/${id}?playsinline=1`,
+      };
+    },
+  },
+  {
+    id: 'hls',
+    label: 'HLS stream',
+    embedded: false,
+    timing: 'reported',
+    downloadable: false,
+    resolve: (url) => {
+      if (getUrlExtension(url) !== 'm3u8') return null;
+      return { provider: 'hls', url, mediaId: null, embedUrl: null };
+    },
+  },
+  {
+    id: 'file',
+    label: 'Video file',
+    embedded: false,
+    timing: 'reported',
+    downloadable: true,
+    resolve: (url) => {
+      const extension = getUrlExtension(url);
+      if (!extension || !DIRECT_FILE_EXTENSIONS.includes(extension)) return null;
+      return { provider: 'file', url, mediaId: null, embedUrl: null };
+    },
+  },
+  {
+    id: 'drive',
+    label: 'Google Drive',
+    embedded: true,
+    timing: 'estimated',
+    downloadable: false,
+    resolve: (url) => {
+      const id = extractDriveFileId(url);
+      if (!id) return null;
+      return { provider: 'drive', url, mediaId: id, embedUrl: driveUrlToPreview(url) };
+    },
+  },
+];
+
+/**
+ * Pick the provider for a video URL.
+ * Unrecognised URLs fall back to the Drive preview iframe, matching the
+ * behaviour from before other providers existed.
+ */
+export function resolveVideoSource(url: string): VideoSource {
+  for (const provider of VIDEO_PROVIDERS) {
+    const source = provider.resolve(url);
+    if (source) return source;
+  }
+  return { provider: 'drive', url, mediaId: null, embedUrl: driveUrlToPreview(url) };
+}
+
+export function getProviderLabel(provider: VideoProviderId): string {
+  return VIDEO_PROVIDERS.find(p => p.id === provider)?.label || provider;
+}
+
+/**
+ * Whether the provider plays inside a third-party iframe with its own controls
+ */
+export function isEmbeddedProvider(provider: VideoProviderId): boolean {
+  return VIDEO_PROVIDERS.find(p => p.id === provider)?.embedded ?? true;
+}
+
+/**
+ * Whether the provider's videos can be downloaded for offline viewing -
+ * only direct files; streams and iframes can't be saved
+ */
+export function isDownloadableProvider(provider: VideoProviderId): boolean {
+  return VIDEO_PROVIDERS.find(p => p.id === provider)?.downloadable ?? false;
+}
+
+/**
+ * Whether the provider reports real playback time or only an estimate
+ */
+export function getPlaybackTiming(provider: VideoProviderId): PlaybackTiming {
+  return VIDEO_PROVIDERS.find(p => p.id === provider)?.timing || 'estimated';
+}
@@ -0,0 +1,119 @@
+/**
+ * WebVTT captions: parsing, fetching (cached per URL) and cue lookup for
+ * the transcript pane and search
+ */
+
+import { ByteCaption } from '@/types/byte';
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// "01:02:03.456" or "02:03.456" -> seconds
+function parseCueTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})$/);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+// Cue text without voice/styling tags and entities
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+}
+
+export function parseWebVTT(source: string): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  // Blocks are separated by blank lines; the first is the WEBVTT header
+  const blocks = source.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    // Headers, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    const start = parseCueTime(startPart);
+    // Cue settings ("align:start") follow the end time
+    const end = parseCueTime(endPart.trim().split(/\s+/)[0]);
+    if (start === null || end === null) continue;
+
+    const text = cleanCueText(lines.slice(timingIndex + 1).join('\n'));
+    if (text) cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+const cueCache = new Map<string, Promise<CaptionCue[]>>();
+
+// Fetch and parse a captions file once per URL; failed loads can be retried
+export function loadCaptionCues(url: string): Promise<CaptionCue[]> {
+  let cues = cueCache.get(url);
+  if (!cues) {
+    cues = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch captions (${response.status})`);
+        return response.text();
+      })
+      .then(parseWebVTT);
+    cues.catch(() => cueCache.delete(url));
+    cueCache.set(url, cues);
+  }
+  return cues;
+}
+
+/**
+ * The caption track to show: the catalog's default, else one matching the
+ * browser language, else the first
+ */
+export function pickCaption(captions: ByteCaption[] | undefined, language?: string): ByteCaption | null {
+  if (!captions || captions.length === 0) return null;
+  if (language) {
+    const chosen = captions.find(caption => caption.language === language);
+    if (chosen) return chosen;
+  }
+  const browserLanguage = navigator.language.split('-')[0];
+  return captions.find(caption => caption.default)
+    ?? captions.find(caption => caption.language.split('-')[0] === browserLanguage)
+    ?? captions[0];
+}
+
+// Index of the cue showing at a time, or -1 between cues
+export function findActiveCue(cues: CaptionCue[], time: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= time) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return candidate !== -1 && time < cues[candidate].end ? candidate : -1;
+}
+
+export function cuesToText(cues: CaptionCue[]): string {
+  return cues.map(cue => cue.text).join(' ');
+}
+
+export function getCaptionLabel(caption: ByteCaption): string {
+  if (caption.label) return caption.label;
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: 'language' }).of(caption.language) ?? caption.language;
+  } catch {
+    return caption.language;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Offline queue for likes and feedback
+ *
+ * Writes that fail because there is no connection are kept in localStorage
+ * and replayed in order once the browser is back online. Only the latest
+ * write per byte is kept: liking then unliking offline sends just the
+ * unlike, and an edited rating is sent once.
+ *
+ * Each write belongs to the identity that made it (the account, or the
+ * device when signed out) and is only sent while that identity is current,
+ * so one account's offline writes never reach another's.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { isRateLimited } from '@/lib/rateLimit';
+
+type Functions = Database['public']['Functions'];
+
+export type QueuedWrite =
+  | { rpc: 'add_like'; args: Functions['add_like']['Args'] }
+  | { rpc: 'remove_like'; args: Functions['remove_like']['Args'] }
+  | { rpc: 'submit_feedback'; args: Functions['submit_feedback']['Args'] }
+  | { rpc: 'delete_my_feedback'; args: Functions['delete_my_feedback']['Args'] };
+
+export interface QueuedEntry {
+  // Writes with the same key replace each other
+  key: string;
+  // Who made the write, as the server's request_identity: user:<id> or fp:<fingerprint>
+  identity: string;
+  write: QueuedWrite;
+  queuedAt: string;
+}
+
+const WRITE_QUEUE_STORAGE_KEY = 'conceptCapsuleWriteQueue';
+
+const listeners = new Set<() => void>();
+let isFlushing = false;
+
+type WriteKind = 'like' | 'feedback';
+
+function getKey(identity: string, kind: WriteKind, courseId: string, byteId: string): string {
+  return `${identity}:${kind}:${courseId}:${byteId}`;
+}
+
+function getWriteKey(identity: string, { rpc, args }: QueuedWrite): string {
+  const kind = rpc === 'add_like' || rpc === 'remove_like' ? 'like' : 'feedback';
+  return getKey(identity, kind, args.p_course_id, args.p_byte_id);
+}
+
+function readWriteQueue(): QueuedEntry[] {
+  try {
+    const stored = localStorage.getItem(WRITE_QUEUE_STORAGE_KEY);
+    const queue: QueuedEntry[] = stored ? JSON.parse(stored) : [];
+    // Entries queued before writes were tied to an identity can't be sent safely
+    return queue.filter(entry => typeof entry.identity === 'string');
+  } catch (error) {
+    console.error('Error reading write queue:', error);
+    return [];
+  }
+}
+
+function saveWriteQueue(queue: QueuedEntry[]) {
+  try {
+    localStorage.setItem(WRITE_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving write queue:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeWriteQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Failures worth retrying later, as opposed to writes the server refused
+export function isNetworkError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  const message = typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+// The identity's writes still waiting to be sent
+export function getPendingWrites(identity: string): QueuedEntry[] {
+  return readWriteQueue().filter(entry => entry.identity === identity);
+}
+
+export function enqueueWrite(identity: string, write: QueuedWrite) {
+  const key = getWriteKey(identity, write);
+  const queue = readWriteQueue().filter(entry => entry.key !== key);
+  saveWriteQueue([...queue, { key, identity, write, queuedAt: new Date().toISOString() }]);
+}
+
+// The identity's queued like/unlike or feedback write for a byte, if one is waiting
+export function getQueuedWrite(identity: string, kind: WriteKind, courseId: string, byteId: string): QueuedWrite | null {
+  const key = getKey(identity, kind, courseId, byteId);
+  return readWriteQueue().find(entry => entry.key === key)?.write ?? null;
+}
+
+// Forget the queued write for a byte once a newer one reached the server,
+// so replaying it later can't undo that
+export function removeQueuedWrite(identity: string, kind: WriteKind, courseId: string, byteId: string) {
+  const key = getKey(identity, kind, courseId, byteId);
+  const queue = readWriteQueue();
+  if (queue.some(entry => entry.key === key)) {
+    saveWriteQueue(queue.filter(entry => entry.key !== key));
+  }
+}
+
+function removeEntry(entry: QueuedEntry) {
+  // Compare by time too - the same key may have been queued again meanwhile
+  saveWriteQueue(readWriteQueue().filter(queued =>
+    queued.key !== entry.key || queued.queuedAt !== entry.queuedAt
+  ));
+}
+
+/**
+ * Send the current identity's queued writes in order. Stops at the first
+ * network failure or rate limit so the rest are retried later; writes the
+ * server rejects are dropped. The identity is checked before each write,
+ * since signing in or out mid-flush changes who the server writes for.
+ */
+export async function flushWriteQueue(getIdentity: () => string | null) {
+  const identity = getIdentity();
+  if (isFlushing || !identity || !navigator.onLine) return;
+  isFlushing = true;
+
+  try {
+    for (const entry of getPendingWrites(identity)) {
+      if (getIdentity() !== identity) break;
+      const { error } = await supabase.rpc(entry.write.rpc, entry.write.args);
+      if (error && (isNetworkError(error) || isRateLimited(error))) break;
+      if (error) {
+        console.error(`Dropping queued ${entry.write.rpc}:`, error);
+      }
+      removeEntry(entry);
+    }
+  } finally {
+    isFlushing = false;
+  }
+}
@@ -1,5 +1,9 @@
-import { useState, useMemo } from 'react';
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAdminAnalytics } from '@/hooks/useAdminAnalytics';
+import { useCourse } from '@/hooks/useCourse';
+import { useCourses } from '@/hooks/useCourses';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
@@ -8,6 +12,7 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ThumbsUp, Star, Users, MessageSquare, Search, ArrowUpDown, Download, RefreshCw, ChevronDown, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -15,23 +20,16 @@ type SortField = 'likes' | 'avgRating' | 'feedbackCount' | 'byte_name';
 type SortDirection = 'asc' | 'desc';
 
 export default function Admin() {
+  const course = useCourse();
+  const { courses } = useCourses();
+  const navigate = useNavigate();
   const { analytics, videoAnalytics, loading, error, refresh } = useAdminAnalytics();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortField, setSortField] = useState<SortField>('likes');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-
-  // Create a mapping from fingerprint to anonymized user number
-  const userFingerprintMap = useMemo(() => {
-    const allFingerprints = new Set<string>();
-    videoAnalytics.forEach(video => {
-      video.comments.forEach(c => allFingerprints.add(c.user_fingerprint));
-    });
-    const map = new Map<string, number>();
-    Array.from(allFingerprints).forEach((fp, idx) => map.set(fp, idx + 1));
-    return map;
-  }, [videoAnalytics]);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
   const toggleRow = (byteId: string) => {
     setExpandedRows(prev => {
@@ -90,6 +88,13 @@ export default function Admin() {
       return sortDirection === 'asc' ? (aVal as number) - (bVal as number) : (bVal as number) - (aVal as number);
     });
 
+  const handleRefresh = async () => {
+    if (isRefreshing) return;
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
+
   const exportToCSV = () => {
     const headers = ['Video Name', 'Description', 'Topics', 'Likes', 'Avg Rating', 'Feedback Count'];
     const rows = filteredAndSortedVideos.map(video => [
@@ -108,13 +113,19 @@ export default function Admin() {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `video-analytics-${new Date().toISOString().split('T')[0]}.csv`;
+    link.download = `video-analytics-${course.id}-${new Date().toISOString().split('T')[0]}.csv`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
+  useKeyboardShortcuts('admin', {
+    focusSearch: () => searchInputRef.current?.focus(),
+    refreshAnalytics: handleRefresh,
+    exportAnalytics: exportToCSV,
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -140,16 +151,27 @@ export default function Admin() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold text-foreground">Admin Analytics</h1>
-            <p className="text-muted-foreground mt-1">Video engagement and feedback overview</p>
+            <p className="text-muted-foreground mt-1">{course.title} video engagement and feedback overview</p>
           </div>
           <div className="flex gap-2">
+            {courses.length > 1 && (
+              <Select
+                value={course.id}
+                onValueChange={(courseId) => navigate(`/courses/${courseId}/admin`)}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Button 
               variant="outline" 
-              onClick={async () => {
-                setIsRefreshing(true);
-                await refresh();
-                setIsRefreshing(false);
-              }}
+              onClick={handleRefresh}
               disabled={isRefreshing}
               className="gap-2"
             >
@@ -176,7 +198,7 @@ export default function Admin() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{analytics?.totalUniqueUsers || 0}</div>
-              <p className="text-xs text-muted-foreground">Based on browser fingerprints</p>
+              <p className="text-xs text-muted-foreground">Accounts plus anonymous browsers</p>
             </CardContent>
           </Card>
 
@@ -221,6 +243,7 @@ export default function Admin() {
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
+              ref={searchInputRef}
               placeholder="Search videos or topics..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -390,7 +413,7 @@ export default function Admin() {
                                         <div key={idx} className="flex items-start gap-3 p-2 rounded bg-background border text-sm">
                                           <div className="flex items-center gap-1 text-muted-foreground shrink-0">
                                             <User className="h-3 w-3" />
-                                            <span className="text-xs">User #{userFingerprintMap.get(c.user_fingerprint)}</span>
+                                            <span className="text-xs">User #{c.reviewer_number}</span>
                                           </div>
                                           <div className="flex items-center gap-0.5 shrink-0">
                                             {Array.from({ length: 5 }).map((_, i) => (
@@ -495,7 +518,7 @@ export default function Admin() {
                         <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
                           <div className="flex items-center gap-1">
                             <User className="h-3 w-3" />
-                            <span>User #{userFingerprintMap.get(rating.user_fingerprint)}</span>
+                            <span>User #{rating.reviewer_number}</span>
                           </div>
                           <span>•</span>
                           <span>{new Date(rating.created_at).toLocaleString()}</span>
@@ -0,0 +1,86 @@
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowRight, Loader2, Pill } from 'lucide-react';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { useCourses } from '@/hooks/useCourses';
+import { Course } from '@/types/course';
+
+// Course cards use the course's own hue, falling back to the app primary
+function getCourseAccent(course: Course): string {
+  return course.branding?.hue !== undefined
+    ? `hsl(${course.branding.hue} 70% 45%)`
+    : 'hsl(var(--primary))';
+}
+
+export default function Courses() {
+  const { courses, loading, error } = useCourses();
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <motion.header
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="h-16 px-6 flex items-center justify-between"
+      >
+        <Link to="/" className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl gradient-hero flex items-center justify-center shadow-glow">
+            <Pill className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <span className="font-display font-bold text-xl text-foreground">
+            Concept Capsule
+          </span>
+        </Link>
+        <ThemeToggle />
+      </motion.header>
+
+      <main className="container mx-auto px-6 pt-8 pb-24 max-w-5xl">
+        <h1 className="text-4xl font-display font-bold text-foreground mb-2">Courses</h1>
+        <p className="text-muted-foreground mb-10">Pick a course to start revising.</p>
+
+        {loading && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-destructive font-medium">Failed to load courses: {error}</p>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {courses.map((course, index) => (
+            <motion.div
+              key={course.id}
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Link
+                to={`/courses/${course.id}/watch`}
+                className="group block h-full p-6 rounded-3xl glass hover:shadow-medium transition-all duration-300"
+              >
+                <div
+                  className="w-12 h-1.5 rounded-full mb-5"
+                  style={{ backgroundColor: getCourseAccent(course) }}
+                />
+                <h2 className="text-2xl font-display font-bold text-foreground">{course.title}</h2>
+                <p className="text-sm font-medium mt-1" style={{ color: getCourseAccent(course) }}>
+                  {course.tagline}
+                </p>
+                <p className="text-muted-foreground mt-3">{course.description}</p>
+                <div className="flex items-center justify-between mt-6 text-sm text-muted-foreground">
+                  <span>{course.topics.length} topics</span>
+                  <span className="flex items-center gap-1 font-medium text-foreground">
+                    Start
+                    <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                  </span>
+                </div>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
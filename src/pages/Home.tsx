@@ -1,9 +1,10 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Play, Zap, BookOpen, ArrowRight, Pill, Maximize2, Minimize2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 
 const benefits = [
   {
@@ -44,6 +45,11 @@ export default function Home() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  useKeyboardShortcuts('home', {
+    startWatching: handleStartWatching,
+    toggleFullscreen: handleToggleFullscreen,
+  });
+
   return (
     <div ref={containerRef} className="min-h-screen bg-background overflow-hidden">
       {/* Decorative Background */}
@@ -134,6 +140,14 @@ export default function Home() {
               Start Watching
               <ArrowRight className="w-5 h-5 ml-2 group-hover:translate-x-1 transition-transform" />
             </Button>
+            <div className="mt-4">
+              <Link
+                to="/courses"
+                className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Browse all courses
+              </Link>
+            </div>
           </motion.div>
         </div>
 
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Brain, CheckCircle2, Loader2 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { VideoPlayer } from '@/components/VideoPlayer';
+import { Button } from '@/components/ui/button';
+import { useBytes } from '@/hooks/useBytes';
+import { useCourse } from '@/hooks/useCourse';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
+import { useVideoProgress, PlaybackSample } from '@/hooks/useVideoProgress';
+import { useToast } from '@/hooks/use-toast';
+import { getReviewPath, getWatchPath } from '@/lib/deepLink';
+import { getTopicMastery } from '@/lib/mastery';
+import { ReviewCards, ReviewGrade, SELF_RATINGS, gradeFromQuiz, reviewCard } from '@/lib/spacedRepetition';
+import { Byte } from '@/types/byte';
+
+/**
+ * Today's review session: the bytes due for review, played back to back,
+ * each graded by its quiz or the learner's own rating
+ */
+export default function Review() {
+  const course = useCourse();
+  const { bytes, loading, error } = useBytes(course);
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const {
+    progress,
+    updateProgress,
+    markCompleted,
+    recordQuizResult,
+    getCompletedCount,
+    resetAllProgress,
+  } = useVideoProgress(course.id);
+  const { cards, dueBytes, recordReview } = useReviewQueue(bytes, progress);
+
+  // Fixed when the catalog loads, so grading a byte doesn't reshuffle the session
+  const [session, setSession] = useState<Byte[] | null>(null);
+  // The cards as they were then; a byte graded twice (quiz, then own rating)
+  // is re-graded from its starting card rather than reviewed twice
+  const [sessionCards, setSessionCards] = useState<ReviewCards>({});
+  const [index, setIndex] = useState(0);
+  const [graded, setGraded] = useState<Record<string, ReviewGrade>>({});
+
+  useEffect(() => {
+    if (!loading && session === null) {
+      setSession(dueBytes);
+      setSessionCards(cards);
+    }
+  }, [loading, session, dueBytes, cards]);
+
+  const currentByte = session?.[index] ?? null;
+  const nextByte = session?.[index + 1] ?? null;
+
+  const handleNext = useCallback(() => setIndex(prev => prev + 1), []);
+  const handlePrevious = useCallback(() => setIndex(prev => Math.max(prev - 1, 0)), []);
+
+  const grade = useCallback((byteId: string, value: ReviewGrade) => {
+    const card = reviewCard(sessionCards[byteId], value);
+    recordReview(byteId, value, sessionCards);
+    setGraded(prev => ({ ...prev, [byteId]: value }));
+    toast({
+      title: value < 3 ? "We'll bring this back tomorrow" : 'Reviewed',
+      description: `Next review in ${card.interval} day${card.interval === 1 ? '' : 's'}.`,
+    });
+  }, [sessionCards, recordReview, toast]);
+
+  const handleRate = useCallback((value: ReviewGrade) => {
+    if (!currentByte) return;
+    grade(currentByte.byte_id, value);
+    handleNext();
+  }, [currentByte, grade, handleNext]);
+
+  const handleQuizComplete = useCallback((correct: number, total: number) => {
+    if (!currentByte) return;
+    recordQuizResult(currentByte.byte_id, correct, total);
+    grade(currentByte.byte_id, gradeFromQuiz(correct, total));
+  }, [currentByte, recordQuizResult, grade]);
+
+  const handleProgressUpdate = useCallback((sample: PlaybackSample) => {
+    if (currentByte) updateProgress(currentByte.byte_id, sample);
+  }, [currentByte, updateProgress]);
+
+  const handleToggleFullscreen = useCallback(async () => {
+    if (!document.fullscreenElement && containerRef.current) {
+      await containerRef.current.requestFullscreen();
+    } else if (document.fullscreenElement) {
+      await document.exitFullscreen();
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useKeyboardShortcuts('watch', {
+    toggleFullscreen: handleToggleFullscreen,
+  });
+
+  if (loading || session === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="flex flex-col items-center gap-4"
+        >
+          <Loader2 className="w-10 h-10 text-primary animate-spin" />
+          <p className="text-muted-foreground font-medium">Loading your reviews...</p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center px-4">
+          <p className="text-destructive font-medium">Failed to load videos</p>
+          <p className="text-muted-foreground text-sm mt-1">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const reviewedCount = Object.keys(graded).length;
+
+  return (
+    <div ref={containerRef} className="h-screen flex flex-col bg-background overflow-hidden">
+      <Header
+        courseTitle={course.title}
+        showProgress
+        completed={getCompletedCount()}
+        total={bytes.length}
+        mastery={getTopicMastery(course, bytes, progress)}
+        onResetProgress={resetAllProgress}
+        reviewPath={getReviewPath(course.id)}
+        reviewCount={dueBytes.length}
+      />
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 lg:p-6">
+        {currentByte ? (
+          <div className="h-full flex flex-col gap-4">
+            <div className="flex-1 min-h-[400px]">
+              <VideoPlayer
+                key={currentByte.byte_id}
+                byte={currentByte}
+                bytes={bytes}
+                byteNumber={index + 1}
+                totalBytes={session.length}
+                isCompleted={progress[currentByte.byte_id]?.isCompleted ?? false}
+                nextByte={nextByte}
+                onPrevious={handlePrevious}
+                onNext={handleNext}
+                onProgressUpdate={handleProgressUpdate}
+                onMarkCompleted={() => markCompleted(currentByte.byte_id)}
+                isFullscreen={isFullscreen}
+                onToggleFullscreen={handleToggleFullscreen}
+                autoStart={index > 0}
+                resumePosition={0}
+                quizResult={progress[currentByte.byte_id]?.quiz}
+                onQuizComplete={handleQuizComplete}
+              />
+            </div>
+
+            {/* Self-rating */}
+            <div className="glass rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-foreground flex items-center gap-2">
+                  <Brain className="w-4 h-4 text-primary" />
+                  How well did you remember this?
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {graded[currentByte.byte_id] !== undefined
+                    ? 'Graded - rate it yourself to change the grade.'
+                    : 'Rate it to schedule the next review, or take the quiz.'}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {SELF_RATINGS.map(rating => (
+                  <Button
+                    key={rating.grade}
+                    variant={rating.grade < 3 ? 'outline' : 'secondary'}
+                    size="sm"
+                    className="rounded-xl"
+                    title={rating.description}
+                    onClick={() => handleRate(rating.grade)}
+                  >
+                    {rating.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="h-full flex flex-col items-center justify-center text-center gap-4"
+          >
+            <div className="w-14 h-14 rounded-2xl gradient-primary flex items-center justify-center">
+              <CheckCircle2 className="w-7 h-7 text-primary-foreground" />
+            </div>
+            <div>
+              <h2 className="font-display font-bold text-2xl text-foreground">
+                {session.length === 0 ? 'Nothing due for review' : 'Review done for today'}
+              </h2>
+              <p className="text-muted-foreground mt-1">
+                {session.length === 0
+                  ? 'Completed capsules come back here when it is time to revise them.'
+                  : `You reviewed ${reviewedCount} of ${session.length} capsule${session.length === 1 ? '' : 's'}.`}
+              </p>
+            </div>
+            <Button asChild className="rounded-xl">
+              <Link to={getWatchPath(course.id)}>Back to the course</Link>
+            </Button>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
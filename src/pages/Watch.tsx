@@ -1,14 +1,27 @@
-import { useState, useEffect, useCallback, useRef, useLayoutEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo, useRef, useLayoutEffect } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Header } from '@/components/Header';
 import { PlaylistPanel } from '@/components/PlaylistPanel';
 import { VideoPlayer } from '@/components/VideoPlayer';
+import { ExercisePanel } from '@/components/ExercisePanel';
+import { CatalogIssuesNotice } from '@/components/CatalogIssuesNotice';
+import { SearchPalette } from '@/components/SearchPalette';
 import { useBytes } from '@/hooks/useBytes';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
-import { useVideoProgress } from '@/hooks/useVideoProgress';
+import { useVideoProgress, PlaybackSample } from '@/hooks/useVideoProgress';
+import { useTranscripts } from '@/hooks/useTranscript';
+import { useCourse } from '@/hooks/useCourse';
+import { useToast } from '@/hooks/use-toast';
 import { WatchState, STORAGE_KEY, Byte } from '@/types/byte';
+import { getCourseStorageKey } from '@/types/course';
+import { getTopicMastery } from '@/lib/mastery';
+import { gradeFromQuiz } from '@/lib/spacedRepetition';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
+import { usePlaylists } from '@/hooks/usePlaylists';
+import { PLAYLIST_PARAM, SharedPlaylist, decodePlaylist, getPlaylistBytes } from '@/lib/playlists';
+import { BYTE_PARAM, TIME_PARAM, ByteDeepLink, getReviewPath, getWatchPath, parseTimeParam } from '@/lib/deepLink';
 import { Loader2 } from 'lucide-react';
 import {
   ResizablePanelGroup,
@@ -24,31 +37,124 @@ const defaultState: WatchState = {
   leftPanelSize: 25, // Default size percentage
 };
 
+const PRACTICE_PANEL_SIZE = 35; // Percentage
+
 export default function Watch() {
-  const { bytes, loading, error } = useBytes();
-  const [state, setState] = useLocalStorage<WatchState>(STORAGE_KEY, defaultState);
+  const course = useCourse();
+  const { bytes, loading, error, catalogIssues } = useBytes(course);
+  const [state, setState] = useLocalStorage<WatchState>(
+    getCourseStorageKey(STORAGE_KEY, course.id),
+    defaultState
+  );
   const [currentByte, setCurrentByte] = useState<Byte | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [autoStartVideo, setAutoStartVideo] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
+  const { byteId: byteIdParam } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // Caption text is only fetched once the search palette is opened
+  const transcripts = useTranscripts(bytes, searchOpen);
   const containerRef = useRef<HTMLDivElement>(null);
+
+  // Byte and timestamp requested by the URL, applied once the catalog loads
+  const [deepLink, setDeepLink] = useState<ByteDeepLink | null>(null);
+  const [linkedStart, setLinkedStart] = useState<{ byteId: string; position: number } | null>(null);
+  const [sharedPlaylist, setSharedPlaylist] = useState<SharedPlaylist | null>(null);
   
   // Progress tracking
   const { 
+    progress,
     getProgress, 
     updateProgress,
     markCompleted,
+    recordQuizResult,
     getCompletedVideos,
     getCompletedCount,
     resetAllProgress,
-  } = useVideoProgress();
+  } = useVideoProgress(course.id);
 
   const completedVideos = getCompletedVideos();
   const completedCount = getCompletedCount();
+  const mastery = useMemo(() => getTopicMastery(course, bytes, progress), [course, bytes, progress]);
+  const { dueBytes, isDue, recordReview } = useReviewQueue(bytes, progress);
+  const playlists = usePlaylists();
+  const { activePlaylist, setActivePlaylist, importPlaylist } = playlists;
+
+  // Completed bytes restart from the beginning
+  const currentByteProgress = currentByte ? getProgress(currentByte.byte_id) : null;
+  const resumePosition = currentByteProgress && !currentByteProgress.isCompleted
+    ? currentByteProgress.lastPosition
+    : 0;
+
+  // Pick up /watch/:byteId, ?byte=...&t=... and ?playlist=...
+  useEffect(() => {
+    const byteId = byteIdParam || searchParams.get(BYTE_PARAM);
+    if (byteId) {
+      setDeepLink({ byteId, startAt: parseTimeParam(searchParams.get(TIME_PARAM)) });
+    }
+
+    const playlistParam = searchParams.get(PLAYLIST_PARAM);
+    if (playlistParam) {
+      const shared = decodePlaylist(playlistParam);
+      if (shared) {
+        setSharedPlaylist(shared);
+      } else {
+        navigate(getWatchPath(course.id), { replace: true });
+        toast({
+          title: "Playlist not found",
+          description: "The shared playlist link is incomplete or broken.",
+        });
+      }
+    }
+  }, [byteIdParam, searchParams, course.id, navigate, toast]);
 
-  // Initialize current byte
+  // Initialize current byte - a shared playlist or deep link wins over the last watched byte
   useEffect(() => {
     if (bytes.length > 0) {
+      // A shared playlist is added to the learner's and played from its first byte
+      if (sharedPlaylist) {
+        const byteIds = sharedPlaylist.byteIds.filter(id => bytes.some(b => b.byte_id === id));
+        setSharedPlaylist(null);
+        navigate(getWatchPath(course.id), { replace: true });
+
+        if (byteIds.length > 0) {
+          importPlaylist({ name: sharedPlaylist.name, byteIds });
+          setState(prev => ({ ...prev, lastVideoId: byteIds[0] }));
+          toast({
+            title: "Playlist added",
+            description: `"${sharedPlaylist.name}" is now in your playlists.`,
+          });
+          return;
+        }
+        toast({
+          title: "Playlist not found",
+          description: "None of the shared playlist's capsules are in this course.",
+        });
+      }
+
+      if (deepLink) {
+        const linkedByte = bytes.find(b => b.byte_id === deepLink.byteId);
+        setDeepLink(null);
+
+        // Drop the link from the URL so it doesn't go stale while browsing
+        navigate(getWatchPath(course.id), { replace: true });
+
+        // Selected through lastVideoId so the two never disagree
+        if (linkedByte) {
+          setState(prev => ({ ...prev, lastVideoId: linkedByte.byte_id }));
+          if (deepLink.startAt !== null) {
+            setLinkedStart({ byteId: linkedByte.byte_id, position: deepLink.startAt });
+          }
+          return;
+        }
+        toast({
+          title: "Capsule not found",
+          description: `The linked capsule "${deepLink.byteId}" isn't in this course.`,
+        });
+      }
+
       if (state.lastVideoId) {
         const lastByte = bytes.find(b => b.byte_id === state.lastVideoId);
         setCurrentByte(lastByte || bytes[0]);
@@ -56,7 +162,7 @@ export default function Watch() {
         setCurrentByte(bytes[0]);
       }
     }
-  }, [bytes, state.lastVideoId]);
+  }, [bytes, state.lastVideoId, deepLink, sharedPlaylist, course.id, navigate, toast, setState, importPlaylist]);
 
   // Update last watched video
   useEffect(() => {
@@ -65,21 +171,42 @@ export default function Watch() {
     }
   }, [currentByte, setState]);
 
+  // Prev/next follow the active playlist while the current byte is in it
+  const sequence = useMemo(() => {
+    const playlistBytes = activePlaylist ? getPlaylistBytes(activePlaylist, bytes) : [];
+    return currentByte && playlistBytes.some(b => b.byte_id === currentByte.byte_id)
+      ? playlistBytes
+      : bytes;
+  }, [activePlaylist, bytes, currentByte]);
+
   const currentIndex = currentByte
-    ? bytes.findIndex(b => b.byte_id === currentByte.byte_id)
+    ? sequence.findIndex(b => b.byte_id === currentByte.byte_id)
     : 0;
 
   const handleSelectByte = useCallback((byte: Byte) => {
+    // Picking a byte outside the active playlist goes back to the course order
+    if (activePlaylist && !activePlaylist.byteIds.includes(byte.byte_id)) {
+      setActivePlaylist(null);
+    }
     setCurrentByte(byte);
+    setLinkedStart(null);
     setAutoStartVideo(true); // Auto-start when selected from playlist
-  }, []);
+  }, [activePlaylist, setActivePlaylist]);
+
+  const handlePlayFromPlaylist = useCallback((byte: Byte, playlistId: string) => {
+    setActivePlaylist(playlistId);
+    setCurrentByte(byte);
+    setLinkedStart(null);
+    setAutoStartVideo(true);
+  }, [setActivePlaylist]);
 
   const handlePrevious = useCallback(() => {
     if (currentIndex > 0) {
-      setCurrentByte(bytes[currentIndex - 1]);
+      setCurrentByte(sequence[currentIndex - 1]);
+      setLinkedStart(null);
       setAutoStartVideo(true);
     }
-  }, [bytes, currentIndex]);
+  }, [sequence, currentIndex]);
 
   const handleNext = useCallback(() => {
     // Mark current video as complete before navigating
@@ -88,11 +215,12 @@ export default function Watch() {
     }
     
     // Navigate to next video
-    if (currentIndex < bytes.length - 1) {
-      setCurrentByte(bytes[currentIndex + 1]);
+    if (currentIndex < sequence.length - 1) {
+      setCurrentByte(sequence[currentIndex + 1]);
+      setLinkedStart(null);
       setAutoStartVideo(true);
     }
-  }, [bytes, currentIndex, currentByte, markCompleted]);
+  }, [sequence, currentIndex, currentByte, markCompleted]);
 
   // Reset autoStartVideo after it's consumed
   useEffect(() => {
@@ -103,9 +231,9 @@ export default function Watch() {
   }, [currentByte, autoStartVideo]);
 
   // Handle progress update from video player
-  const handleProgressUpdate = useCallback((percentage: number) => {
+  const handleProgressUpdate = useCallback((sample: PlaybackSample) => {
     if (currentByte) {
-      updateProgress(currentByte.byte_id, percentage);
+      updateProgress(currentByte.byte_id, sample);
     }
   }, [currentByte, updateProgress]);
 
@@ -147,21 +275,41 @@ export default function Watch() {
     setState(prev => ({ ...prev, leftPanelOpen: !prev.leftPanelOpen }));
   }, [setState]);
 
+  // The practice panel uses the right-hand panel slot
+  const handleTogglePractice = useCallback(() => {
+    setState(prev => ({ ...prev, rightPanelOpen: !prev.rightPanelOpen }));
+  }, [setState]);
+
+  const handleQuizComplete = useCallback((correct: number, total: number) => {
+    if (!currentByte) return;
+    recordQuizResult(currentByte.byte_id, correct, total);
+    // A quiz on a byte that's due counts as its review
+    if (isDue(currentByte.byte_id)) {
+      recordReview(currentByte.byte_id, gradeFromQuiz(correct, total));
+    }
+  }, [currentByte, recordQuizResult, isDue, recordReview]);
+
+  const handleExercisePassed = useCallback(() => {
+    if (currentByte) markCompleted(currentByte.byte_id);
+  }, [currentByte, markCompleted]);
+
   const handlePanelResize = useCallback((sizes: number[]) => {
+    // The first panel is only the playlist while it's open
     if (sizes[0] !== undefined) {
-      setState(prev => ({ ...prev, leftPanelSize: sizes[0] }));
+      setState(prev => (prev.leftPanelOpen ? { ...prev, leftPanelSize: sizes[0] } : prev));
     }
   }, [setState]);
 
+  const handleOpenSearch = useCallback(() => setSearchOpen(true), []);
+
   // Keyboard shortcuts
-  useKeyboardShortcuts({
-    onToggleLeftPanel: handleToggleLeftPanel,
-    onToggleFullscreen: handleToggleFullscreen,
+  useKeyboardShortcuts('watch', {
+    togglePlaylist: handleToggleLeftPanel,
+    toggleFullscreen: handleToggleFullscreen,
+    openSearch: handleOpenSearch,
+    togglePractice: currentByte?.exercise ? handleTogglePractice : undefined,
   });
 
-  // Get current video progress
-  const currentProgress = currentByte ? (getProgress(currentByte.byte_id)?.percentage || 0) : 0;
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -180,24 +328,47 @@ export default function Watch() {
   if (error || !currentByte) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center">
-          <p className="text-destructive font-medium">Failed to load videos</p>
-          <p className="text-muted-foreground text-sm mt-1">{error}</p>
+        <div className="flex flex-col items-center gap-4 px-4 text-center">
+          <div>
+            <p className="text-destructive font-medium">Failed to load videos</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              {error || 'No playable capsules were found in the catalog'}
+            </p>
+          </div>
+          <CatalogIssuesNotice issues={catalogIssues} variant="standalone" />
         </div>
       </div>
     );
   }
 
+  const isPracticeOpen = state.rightPanelOpen && !!currentByte.exercise;
+
   return (
     <div ref={containerRef} className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Header */}
       <Header
+        courseTitle={course.title}
         showProgress
         completed={completedCount}
         total={bytes.length}
+        mastery={mastery}
         onResetProgress={resetAllProgress}
+        onOpenSearch={handleOpenSearch}
+        reviewPath={getReviewPath(course.id)}
+        reviewCount={dueBytes.length}
+      />
+
+      <SearchPalette
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        bytes={bytes}
+        transcripts={transcripts}
+        onSelectByte={handleSelectByte}
       />
 
+      {/* Catalog problems - the valid capsules still load */}
+      <CatalogIssuesNotice issues={catalogIssues} />
+
       {/* Main Content */}
       <div className="flex-1 min-h-0">
         <ResizablePanelGroup
@@ -209,6 +380,8 @@ export default function Watch() {
           {state.leftPanelOpen && (
             <>
               <ResizablePanel
+                id="playlist"
+                order={1}
                 defaultSize={state.leftPanelSize || 25}
                 minSize={15}
                 maxSize={40}
@@ -222,6 +395,8 @@ export default function Watch() {
                   onToggle={handleToggleLeftPanel}
                   onSelectByte={handleSelectByte}
                   getProgress={getProgress}
+                  playlists={playlists}
+                  onPlayFromPlaylist={handlePlayFromPlaylist}
                 />
               </ResizablePanel>
               <ResizableHandle withHandle className="bg-border/50 hover:bg-primary/20 transition-colors" />
@@ -229,18 +404,22 @@ export default function Watch() {
           )}
 
           {/* Center - Video Player */}
-          <ResizablePanel defaultSize={state.leftPanelOpen ? (100 - (state.leftPanelSize || 25)) : 100}>
+          <ResizablePanel
+            id="player"
+            order={2}
+            defaultSize={(state.leftPanelOpen ? (100 - (state.leftPanelSize || 25)) : 100) - (isPracticeOpen ? PRACTICE_PANEL_SIZE : 0)}
+          >
             <motion.div
               layout
               className="h-full p-4 lg:p-6"
             >
               <VideoPlayer
                 byte={currentByte}
+                bytes={bytes}
                 byteNumber={currentIndex + 1}
-                totalBytes={bytes.length}
+                totalBytes={sequence.length}
                 isCompleted={completedVideos.includes(currentByte.byte_id)}
-                currentProgress={currentProgress}
-                nextByte={currentIndex < bytes.length - 1 ? bytes[currentIndex + 1] : null}
+                nextByte={currentIndex < sequence.length - 1 ? sequence[currentIndex + 1] : null}
                 onPrevious={handlePrevious}
                 onNext={handleNext}
                 onProgressUpdate={handleProgressUpdate}
@@ -248,9 +427,36 @@ export default function Watch() {
                 isFullscreen={isFullscreen}
                 onToggleFullscreen={handleToggleFullscreen}
                 autoStart={autoStartVideo}
+                resumePosition={resumePosition}
+                startAt={linkedStart?.byteId === currentByte.byte_id ? linkedStart.position : undefined}
+                isPracticeOpen={isPracticeOpen}
+                onTogglePractice={handleTogglePractice}
+                quizResult={currentByteProgress?.quiz}
+                onQuizComplete={handleQuizComplete}
               />
             </motion.div>
           </ResizablePanel>
+
+          {/* Right Panel - Practice exercise */}
+          {isPracticeOpen && (
+            <>
+              <ResizableHandle withHandle className="bg-border/50 hover:bg-primary/20 transition-colors" />
+              <ResizablePanel
+                id="practice"
+                order={3}
+                defaultSize={PRACTICE_PANEL_SIZE}
+                minSize={20}
+                maxSize={50}
+                className="min-w-[260px]"
+              >
+                <ExercisePanel
+                  byte={currentByte}
+                  onClose={handleTogglePractice}
+                  onPassed={handleExercisePassed}
+                />
+              </ResizablePanel>
+            </>
+          )}
         </ResizablePanelGroup>
 
         {/* Collapsed panel toggle button */}
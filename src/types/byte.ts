@@ -1,3 +1,49 @@
+// A WebVTT captions file for a byte
+export interface ByteCaption {
+  url: string;
+  // BCP 47 language tag, e.g. "en" or "pt-BR"
+  language: string;
+  // Shown in the language picker; defaults to the language's name
+  label?: string;
+  default?: boolean;
+}
+
+// A hidden check of an exercise, run after the learner's code
+export interface ExerciseTest {
+  // Shown to the learner with pass/fail; the code stays hidden
+  name: string;
+  // Python run in the learner's namespace, e.g. "assert area(2) == 4" - passes unless it raises
+  code: string;
+}
+
+// A Python practice task shown next to the video
+export interface ByteExercise {
+  prompt: string;
+  starter_code: string;
+  tests?: ExerciseTest[];
+  // What the code must print, compared without trailing whitespace
+  expected_output?: string;
+}
+
+// A check-yourself question shown after the video
+export type QuizQuestion =
+  | {
+      type: 'multiple_choice';
+      question: string;
+      options: string[];
+      // Index into options
+      answer: number;
+      explanation?: string;
+    }
+  | {
+      type: 'fill_blank';
+      // Marks the blank with ___
+      question: string;
+      // Accepted answers, compared ignoring case and extra spaces
+      answers: string[];
+      explanation?: string;
+    };
+
 export interface Byte {
   byte_id: string;
   byte_name: string;
@@ -5,6 +51,11 @@ export interface Byte {
   byte_topics: string[];
   byte_url: string;
   duration?: number; // Duration in seconds for progress tracking
+  captions?: ByteCaption[];
+  exercise?: ByteExercise;
+  quiz?: QuizQuestion[];
+  // byte_ids to watch first; the playlist follows them before topic order
+  prerequisites?: string[];
 }
 
 export interface WatchState {
@@ -17,59 +68,6 @@ export interface WatchState {
 
 export const STORAGE_KEY = 'concept-capsule-state';
 
-// Topic mapping from JSON (uppercase with underscores) to display labels
-export const TOPIC_DISPLAY_MAP: Record<string, string> = {
-  'DICTIONARIES': 'Dictionaries',
-  'LISTS': 'Lists',
-  'TUPLES': 'Tuples',
-  'SETS': 'Sets',
-  'STRINGS': 'Strings',
-  'DATA_TYPES': 'Data Types',
-  'RECURSION': 'Recursion',
-  'LOOPS': 'Loops',
-  'CONDITIONAL_STATEMENTS': 'Conditional Statements',
-  'PYTHON_GENERAL': 'Miscellaneous',
-  'TYPE_CONVERSION': 'Type Conversion',
-  'FUNCTIONS': 'Functions',
-};
-
-// Topic keys in alphabetical order (for filter dropdown)
-export const ALL_TOPICS = [
-  'CONDITIONAL_STATEMENTS',
-  'DATA_TYPES',
-  'DICTIONARIES',
-  'FUNCTIONS',
-  'LISTS',
-  'LOOPS',
-  'PYTHON_GENERAL',
-  'RECURSION',
-  'SETS',
-  'STRINGS',
-  'TUPLES',
-  'TYPE_CONVERSION',
-];
-
-// Topic sequence for playlist ordering
-// Data Types -> Type Conversion -> Conditional Statements -> Loops -> Strings -> Lists -> Functions -> Recursion -> Tuples -> Sets -> Dictionaries -> Miscellaneous
-export const TOPIC_SEQUENCE = [
-  'DATA_TYPES',
-  'TYPE_CONVERSION',
-  'CONDITIONAL_STATEMENTS',
-  'LOOPS',
-  'STRINGS',
-  'LISTS',
-  'FUNCTIONS',
-  'RECURSION',
-  'TUPLES',
-  'SETS',
-  'DICTIONARIES',
-  'PYTHON_GENERAL',
-];
-
-export const getTopicDisplayName = (topic: string): string => {
-  return TOPIC_DISPLAY_MAP[topic] || topic;
-};
-
 export const getTopicClass = (topic: string): string => {
   const normalizedTopic = topic.toLowerCase().replace(/\s+/g, '_');
   return `topic-${normalizedTopic}`;
@@ -0,0 +1,62 @@
+// Color names map to the badge palette in TopicBadge
+export type TopicColor =
+  | 'violet'
+  | 'emerald'
+  | 'amber'
+  | 'rose'
+  | 'cyan'
+  | 'indigo'
+  | 'pink'
+  | 'orange'
+  | 'teal'
+  | 'blue'
+  | 'purple'
+  | 'lime';
+
+export interface CourseTopic {
+  // Key used in the catalog's byte_topics (uppercase with underscores)
+  key: string;
+  label: string;
+  color?: TopicColor;
+}
+
+export interface CourseBranding {
+  // Primary hue (0-360) - saturation and lightness follow the theme
+  hue?: number;
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  tagline: string;
+  description: string;
+  // URL of the course's byte catalog, e.g. /data/bytes.json
+  catalog: string;
+  // Topics in playlist order
+  topics: CourseTopic[];
+  branding?: CourseBranding;
+}
+
+export const COURSES_MANIFEST_URL = '/data/courses.json';
+
+// The original Python course, served at /watch
+export const DEFAULT_COURSE_ID = 'python';
+
+/**
+ * Namespace a localStorage key per course.
+ * The default course keeps the original keys so existing progress and notes survive.
+ */
+export const getCourseStorageKey = (baseKey: string, courseId: string): string => {
+  return courseId === DEFAULT_COURSE_ID ? baseKey : `${baseKey}:${courseId}`;
+};
+
+export const getTopicDisplayName = (course: Course, topic: string): string => {
+  return course.topics.find(t => t.key === topic)?.label || topic;
+};
+
+// Topic keys sorted by label (for filter dropdown)
+export const getTopicsAlphabetical = (course: Course): string[] => {
+  return [...course.topics]
+    .sort((a, b) => a.label.localeCompare(b.label))
+    .map(t => t.key);
+};
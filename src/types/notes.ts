@@ -0,0 +1,20 @@
+// Notes saved before Markdown support have no format and are plain text
+export type NoteFormat = 'plain' | 'markdown';
+
+export interface ByteNote {
+  byteId: string;
+  content: string;
+  updatedAt: number;
+  format?: NoteFormat;
+}
+
+// Notes for one course, keyed by byte_id
+export type CourseNotes = Record<string, ByteNote>;
+
+// A timestamp anchor ("[0:12] ...") found in a note
+export interface NoteAnchor {
+  position: number;
+  label: string;
+  // Rest of the anchor's line, used as its caption
+  text: string;
+}
@@ -0,0 +1,19 @@
+// A learner-made list of bytes, played in its own order
+export interface CustomPlaylist {
+  id: string;
+  name: string;
+  byteIds: string[];
+  createdAt: number;
+}
+
+export interface PlaylistsState {
+  playlists: CustomPlaylist[];
+  // Prev/next follow this playlist; null follows the course order
+  activeId: string | null;
+}
+
+// The built-in watch-later queue, kept as the first playlist
+export const WATCH_LATER_ID = 'watch-later';
+export const WATCH_LATER_NAME = 'Watch later';
+
+export const PLAYLISTS_STORAGE_KEY = 'conceptCapsulePlaylists';
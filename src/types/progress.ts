@@ -0,0 +1,29 @@
+import { PlaybackTiming } from '@/lib/videoProviders';
+
+// Latest attempt at a byte's quiz
+export interface QuizResult {
+  correct: number;
+  total: number;
+  attemptedAt: number;
+}
+
+export interface VideoProgressData {
+  // Seconds of continuous playback, capped at the duration
+  watchedSeconds: number;
+  duration: number;
+  percentage: number;
+  // Playback position in seconds when last reported
+  lastPosition: number;
+  lastWatched: number;
+  isCompleted: boolean;
+  // Whether the numbers came from a real player clock or an estimate
+  timing?: PlaybackTiming;
+  quiz?: QuizResult;
+}
+
+export interface VideoProgress {
+  [byteId: string]: VideoProgressData;
+}
+
+// Watched percentage at which a byte counts as completed
+export const COMPLETION_THRESHOLD = 95;
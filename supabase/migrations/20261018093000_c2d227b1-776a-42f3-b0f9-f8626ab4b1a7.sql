@@ -0,0 +1,21 @@
+-- Scope likes and feedback to a course so each course's engagement is kept separate.
+-- Existing rows all belong to the original Python course.
+ALTER TABLE public.video_likes
+  ADD COLUMN course_id TEXT NOT NULL DEFAULT 'python';
+
+ALTER TABLE public.video_feedback
+  ADD COLUMN course_id TEXT NOT NULL DEFAULT 'python';
+
+-- One like per byte per user within a course
+ALTER TABLE public.video_likes
+  DROP CONSTRAINT video_likes_byte_id_user_fingerprint_key;
+
+ALTER TABLE public.video_likes
+  ADD CONSTRAINT video_likes_course_byte_user_key UNIQUE (course_id, byte_id, user_fingerprint);
+
+-- Replace byte-only indexes with course-scoped ones
+DROP INDEX IF EXISTS public.idx_video_likes_byte_id;
+DROP INDEX IF EXISTS public.idx_video_feedback_byte_id;
+
+CREATE INDEX idx_video_likes_course_byte ON public.video_likes(course_id, byte_id);
+CREATE INDEX idx_video_feedback_course_byte ON public.video_feedback(course_id, byte_id);
@@ -0,0 +1,63 @@
+-- Optional accounts: likes and feedback can belong to a signed-in user.
+-- user_fingerprint stays as the anonymous identity and for rows created before sign-in.
+ALTER TABLE public.video_likes
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.video_feedback
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- One like per byte per account within a course
+CREATE UNIQUE INDEX video_likes_course_byte_user_id_key
+  ON public.video_likes(course_id, byte_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX idx_video_likes_user_id ON public.video_likes(user_id);
+CREATE INDEX idx_video_feedback_user_id ON public.video_feedback(user_id);
+
+-- Move the anonymous likes and feedback of a device to the signed-in user.
+-- Runs as definer because the tables have no UPDATE policy; it only ever
+-- touches unclaimed rows with the caller's fingerprint and assigns auth.uid().
+CREATE OR REPLACE FUNCTION public.claim_fingerprint_activity(p_fingerprint TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_likes INTEGER;
+  v_feedback INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to claim activity';
+  END IF;
+
+  -- Likes the account already has (e.g. from another device) win over the device's copy
+  DELETE FROM public.video_likes AS device_like
+  WHERE device_like.user_fingerprint = p_fingerprint
+    AND device_like.user_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.video_likes AS account_like
+      WHERE account_like.user_id = v_user_id
+        AND account_like.course_id = device_like.course_id
+        AND account_like.byte_id = device_like.byte_id
+    );
+
+  UPDATE public.video_likes
+  SET user_id = v_user_id
+  WHERE user_fingerprint = p_fingerprint
+    AND user_id IS NULL;
+  GET DIAGNOSTICS v_likes = ROW_COUNT;
+
+  UPDATE public.video_feedback
+  SET user_id = v_user_id
+  WHERE user_fingerprint = p_fingerprint
+    AND user_id IS NULL;
+  GET DIAGNOSTICS v_feedback = ROW_COUNT;
+
+  RETURN v_likes + v_feedback;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_fingerprint_activity(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_fingerprint_activity(TEXT) TO authenticated;
@@ -0,0 +1,87 @@
+-- Per-user playback progress, synced across devices for signed-in learners
+CREATE TABLE public.video_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id TEXT NOT NULL,
+  byte_id TEXT NOT NULL,
+  watched_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+  duration DOUBLE PRECISION NOT NULL DEFAULT 0,
+  percentage DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK (percentage >= 0 AND percentage <= 100),
+  last_position DOUBLE PRECISION NOT NULL DEFAULT 0,
+  last_watched TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  is_completed BOOLEAN NOT NULL DEFAULT false,
+  timing TEXT CHECK (timing IN ('reported', 'estimated')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, course_id, byte_id)
+);
+
+ALTER TABLE public.video_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own progress"
+  ON public.video_progress FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own progress"
+  ON public.video_progress FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own progress"
+  ON public.video_progress FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own progress"
+  ON public.video_progress FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_video_progress_user_course ON public.video_progress(user_id, course_id);
+
+-- Upsert a batch of progress entries with the same merge rules as the client:
+-- highest percentage and watched time win, completion is sticky, and the
+-- position comes from whichever copy was watched last.
+-- Runs as the caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.merge_video_progress(p_course_id TEXT, p_entries JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.video_progress AS current (
+    user_id, course_id, byte_id, watched_seconds, duration, percentage,
+    last_position, last_watched, is_completed, timing
+  )
+  SELECT
+    auth.uid(), p_course_id, entry.byte_id, entry.watched_seconds, entry.duration,
+    CASE WHEN entry.is_completed THEN 100 ELSE LEAST(entry.percentage, 100) END,
+    entry.last_position, entry.last_watched, entry.is_completed, entry.timing
+  FROM jsonb_to_recordset(p_entries) AS entry(
+    byte_id TEXT,
+    watched_seconds DOUBLE PRECISION,
+    duration DOUBLE PRECISION,
+    percentage DOUBLE PRECISION,
+    last_position DOUBLE PRECISION,
+    last_watched TIMESTAMP WITH TIME ZONE,
+    is_completed BOOLEAN,
+    timing TEXT
+  )
+  ON CONFLICT (user_id, course_id, byte_id) DO UPDATE SET
+    watched_seconds = GREATEST(current.watched_seconds, EXCLUDED.watched_seconds),
+    duration = GREATEST(current.duration, EXCLUDED.duration),
+    is_completed = current.is_completed OR EXCLUDED.is_completed,
+    percentage = CASE
+      WHEN current.is_completed OR EXCLUDED.is_completed THEN 100
+      ELSE GREATEST(current.percentage, EXCLUDED.percentage)
+    END,
+    last_position = CASE
+      WHEN EXCLUDED.last_watched > current.last_watched THEN EXCLUDED.last_position
+      ELSE current.last_position
+    END,
+    timing = CASE
+      WHEN EXCLUDED.last_watched > current.last_watched THEN EXCLUDED.timing
+      ELSE current.timing
+    END,
+    last_watched = GREATEST(current.last_watched, EXCLUDED.last_watched),
+    updated_at = now();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_video_progress(TEXT, JSONB) TO authenticated;
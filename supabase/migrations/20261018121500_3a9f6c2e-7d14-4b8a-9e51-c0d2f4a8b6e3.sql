@@ -0,0 +1,194 @@
+-- Admin role, admin-only aggregates, and no more public reads of raw likes and feedback.
+
+-- Roles live in their own table so they can't be granted by editing a profile
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Roles are granted from the SQL editor only, e.g.
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<auth user id>', 'admin');
+-- Users can just see their own.
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Definer so policies can call it without recursing through user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+-- Raw rows (with fingerprints) are no longer world-readable
+DROP POLICY "Anyone can view likes count" ON public.video_likes;
+DROP POLICY "Anyone can view feedback" ON public.video_feedback;
+DROP POLICY "Anyone can delete their own likes" ON public.video_likes;
+
+CREATE POLICY "Users can view their own likes"
+  ON public.video_likes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all likes"
+  ON public.video_likes FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own feedback"
+  ON public.video_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all feedback"
+  ON public.video_feedback FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Public like count for a byte, without exposing who liked it
+CREATE OR REPLACE FUNCTION public.get_like_count(p_course_id TEXT, p_byte_id TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER FROM public.video_likes
+  WHERE course_id = p_course_id AND byte_id = p_byte_id;
+$$;
+
+-- The caller's own like: by account when signed in, else by unclaimed fingerprint
+CREATE OR REPLACE FUNCTION public.has_liked(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.video_likes
+    WHERE course_id = p_course_id
+      AND byte_id = p_byte_id
+      AND CASE
+        WHEN auth.uid() IS NOT NULL THEN user_id = auth.uid()
+        ELSE user_fingerprint = p_fingerprint AND user_id IS NULL
+      END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_like(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.video_likes
+  WHERE course_id = p_course_id
+    AND byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN user_id = auth.uid()
+      ELSE user_fingerprint = p_fingerprint AND user_id IS NULL
+    END;
+$$;
+
+-- The caller's latest feedback on a byte, same identity rules as has_liked
+CREATE OR REPLACE FUNCTION public.get_my_feedback(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS TABLE (id UUID, rating INTEGER, comment TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id, f.rating, f.comment, f.created_at
+  FROM public.video_feedback AS f
+  WHERE f.course_id = p_course_id
+    AND f.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN f.user_id = auth.uid()
+      ELSE f.user_fingerprint = p_fingerprint AND f.user_id IS NULL
+    END
+  ORDER BY f.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Admin aggregates. security_invoker makes the views run under the caller's
+-- RLS, so only admins see everyone's rows; nobody sees fingerprints.
+CREATE VIEW public.video_engagement_stats
+WITH (security_invoker = on) AS
+WITH likes AS (
+  SELECT course_id, byte_id, COUNT(*) AS likes
+  FROM public.video_likes
+  GROUP BY course_id, byte_id
+),
+feedback AS (
+  SELECT
+    course_id,
+    byte_id,
+    COUNT(*) AS feedback_count,
+    AVG(rating)::DOUBLE PRECISION AS avg_rating,
+    COUNT(*) FILTER (WHERE rating = 1) AS rating_1,
+    COUNT(*) FILTER (WHERE rating = 2) AS rating_2,
+    COUNT(*) FILTER (WHERE rating = 3) AS rating_3,
+    COUNT(*) FILTER (WHERE rating = 4) AS rating_4,
+    COUNT(*) FILTER (WHERE rating = 5) AS rating_5
+  FROM public.video_feedback
+  GROUP BY course_id, byte_id
+)
+SELECT
+  COALESCE(l.course_id, f.course_id) AS course_id,
+  COALESCE(l.byte_id, f.byte_id) AS byte_id,
+  COALESCE(l.likes, 0)::INTEGER AS likes,
+  COALESCE(f.feedback_count, 0)::INTEGER AS feedback_count,
+  f.avg_rating,
+  COALESCE(f.rating_1, 0)::INTEGER AS rating_1,
+  COALESCE(f.rating_2, 0)::INTEGER AS rating_2,
+  COALESCE(f.rating_3, 0)::INTEGER AS rating_3,
+  COALESCE(f.rating_4, 0)::INTEGER AS rating_4,
+  COALESCE(f.rating_5, 0)::INTEGER AS rating_5
+FROM likes AS l
+FULL OUTER JOIN feedback AS f
+  ON f.course_id = l.course_id AND f.byte_id = l.byte_id;
+
+-- Reviewers are numbered per course instead of exposing their identity
+CREATE VIEW public.video_feedback_comments
+WITH (security_invoker = on) AS
+SELECT
+  course_id,
+  byte_id,
+  rating,
+  comment,
+  created_at,
+  DENSE_RANK() OVER (
+    PARTITION BY course_id
+    ORDER BY COALESCE(user_id::TEXT, user_fingerprint)
+  )::INTEGER AS reviewer_number
+FROM public.video_feedback;
+
+CREATE VIEW public.course_engagement_summary
+WITH (security_invoker = on) AS
+WITH identities AS (
+  SELECT course_id, COALESCE(user_id::TEXT, user_fingerprint) AS identity FROM public.video_likes
+  UNION
+  SELECT course_id, COALESCE(user_id::TEXT, user_fingerprint) FROM public.video_feedback
+)
+SELECT
+  i.course_id,
+  (SELECT COUNT(*) FROM public.video_likes AS l WHERE l.course_id = i.course_id)::INTEGER AS total_likes,
+  (SELECT COUNT(*) FROM public.video_feedback AS f WHERE f.course_id = i.course_id)::INTEGER AS total_feedback,
+  COUNT(DISTINCT i.identity)::INTEGER AS unique_users,
+  (SELECT AVG(rating) FROM public.video_feedback AS f WHERE f.course_id = i.course_id)::DOUBLE PRECISION AS avg_rating
+FROM identities AS i
+GROUP BY i.course_id;
+
+REVOKE ALL ON public.video_engagement_stats, public.video_feedback_comments, public.course_engagement_summary FROM anon;
+GRANT SELECT ON public.video_engagement_stats, public.video_feedback_comments, public.course_engagement_summary TO authenticated;
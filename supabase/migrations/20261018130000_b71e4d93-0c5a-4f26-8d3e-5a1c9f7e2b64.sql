@@ -0,0 +1,318 @@
+-- Harden likes and feedback writes:
+--   * every write goes through an RPC that resolves the caller's identity
+--     (account when signed in, else the device fingerprint) and is rate limited
+--   * signed-in users may update/delete only their own rows directly
+--   * one rating per byte per identity, editable afterwards
+--
+-- Fingerprints are not secrets, so anonymous identity remains best effort;
+-- the per-IP limits below cap what a single client can do with made-up ones.
+
+-- Rate limiting ------------------------------------------------------------
+
+CREATE TABLE public.write_rate_events (
+  id BIGSERIAL PRIMARY KEY,
+  identity TEXT NOT NULL,
+  action TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: only the definer functions below read or write it
+ALTER TABLE public.write_rate_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_write_rate_events_lookup
+  ON public.write_rate_events(identity, action, created_at);
+
+-- Client IP from the API gateway, when available
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(
+    split_part(
+      COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''),
+      ',',
+      1
+    ),
+    ''
+  );
+$$;
+
+-- Identity key used for uniqueness and rate limits
+CREATE OR REPLACE FUNCTION public.request_identity(p_fingerprint TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN 'user:' || auth.uid()::TEXT;
+  END IF;
+  IF p_fingerprint IS NULL OR length(p_fingerprint) = 0 OR length(p_fingerprint) > 64 THEN
+    RAISE EXCEPTION 'invalid_identity' USING HINT = 'A fingerprint is required when signed out';
+  END IF;
+  RETURN 'fp:' || p_fingerprint;
+END;
+$$;
+
+-- Raises rate_limited once the key has used up its budget for the window
+CREATE OR REPLACE FUNCTION public.enforce_rate_limit(
+  p_identity TEXT,
+  p_action TEXT,
+  p_max INTEGER,
+  p_window INTERVAL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM public.write_rate_events
+  WHERE identity = p_identity AND action = p_action AND created_at < now() - p_window;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.write_rate_events
+  WHERE identity = p_identity AND action = p_action;
+
+  IF v_count >= p_max THEN
+    RAISE EXCEPTION 'rate_limited'
+      USING HINT = format('At most %s %s writes per %s', p_max, p_action, p_window);
+  END IF;
+
+  INSERT INTO public.write_rate_events (identity, action) VALUES (p_identity, p_action);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enforce_rate_limit(TEXT, TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Identity-bound policies ---------------------------------------------------
+
+DROP POLICY "Anyone can insert likes" ON public.video_likes;
+DROP POLICY "Anyone can insert feedback" ON public.video_feedback;
+
+CREATE POLICY "Users can delete their own likes"
+  ON public.video_likes FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own feedback"
+  ON public.video_feedback FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feedback"
+  ON public.video_feedback FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- One like / rating per identity --------------------------------------------
+
+-- Likes: the fingerprint is only the identity while nobody owns the row
+ALTER TABLE public.video_likes
+  DROP CONSTRAINT video_likes_course_byte_user_key;
+
+CREATE UNIQUE INDEX video_likes_course_byte_fingerprint_key
+  ON public.video_likes(course_id, byte_id, user_fingerprint)
+  WHERE user_id IS NULL;
+
+-- Feedback: keep each identity's newest rating per byte
+DELETE FROM public.video_feedback AS older
+USING public.video_feedback AS newer
+WHERE older.course_id = newer.course_id
+  AND older.byte_id = newer.byte_id
+  AND COALESCE(older.user_id::TEXT, older.user_fingerprint) = COALESCE(newer.user_id::TEXT, newer.user_fingerprint)
+  AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.video_feedback
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.video_feedback
+  ADD CONSTRAINT video_feedback_comment_length CHECK (comment IS NULL OR length(comment) <= 1000);
+
+CREATE UNIQUE INDEX video_feedback_course_byte_user_id_key
+  ON public.video_feedback(course_id, byte_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX video_feedback_course_byte_fingerprint_key
+  ON public.video_feedback(course_id, byte_id, user_fingerprint)
+  WHERE user_id IS NULL;
+
+-- Claiming must not produce a second rating for the account
+CREATE OR REPLACE FUNCTION public.claim_fingerprint_activity(p_fingerprint TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_likes INTEGER;
+  v_feedback INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to claim activity';
+  END IF;
+
+  -- Likes and ratings the account already has (e.g. from another device) win over the device's copy
+  DELETE FROM public.video_likes AS device_like
+  WHERE device_like.user_fingerprint = p_fingerprint
+    AND device_like.user_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.video_likes AS account_like
+      WHERE account_like.user_id = v_user_id
+        AND account_like.course_id = device_like.course_id
+        AND account_like.byte_id = device_like.byte_id
+    );
+
+  DELETE FROM public.video_feedback AS device_feedback
+  WHERE device_feedback.user_fingerprint = p_fingerprint
+    AND device_feedback.user_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.video_feedback AS account_feedback
+      WHERE account_feedback.user_id = v_user_id
+        AND account_feedback.course_id = device_feedback.course_id
+        AND account_feedback.byte_id = device_feedback.byte_id
+    );
+
+  UPDATE public.video_likes
+  SET user_id = v_user_id
+  WHERE user_fingerprint = p_fingerprint
+    AND user_id IS NULL;
+  GET DIAGNOSTICS v_likes = ROW_COUNT;
+
+  UPDATE public.video_feedback
+  SET user_id = v_user_id
+  WHERE user_fingerprint = p_fingerprint
+    AND user_id IS NULL;
+  GET DIAGNOSTICS v_feedback = ROW_COUNT;
+
+  RETURN v_likes + v_feedback;
+END;
+$$;
+
+-- Write RPCs -----------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.add_like(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+BEGIN
+  PERFORM public.enforce_rate_limit(v_identity, 'like', 60, interval '10 minutes');
+  PERFORM public.enforce_rate_limit('ip:' || COALESCE(public.request_ip(), 'unknown'), 'like', 300, interval '10 minutes');
+
+  INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint, user_id)
+  VALUES (p_course_id, p_byte_id, COALESCE(p_fingerprint, ''), auth.uid())
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Replaces the unlimited version from the admin migration
+CREATE OR REPLACE FUNCTION public.remove_like(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+BEGIN
+  PERFORM public.enforce_rate_limit(v_identity, 'like', 60, interval '10 minutes');
+
+  DELETE FROM public.video_likes
+  WHERE course_id = p_course_id
+    AND byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN user_id = auth.uid()
+      ELSE user_fingerprint = p_fingerprint AND user_id IS NULL
+    END;
+END;
+$$;
+
+-- Create or update the caller's rating for a byte
+CREATE OR REPLACE FUNCTION public.submit_feedback(
+  p_course_id TEXT,
+  p_byte_id TEXT,
+  p_fingerprint TEXT,
+  p_rating INTEGER,
+  p_comment TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  rating INTEGER,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+  v_comment TEXT := NULLIF(btrim(p_comment), '');
+  v_id UUID;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'invalid_rating' USING HINT = 'Rating must be between 1 and 5';
+  END IF;
+  IF v_comment IS NOT NULL AND length(v_comment) > 1000 THEN
+    RAISE EXCEPTION 'comment_too_long' USING HINT = 'Comments are limited to 1000 characters';
+  END IF;
+
+  PERFORM public.enforce_rate_limit(v_identity, 'feedback', 10, interval '1 hour');
+  PERFORM public.enforce_rate_limit('ip:' || COALESCE(public.request_ip(), 'unknown'), 'feedback', 50, interval '1 hour');
+
+  UPDATE public.video_feedback AS f
+  SET rating = p_rating, comment = v_comment, updated_at = now()
+  WHERE f.course_id = p_course_id
+    AND f.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN f.user_id = auth.uid()
+      ELSE f.user_fingerprint = p_fingerprint AND f.user_id IS NULL
+    END
+  RETURNING f.id INTO v_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating, comment)
+    VALUES (p_course_id, p_byte_id, COALESCE(p_fingerprint, ''), auth.uid(), p_rating, v_comment)
+    RETURNING public.video_feedback.id INTO v_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, f.rating, f.comment, f.created_at, f.updated_at
+  FROM public.video_feedback AS f
+  WHERE f.id = v_id;
+END;
+$$;
+
+-- Same as before, plus updated_at now that ratings can be edited
+DROP FUNCTION public.get_my_feedback(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.get_my_feedback(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS TABLE (
+  id UUID,
+  rating INTEGER,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id, f.rating, f.comment, f.created_at, f.updated_at
+  FROM public.video_feedback AS f
+  WHERE f.course_id = p_course_id
+    AND f.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN f.user_id = auth.uid()
+      ELSE f.user_fingerprint = p_fingerprint AND f.user_id IS NULL
+    END
+  LIMIT 1;
+$$;
@@ -0,0 +1,120 @@
+-- Keep every earlier version of a rating when it is edited or deleted.
+-- video_feedback holds only the current rating (one per identity per byte).
+
+CREATE TABLE public.video_feedback_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL,
+  course_id TEXT NOT NULL,
+  byte_id TEXT NOT NULL,
+  user_fingerprint TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL,
+  comment TEXT,
+  -- When this version was written, and when it was replaced or deleted
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  superseded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  change TEXT NOT NULL CHECK (change IN ('updated', 'deleted'))
+);
+
+CREATE INDEX idx_video_feedback_history_feedback
+  ON public.video_feedback_history(feedback_id, superseded_at);
+
+ALTER TABLE public.video_feedback_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feedback history"
+  ON public.video_feedback_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all feedback history"
+  ON public.video_feedback_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.archive_video_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Claiming only assigns an owner; that's not a new version, but the
+  -- earlier versions move to the account too
+  IF TG_OP = 'UPDATE'
+    AND NEW.rating = OLD.rating
+    AND NEW.comment IS NOT DISTINCT FROM OLD.comment THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      UPDATE public.video_feedback_history
+      SET user_id = NEW.user_id
+      WHERE feedback_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.video_feedback_history (
+    feedback_id, course_id, byte_id, user_fingerprint, user_id,
+    rating, comment, created_at, change
+  )
+  VALUES (
+    OLD.id, OLD.course_id, OLD.byte_id, OLD.user_fingerprint, OLD.user_id,
+    OLD.rating, OLD.comment, OLD.updated_at,
+    CASE WHEN TG_OP = 'DELETE' THEN 'deleted' ELSE 'updated' END
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER archive_video_feedback
+  BEFORE UPDATE OR DELETE ON public.video_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.archive_video_feedback();
+
+-- Delete the caller's current rating for a byte (history is kept)
+CREATE OR REPLACE FUNCTION public.delete_my_feedback(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+BEGIN
+  PERFORM public.enforce_rate_limit(v_identity, 'feedback', 10, interval '1 hour');
+
+  DELETE FROM public.video_feedback AS f
+  WHERE f.course_id = p_course_id
+    AND f.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN f.user_id = auth.uid()
+      ELSE f.user_fingerprint = p_fingerprint AND f.user_id IS NULL
+    END;
+END;
+$$;
+
+-- Earlier versions of the caller's rating for a byte, newest first
+CREATE OR REPLACE FUNCTION public.get_my_feedback_history(p_course_id TEXT, p_byte_id TEXT, p_fingerprint TEXT)
+RETURNS TABLE (
+  rating INTEGER,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  superseded_at TIMESTAMP WITH TIME ZONE,
+  change TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.rating, h.comment, h.created_at, h.superseded_at, h.change
+  FROM public.video_feedback_history AS h
+  WHERE h.course_id = p_course_id
+    AND h.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN h.user_id = auth.uid()
+      ELSE h.user_fingerprint = p_fingerprint AND h.user_id IS NULL
+    END
+  ORDER BY h.superseded_at DESC
+  LIMIT 20;
+$$;
@@ -0,0 +1,72 @@
+-- Latest quiz attempt per byte, stored with the rest of the byte's progress.
+-- NULL until the learner has taken the byte's quiz.
+ALTER TABLE public.video_progress
+  ADD COLUMN quiz_correct INTEGER CHECK (quiz_correct >= 0),
+  ADD COLUMN quiz_total INTEGER CHECK (quiz_total > 0),
+  ADD COLUMN quiz_attempted_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT video_progress_quiz_score CHECK (
+    (quiz_correct IS NULL AND quiz_total IS NULL AND quiz_attempted_at IS NULL) OR
+    (quiz_correct IS NOT NULL AND quiz_total IS NOT NULL AND quiz_attempted_at IS NOT NULL AND quiz_correct <= quiz_total)
+  );
+
+-- Same merge rules as before, plus: the most recent quiz attempt wins, so
+-- mastery reflects what the learner knows now rather than their best day
+CREATE OR REPLACE FUNCTION public.merge_video_progress(p_course_id TEXT, p_entries JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.video_progress AS current (
+    user_id, course_id, byte_id, watched_seconds, duration, percentage,
+    last_position, last_watched, is_completed, timing,
+    quiz_correct, quiz_total, quiz_attempted_at
+  )
+  SELECT
+    auth.uid(), p_course_id, entry.byte_id, entry.watched_seconds, entry.duration,
+    CASE WHEN entry.is_completed THEN 100 ELSE LEAST(entry.percentage, 100) END,
+    entry.last_position, entry.last_watched, entry.is_completed, entry.timing,
+    entry.quiz_correct, entry.quiz_total, entry.quiz_attempted_at
+  FROM jsonb_to_recordset(p_entries) AS entry(
+    byte_id TEXT,
+    watched_seconds DOUBLE PRECISION,
+    duration DOUBLE PRECISION,
+    percentage DOUBLE PRECISION,
+    last_position DOUBLE PRECISION,
+    last_watched TIMESTAMP WITH TIME ZONE,
+    is_completed BOOLEAN,
+    timing TEXT,
+    quiz_correct INTEGER,
+    quiz_total INTEGER,
+    quiz_attempted_at TIMESTAMP WITH TIME ZONE
+  )
+  ON CONFLICT (user_id, course_id, byte_id) DO UPDATE SET
+    watched_seconds = GREATEST(current.watched_seconds, EXCLUDED.watched_seconds),
+    duration = GREATEST(current.duration, EXCLUDED.duration),
+    is_completed = current.is_completed OR EXCLUDED.is_completed,
+    percentage = CASE
+      WHEN current.is_completed OR EXCLUDED.is_completed THEN 100
+      ELSE GREATEST(current.percentage, EXCLUDED.percentage)
+    END,
+    last_position = CASE
+      WHEN EXCLUDED.last_watched > current.last_watched THEN EXCLUDED.last_position
+      ELSE current.last_position
+    END,
+    timing = CASE
+      WHEN EXCLUDED.last_watched > current.last_watched THEN EXCLUDED.timing
+      ELSE current.timing
+    END,
+    last_watched = GREATEST(current.last_watched, EXCLUDED.last_watched),
+    quiz_correct = CASE
+      WHEN EXCLUDED.quiz_attempted_at > current.quiz_attempted_at OR current.quiz_attempted_at IS NULL
+        THEN COALESCE(EXCLUDED.quiz_correct, current.quiz_correct)
+      ELSE current.quiz_correct
+    END,
+    quiz_total = CASE
+      WHEN EXCLUDED.quiz_attempted_at > current.quiz_attempted_at OR current.quiz_attempted_at IS NULL
+        THEN COALESCE(EXCLUDED.quiz_total, current.quiz_total)
+      ELSE current.quiz_total
+    END,
+    quiz_attempted_at = GREATEST(current.quiz_attempted_at, EXCLUDED.quiz_attempted_at),
+    updated_at = now();
+$$;
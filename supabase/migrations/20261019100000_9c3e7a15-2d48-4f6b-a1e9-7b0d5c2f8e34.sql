@@ -0,0 +1,217 @@
+-- Tie claiming anonymous activity to the device that created it.
+--
+-- A fingerprint is not proof of anything: identical machines share one and
+-- it used to be readable by anyone. Each device now also keeps a random
+-- claim token and sends it with its anonymous writes; rows store only its
+-- SHA-256, and claiming takes the token itself.
+--
+-- Rows written before this (no token) can still be claimed by fingerprint,
+-- but only by the first account to claim that fingerprint.
+
+ALTER TABLE public.video_likes ADD COLUMN claim_token_hash TEXT;
+ALTER TABLE public.video_feedback ADD COLUMN claim_token_hash TEXT;
+
+CREATE INDEX idx_video_likes_claim_token ON public.video_likes(claim_token_hash) WHERE user_id IS NULL;
+CREATE INDEX idx_video_feedback_claim_token ON public.video_feedback(claim_token_hash) WHERE user_id IS NULL;
+
+-- Which account claimed a fingerprint's token-less rows
+CREATE TABLE public.claimed_fingerprints (
+  fingerprint TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: only claim_fingerprint_activity reads or writes it
+ALTER TABLE public.claimed_fingerprints ENABLE ROW LEVEL SECURITY;
+
+-- NULL for missing or implausibly short tokens, so they never match anything
+CREATE OR REPLACE FUNCTION public.hash_claim_token(p_claim_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_claim_token IS NULL OR length(p_claim_token) < 32 THEN NULL
+    ELSE encode(sha256(convert_to(p_claim_token, 'UTF8')), 'hex')
+  END;
+$$;
+
+-- Write RPCs, now taking the device's claim token --------------------------
+
+DROP FUNCTION public.add_like(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.add_like(
+  p_course_id TEXT,
+  p_byte_id TEXT,
+  p_fingerprint TEXT,
+  p_claim_token TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+BEGIN
+  PERFORM public.enforce_rate_limit(v_identity, 'like', 60, interval '10 minutes');
+  PERFORM public.enforce_rate_limit('ip:' || COALESCE(public.request_ip(), 'unknown'), 'like', 300, interval '10 minutes');
+
+  INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint, user_id, claim_token_hash)
+  VALUES (
+    p_course_id,
+    p_byte_id,
+    COALESCE(p_fingerprint, ''),
+    auth.uid(),
+    CASE WHEN auth.uid() IS NULL THEN public.hash_claim_token(p_claim_token) END
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+DROP FUNCTION public.submit_feedback(TEXT, TEXT, TEXT, INTEGER, TEXT);
+
+CREATE FUNCTION public.submit_feedback(
+  p_course_id TEXT,
+  p_byte_id TEXT,
+  p_fingerprint TEXT,
+  p_rating INTEGER,
+  p_comment TEXT,
+  p_claim_token TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  rating INTEGER,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity TEXT := public.request_identity(p_fingerprint);
+  v_comment TEXT := NULLIF(btrim(p_comment), '');
+  v_token_hash TEXT := CASE WHEN auth.uid() IS NULL THEN public.hash_claim_token(p_claim_token) END;
+  v_id UUID;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'invalid_rating' USING HINT = 'Rating must be between 1 and 5';
+  END IF;
+  IF v_comment IS NOT NULL AND length(v_comment) > 1000 THEN
+    RAISE EXCEPTION 'comment_too_long' USING HINT = 'Comments are limited to 1000 characters';
+  END IF;
+
+  PERFORM public.enforce_rate_limit(v_identity, 'feedback', 10, interval '1 hour');
+  PERFORM public.enforce_rate_limit('ip:' || COALESCE(public.request_ip(), 'unknown'), 'feedback', 50, interval '1 hour');
+
+  -- An existing row keeps the token of the device that created it
+  UPDATE public.video_feedback AS f
+  SET rating = p_rating,
+      comment = v_comment,
+      updated_at = now(),
+      claim_token_hash = COALESCE(f.claim_token_hash, v_token_hash)
+  WHERE f.course_id = p_course_id
+    AND f.byte_id = p_byte_id
+    AND CASE
+      WHEN auth.uid() IS NOT NULL THEN f.user_id = auth.uid()
+      ELSE f.user_fingerprint = p_fingerprint AND f.user_id IS NULL
+    END
+  RETURNING f.id INTO v_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating, comment, claim_token_hash)
+    VALUES (p_course_id, p_byte_id, COALESCE(p_fingerprint, ''), auth.uid(), p_rating, v_comment, v_token_hash)
+    RETURNING public.video_feedback.id INTO v_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, f.rating, f.comment, f.created_at, f.updated_at
+  FROM public.video_feedback AS f
+  WHERE f.id = v_id;
+END;
+$$;
+
+-- Claiming ---------------------------------------------------------------
+
+DROP FUNCTION public.claim_fingerprint_activity(TEXT);
+
+-- Move the device's unclaimed likes and ratings to the signed-in account:
+-- rows carrying the device's claim token, plus the fingerprint's token-less
+-- rows if no other account has claimed that fingerprint yet
+CREATE FUNCTION public.claim_fingerprint_activity(p_fingerprint TEXT, p_claim_token TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token_hash TEXT := public.hash_claim_token(p_claim_token);
+  v_claimed_by UUID;
+  v_legacy BOOLEAN;
+  v_likes INTEGER;
+  v_feedback INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to claim activity';
+  END IF;
+  IF v_token_hash IS NULL THEN
+    RAISE EXCEPTION 'invalid_claim_token' USING HINT = 'The device claim token is missing or too short';
+  END IF;
+
+  -- First claim of a fingerprint takes its token-less rows; later claims by
+  -- other accounts get only their own device's rows
+  INSERT INTO public.claimed_fingerprints (fingerprint, user_id)
+  VALUES (p_fingerprint, v_user_id)
+  ON CONFLICT (fingerprint) DO NOTHING;
+
+  SELECT user_id INTO v_claimed_by
+  FROM public.claimed_fingerprints
+  WHERE fingerprint = p_fingerprint;
+  v_legacy := v_claimed_by = v_user_id;
+
+  -- Likes and ratings the account already has (e.g. from another device) win over the device's copy
+  DELETE FROM public.video_likes AS device_like
+  WHERE device_like.user_id IS NULL
+    AND device_like.user_fingerprint = p_fingerprint
+    AND (device_like.claim_token_hash = v_token_hash OR (v_legacy AND device_like.claim_token_hash IS NULL))
+    AND EXISTS (
+      SELECT 1 FROM public.video_likes AS account_like
+      WHERE account_like.user_id = v_user_id
+        AND account_like.course_id = device_like.course_id
+        AND account_like.byte_id = device_like.byte_id
+    );
+
+  DELETE FROM public.video_feedback AS device_feedback
+  WHERE device_feedback.user_id IS NULL
+    AND device_feedback.user_fingerprint = p_fingerprint
+    AND (device_feedback.claim_token_hash = v_token_hash OR (v_legacy AND device_feedback.claim_token_hash IS NULL))
+    AND EXISTS (
+      SELECT 1 FROM public.video_feedback AS account_feedback
+      WHERE account_feedback.user_id = v_user_id
+        AND account_feedback.course_id = device_feedback.course_id
+        AND account_feedback.byte_id = device_feedback.byte_id
+    );
+
+  UPDATE public.video_likes
+  SET user_id = v_user_id
+  WHERE user_id IS NULL
+    AND user_fingerprint = p_fingerprint
+    AND (claim_token_hash = v_token_hash OR (v_legacy AND claim_token_hash IS NULL));
+  GET DIAGNOSTICS v_likes = ROW_COUNT;
+
+  UPDATE public.video_feedback
+  SET user_id = v_user_id
+  WHERE user_id IS NULL
+    AND user_fingerprint = p_fingerprint
+    AND (claim_token_hash = v_token_hash OR (v_legacy AND claim_token_hash IS NULL));
+  GET DIAGNOSTICS v_feedback = ROW_COUNT;
+
+  RETURN v_likes + v_feedback;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_fingerprint_activity(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_fingerprint_activity(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,21 @@
+-- Only trust IP headers the API gateway writes.
+--
+-- The first x-forwarded-for entry is whatever the client sent, so per-IP
+-- rate limits keyed on it could be dodged by making one up per request.
+-- The gateway sets x-real-ip to the address it saw the request come from,
+-- and appends that same address as the last x-forwarded-for hop; use
+-- x-real-ip and fall back to the last hop.
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  WITH headers AS (
+    SELECT current_setting('request.headers', true)::json AS h
+  )
+  SELECT COALESCE(
+    NULLIF(btrim(h ->> 'x-real-ip'), ''),
+    NULLIF(btrim(substring(h ->> 'x-forwarded-for' FROM '([^,]*)$')), '')
+  )
+  FROM headers;
+$$;
@@ -0,0 +1,9 @@
+-- Likes and feedback are written only through add_like, remove_like,
+-- submit_feedback and delete_my_feedback.
+--
+-- The direct delete/update policies let signed-in users skip the rate
+-- limits and comment validation, and rewrite any column of their own rows.
+-- Without them RLS refuses every direct write; reads are unchanged.
+DROP POLICY "Users can delete their own likes" ON public.video_likes;
+DROP POLICY "Users can update their own feedback" ON public.video_feedback;
+DROP POLICY "Users can delete their own feedback" ON public.video_feedback;
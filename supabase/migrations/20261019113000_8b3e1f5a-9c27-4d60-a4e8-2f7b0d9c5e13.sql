@@ -0,0 +1,60 @@
+-- Deleting an account deletes its likes and ratings.
+--
+-- With ON DELETE SET NULL they turned into anonymous rows under whatever
+-- fingerprint they were written with (often an empty one), which could
+-- collide on the per-fingerprint unique indexes and left them open to claims.
+-- Their history already goes with the account (video_feedback_history).
+ALTER TABLE public.video_likes
+  DROP CONSTRAINT video_likes_user_id_fkey,
+  ADD CONSTRAINT video_likes_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.video_feedback
+  DROP CONSTRAINT video_feedback_user_id_fkey,
+  ADD CONSTRAINT video_feedback_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Same as before, except a rating deleted along with its account isn't
+-- archived: the account's history is being deleted too
+CREATE OR REPLACE FUNCTION public.archive_video_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE'
+    AND OLD.user_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  -- Claiming only assigns an owner; that's not a new version, but the
+  -- earlier versions move to the account too
+  IF TG_OP = 'UPDATE'
+    AND NEW.rating = OLD.rating
+    AND NEW.comment IS NOT DISTINCT FROM OLD.comment THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      UPDATE public.video_feedback_history
+      SET user_id = NEW.user_id
+      WHERE feedback_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.video_feedback_history (
+    feedback_id, course_id, byte_id, user_fingerprint, user_id,
+    rating, comment, created_at, change
+  )
+  VALUES (
+    OLD.id, OLD.course_id, OLD.byte_id, OLD.user_fingerprint, OLD.user_id,
+    OLD.rating, OLD.comment, OLD.updated_at,
+    CASE WHEN TG_OP = 'DELETE' THEN 'deleted' ELSE 'updated' END
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
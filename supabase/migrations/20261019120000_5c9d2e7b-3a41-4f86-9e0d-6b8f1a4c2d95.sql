@@ -0,0 +1,22 @@
+-- Every new version of a rating gets its own updated_at, however it was
+-- written. The history stamps each archived version with it, so a write
+-- that left it alone gave versions wrong or duplicate times.
+CREATE OR REPLACE FUNCTION public.touch_video_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Claiming only changes the owner, which isn't a new version
+  IF NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.comment IS DISTINCT FROM OLD.comment THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_video_feedback
+  BEFORE UPDATE ON public.video_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_video_feedback();
@@ -0,0 +1,10 @@
+-- has_role is a definer function, so anyone able to call it could look up
+-- whether any user id is an admin. Only signed-in users need it, through
+-- the admin policies below, which now apply to them alone (anonymous
+-- callers would otherwise fail on the function they can't execute).
+REVOKE EXECUTE ON FUNCTION public.has_role(UUID, public.app_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_role(UUID, public.app_role) TO authenticated;
+
+ALTER POLICY "Admins can view all likes" ON public.video_likes TO authenticated;
+ALTER POLICY "Admins can view all feedback" ON public.video_feedback TO authenticated;
+ALTER POLICY "Admins can view all feedback history" ON public.video_feedback_history TO authenticated;
@@ -0,0 +1,354 @@
+-- Likes and feedback: no direct writes, the write RPCs and the identity they
+-- resolve, rate limits and one like / rating per identity. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(50);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint, user_id) VALUES
+  ('course', 'byte-1', 'fp-alice', '00000000-0000-0000-0000-00000000000a'),
+  ('course', 'byte-1', 'fp-bob', '00000000-0000-0000-0000-00000000000b'),
+  ('course', 'byte-1', 'fp-anon', NULL);
+
+INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating, comment) VALUES
+  ('course', 'byte-1', 'fp-alice', '00000000-0000-0000-0000-00000000000a', 4, 'alice'),
+  ('course', 'byte-1', 'fp-bob', '00000000-0000-0000-0000-00000000000b', 2, 'bob'),
+  ('course', 'byte-1', 'fp-anon', NULL, 3, 'anon');
+
+-- No direct writes -------------------------------------------------------------
+
+-- Every write goes through the RPCs, so RLS refuses inserts and leaves
+-- updates and deletes with nothing to touch, even on the caller's own rows
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint, user_id)
+     VALUES ('course', 'byte-2', 'fp-alice', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'a signed-in user cannot insert likes directly'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating)
+     VALUES ('course', 'byte-2', 'fp-alice', '00000000-0000-0000-0000-00000000000a', 5) $$,
+  '42501',
+  NULL,
+  'a signed-in user cannot insert ratings directly'
+);
+
+DELETE FROM public.video_likes WHERE course_id = 'course';
+UPDATE public.video_feedback SET rating = 1, comment = 'changed', byte_id = 'byte-2' WHERE course_id = 'course';
+DELETE FROM public.video_feedback WHERE course_id = 'course';
+
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims = '{"role": "anon"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint) VALUES ('course', 'byte-2', 'fp-anon') $$,
+  '42501',
+  NULL,
+  'signed-out clients cannot insert likes directly'
+);
+
+DELETE FROM public.video_likes WHERE course_id = 'course';
+UPDATE public.video_feedback SET rating = 1 WHERE course_id = 'course';
+DELETE FROM public.video_feedback WHERE course_id = 'course';
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_likes WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+  1,
+  'a signed-in user cannot delete their own like directly'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_likes),
+  3,
+  'direct deletes leave every like in place'
+);
+SELECT is(
+  (SELECT rating || ' ' || comment || ' ' || byte_id FROM public.video_feedback WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+  '4 alice byte-1',
+  'a signed-in user cannot rewrite their own rating directly'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_feedback WHERE rating = 1),
+  0,
+  'direct updates change no rating'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_feedback),
+  3,
+  'direct deletes leave every rating in place'
+);
+
+-- Identity and client IP ----------------------------------------------------------
+
+SET LOCAL request.jwt.claims = '{"role": "anon"}';
+
+SELECT is(public.request_identity('fp-anon'), 'fp:fp-anon', 'signed out, the fingerprint is the identity');
+SELECT throws_ok(
+  $$ SELECT public.request_identity('') $$,
+  'P0001',
+  'invalid_identity',
+  'signed out, a fingerprint is required'
+);
+SELECT throws_ok(
+  $$ SELECT public.request_identity(repeat('f', 65)) $$,
+  'P0001',
+  'invalid_identity',
+  'fingerprints longer than 64 characters are refused'
+);
+
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+SELECT is(
+  public.request_identity('fp-alice'),
+  'user:00000000-0000-0000-0000-00000000000a',
+  'signed in, the account is the identity whatever the fingerprint'
+);
+
+SET LOCAL request.headers = '{"x-forwarded-for": "1.1.1.1, 10.0.0.1, 203.0.113.9", "x-real-ip": "198.51.100.7"}';
+SELECT is(public.request_ip(), '198.51.100.7', 'the gateway''s x-real-ip is preferred');
+
+SET LOCAL request.headers = '{"x-forwarded-for": "1.1.1.1, 10.0.0.1 , 203.0.113.9 "}';
+SELECT is(public.request_ip(), '203.0.113.9', 'otherwise the last x-forwarded-for hop, not the client-supplied first');
+
+SET LOCAL request.headers = '{}';
+SELECT is(public.request_ip(), NULL, 'no IP without the headers');
+
+-- Likes -----------------------------------------------------------------------
+
+SET LOCAL request.headers = '{"x-real-ip": "198.51.100.7"}';
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims = '{"role": "anon"}';
+
+SELECT lives_ok(
+  $$ SELECT public.add_like('rpc', 'byte-1', 'fp-rpc'); SELECT public.add_like('rpc', 'byte-1', 'fp-rpc') $$,
+  'liking twice while signed out is not an error'
+);
+SELECT lives_ok(
+  $$ SELECT public.add_like('rpc', 'byte-2', 'fp-rpc'); SELECT public.add_like('rpc', 'byte-2', 'fp-other') $$,
+  'other devices can like the same byte'
+);
+SELECT lives_ok(
+  $$ SELECT public.remove_like('rpc', 'byte-2', 'fp-rpc') $$,
+  'a signed-out device can remove its like'
+);
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ SELECT public.add_like('rpc', 'byte-1', 'fp-rpc'); SELECT public.add_like('rpc', 'byte-1', 'fp-elsewhere') $$,
+  'liking twice while signed in is not an error'
+);
+SELECT lives_ok(
+  $$ SELECT public.remove_like('rpc', 'byte-2', 'fp-other') $$,
+  'removing a like the account doesn''t have is not an error'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_likes WHERE course_id = 'rpc' AND byte_id = 'byte-1' AND user_id IS NULL),
+  1,
+  'add_like keeps one like per signed-out device'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_likes WHERE course_id = 'rpc' AND byte_id = 'byte-1' AND user_id IS NOT NULL),
+  1,
+  'add_like keeps one like per account'
+);
+SELECT is(
+  (SELECT array_agg(user_fingerprint) FROM public.video_likes WHERE course_id = 'rpc' AND byte_id = 'byte-2'),
+  ARRAY['fp-other'],
+  'remove_like removes only the caller''s own like'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.write_rate_events WHERE identity = 'fp:fp-rpc' AND action = 'like'),
+  4,
+  'every like and unlike counts against the device''s limit'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.write_rate_events WHERE identity = 'ip:198.51.100.7' AND action = 'like'),
+  6,
+  'adding likes counts against the IP''s limit'
+);
+
+-- Feedback ----------------------------------------------------------------------
+
+SET LOCAL ROLE anon;
+SET LOCAL request.jwt.claims = '{"role": "anon"}';
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 0, '') $$,
+  'P0001',
+  'invalid_rating',
+  'ratings below 1 are refused'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 6, '') $$,
+  'P0001',
+  'invalid_rating',
+  'ratings above 5 are refused'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 3, repeat('x', 1001)) $$,
+  'P0001',
+  'comment_too_long',
+  'comments over 1000 characters are refused'
+);
+SELECT is(
+  (SELECT comment FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 3, '  first  ')),
+  'first',
+  'comments are trimmed'
+);
+SELECT is(
+  (SELECT rating || ' ' || COALESCE(comment, 'none') FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 5, '   ')),
+  '5 none',
+  'rating again updates the rating, and a blank comment is stored as none'
+);
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ SELECT * FROM public.submit_feedback('rpc', 'byte-1', 'fp-rpc', 2, 'mine'); SELECT * FROM public.submit_feedback('rpc', 'byte-1', 'fp-elsewhere', 4, 'changed') $$,
+  'an account can rate and re-rate from any device'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_feedback WHERE course_id = 'rpc' AND user_id IS NULL),
+  1,
+  'submit_feedback keeps one rating per signed-out device'
+);
+SELECT is(
+  (SELECT rating || ' ' || comment FROM public.video_feedback WHERE course_id = 'rpc' AND user_id = '00000000-0000-0000-0000-00000000000a'),
+  '4 changed',
+  'submit_feedback keeps one rating per account, replaced by the latest'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_feedback_history WHERE course_id = 'rpc'),
+  2,
+  'replaced ratings are kept in the history'
+);
+
+-- Rate limits -----------------------------------------------------------------
+
+SELECT lives_ok(
+  $$ SELECT public.enforce_rate_limit('fp:test', 'like', 2, interval '10 minutes') $$,
+  'the first write within the limit passes'
+);
+SELECT lives_ok(
+  $$ SELECT public.enforce_rate_limit('fp:test', 'like', 2, interval '10 minutes') $$,
+  'writes up to the limit pass'
+);
+SELECT throws_ok(
+  $$ SELECT public.enforce_rate_limit('fp:test', 'like', 2, interval '10 minutes') $$,
+  'P0001',
+  'rate_limited',
+  'the write over the limit is rejected'
+);
+SELECT lives_ok(
+  $$ SELECT public.enforce_rate_limit('fp:test', 'feedback', 2, interval '10 minutes') $$,
+  'limits are counted per action'
+);
+
+INSERT INTO public.write_rate_events (identity, action, created_at)
+SELECT 'fp:old', 'like', now() - interval '2 hours' FROM generate_series(1, 5);
+
+SELECT lives_ok(
+  $$ SELECT public.enforce_rate_limit('fp:old', 'like', 2, interval '1 hour') $$,
+  'writes outside the window do not count'
+);
+
+SELECT ok(
+  NOT has_function_privilege('authenticated', 'public.enforce_rate_limit(text, text, integer, interval)', 'execute')
+    AND NOT has_function_privilege('anon', 'public.enforce_rate_limit(text, text, integer, interval)', 'execute'),
+  'clients cannot call enforce_rate_limit themselves'
+);
+
+-- One like / rating per identity ----------------------------------------------
+
+SELECT throws_ok(
+  $$ INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint, user_id)
+     VALUES ('course', 'byte-1', 'fp-other-device', '00000000-0000-0000-0000-00000000000b') $$,
+  '23505',
+  NULL,
+  'an account likes a byte once, whatever the device'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.video_likes (course_id, byte_id, user_fingerprint) VALUES ('course', 'byte-1', 'fp-anon') $$,
+  '23505',
+  NULL,
+  'a signed-out device likes a byte once'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating)
+     VALUES ('course', 'byte-1', 'fp-other-device', '00000000-0000-0000-0000-00000000000b', 5) $$,
+  '23505',
+  NULL,
+  'an account rates a byte once, whatever the device'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, rating) VALUES ('course', 'byte-1', 'fp-anon', 5) $$,
+  '23505',
+  NULL,
+  'a signed-out device rates a byte once'
+);
+SELECT lives_ok(
+  $$ INSERT INTO public.video_feedback (course_id, byte_id, user_fingerprint, user_id, rating) VALUES
+     ('course', 'byte-2', 'fp-anon', NULL, 3),
+     ('course', 'byte-2', 'fp-anon', '00000000-0000-0000-0000-00000000000a', 5) $$,
+  'the same device may rate again once signed in to an account'
+);
+
+-- Admin checks ----------------------------------------------------------------------
+
+SELECT ok(
+  NOT has_function_privilege('anon', 'public.has_role(uuid, public.app_role)', 'execute'),
+  'signed-out callers cannot look up who is an admin'
+);
+
+-- Feedback versions ---------------------------------------------------------------
+
+UPDATE public.video_feedback SET updated_at = now() - interval '1 day' WHERE user_fingerprint = 'fp-anon' AND byte_id = 'byte-1';
+UPDATE public.video_feedback SET rating = 1 WHERE user_fingerprint = 'fp-anon' AND byte_id = 'byte-1';
+
+SELECT is(
+  (SELECT updated_at FROM public.video_feedback WHERE user_fingerprint = 'fp-anon' AND byte_id = 'byte-1'),
+  now(),
+  'any change to a rating stamps updated_at'
+);
+SELECT is(
+  (SELECT created_at FROM public.video_feedback_history WHERE user_fingerprint = 'fp-anon' AND byte_id = 'byte-1' ORDER BY superseded_at DESC LIMIT 1),
+  now() - interval '1 day',
+  'the replaced version keeps the time it was written'
+);
+
+-- Deleted accounts -------------------------------------------------------------
+
+DELETE FROM auth.users WHERE id = '00000000-0000-0000-0000-00000000000b';
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_likes WHERE user_fingerprint = 'fp-bob')
+    + (SELECT count(*)::INTEGER FROM public.video_feedback WHERE user_fingerprint = 'fp-bob'),
+  0,
+  'deleting an account deletes its likes and ratings instead of making them anonymous'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.video_feedback_history WHERE user_fingerprint = 'fp-bob'),
+  0,
+  'and leaves nothing of them in the history'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -1,7 +1,117 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
+import {
+  validateCatalog,
+  validateCourseManifest,
+  formatCatalogReport,
+  hasCatalogErrors,
+  CatalogIssue,
+} from "./src/lib/catalog";
+import { COURSES_MANIFEST_URL } from "./src/types/course";
+
+// Validate the course manifest and every course catalog under public/ -
+// fails production builds on catalog errors
+function catalogValidation(): Plugin {
+  const publicDir = path.resolve(__dirname, "./public");
+
+  return {
+    name: "catalog-validation",
+    buildStart() {
+      const readJson = (url: string): unknown => {
+        const filePath = path.join(publicDir, url);
+        try {
+          return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+        } catch (error) {
+          this.error(`Could not read ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+      };
+
+      const report = (issues: CatalogIssue[], label: string) => {
+        if (issues.length === 0) return;
+        const text = formatCatalogReport(issues, label);
+        if (hasCatalogErrors(issues) && this.meta.watchMode === false) {
+          this.error(text);
+        }
+        this.warn(text);
+      };
+
+      const { courses, issues: manifestIssues } = validateCourseManifest(readJson(COURSES_MANIFEST_URL));
+      report(manifestIssues, COURSES_MANIFEST_URL);
+
+      courses.forEach(course => {
+        const { issues } = validateCatalog(readJson(course.catalog), course);
+        report(issues, `${course.id} catalog (${course.catalog})`);
+      });
+    },
+  };
+}
+
+// Files of the Python runtime (Pyodide) used by exercises, served from
+// /assets/pyodide/ - from node_modules in development, copied by the build
+const PYODIDE_DIR = path.resolve(__dirname, "./node_modules/pyodide");
+const PYODIDE_URL_PATH = "/assets/pyodide/";
+const PYODIDE_FILES = ["pyodide.asm.js", "pyodide.asm.wasm", "python_stdlib.zip", "pyodide-lock.json"];
+
+function pyodideRuntime(): Plugin {
+  return {
+    name: "pyodide-runtime",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const file = req.url?.startsWith(PYODIDE_URL_PATH) && req.url.slice(PYODIDE_URL_PATH.length).split("?")[0];
+        if (!file || !PYODIDE_FILES.includes(file)) return next();
+        if (file.endsWith(".wasm")) res.setHeader("Content-Type", "application/wasm");
+        fs.createReadStream(path.join(PYODIDE_DIR, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      PYODIDE_FILES.forEach(file => {
+        this.emitFile({
+          type: "asset",
+          fileName: `${PYODIDE_URL_PATH.slice(1)}${file}`,
+          source: fs.readFileSync(path.join(PYODIDE_DIR, file)),
+        });
+      });
+    },
+  };
+}
+
+// List every built file plus the course data for the service worker
+// (public/sw.js) to precache, so the whole app works offline
+function precacheManifest(): Plugin {
+  const publicDir = path.resolve(__dirname, "./public");
+
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter(fileName => fileName !== "index.html" && !fileName.endsWith(".map"))
+        .map(fileName => `/${fileName}`);
+      // The Python runtime is large and only needed for exercises, so it is
+      // cached on first use instead - but kept like any other built file
+      const lazy = files.filter(file => file.startsWith(PYODIDE_URL_PATH));
+
+      // Catalogs come from the manifest; broken ones were already reported by catalogValidation
+      const data = [COURSES_MANIFEST_URL];
+      try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(publicDir, COURSES_MANIFEST_URL), "utf-8"));
+        validateCourseManifest(manifest).courses.forEach(course => data.push(course.catalog));
+      } catch {
+        // Reported by catalogValidation
+      }
+
+      this.emitFile({
+        type: "asset",
+        fileName: "precache-manifest.json",
+        source: JSON.stringify({ files: files.filter(file => !lazy.includes(file)), lazy, data }, null, 2),
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +119,14 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), catalogValidation(), pyodideRuntime(), precacheManifest(), mode === "development" && componentTagger()].filter(Boolean),
+  // Pyodide loads its own files at runtime; its worker uses dynamic imports
+  optimizeDeps: {
+    exclude: ["pyodide"],
+  },
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),